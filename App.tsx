@@ -3,15 +3,75 @@ import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   PayrollInput, 
   PayrollOutput, 
+  Employee,
   Sector, 
   AppTab, 
   AdjustmentType, 
-  WorkStatus,
   RiskLevel,
   WorkingStatus,
-  ActivityLevel
+  ActivityLevel,
+  RecordingMode,
+  ShiftEvent,
+  ShiftSession,
+  Detection,
+  Dispute,
+  ReviewItem,
+  AlertSettings,
+  UserSession
 } from './types';
-import { calculatePayroll } from './services/geminiService';
+import { calculatePayroll } from './services/payrollService';
+import { AnalysisError } from './services/analysisErrors';
+import { getActiveProviderId, getAnalysisProviders, setActiveProviderId } from './services/analysisProviders';
+import { DEFAULT_SECTOR, PPE_LABELS, SECTOR_POLICIES, getRecordPpe, getSectorPolicy } from './services/sectorPolicies';
+import { checkRoster, loadRoster, saveRoster } from './services/rosterStore';
+import { buildDeniedRecord } from './services/payrollEngine';
+import RosterPanel from './components/RosterPanel';
+import RecordingsPanel from './components/RecordingsPanel';
+import ServerConnectionPanel from './components/ServerConnectionPanel';
+import ShiftSessionsPanel from './components/ShiftSessionsPanel';
+import MonitoringPanel from './components/MonitoringPanel';
+import DetectionOverlay from './components/DetectionOverlay';
+import BatchPanel from './components/BatchPanel';
+import ExportPanel from './components/ExportPanel';
+import PayRunsPanel from './components/PayRunsPanel';
+import PayRulesPanel from './components/PayRulesPanel';
+import RateCardPanel from './components/RateCardPanel';
+import RecordReviewPanel from './components/RecordReviewPanel';
+import DisputeQueuePanel from './components/DisputeQueuePanel';
+import DisputeForm from './components/DisputeForm';
+import IntegrityPanel from './components/IntegrityPanel';
+import IncidentsPanel from './components/IncidentsPanel';
+import AlertsPanel from './components/AlertsPanel';
+import ReviewQueuePanel from './components/ReviewQueuePanel';
+import ArchivePanel from './components/ArchivePanel';
+import EmployeeProfilePanel from './components/EmployeeProfilePanel';
+import LoginScreen from './components/LoginScreen';
+import UsersPanel from './components/UsersPanel';
+import { BatchItem, loadImageFile } from './services/batchVerification';
+import { HistorySummary, addRecord, clearHistory, getRecord, listIncidents, summarizeHistory } from './services/historyStore';
+import { syncRecords } from './services/recordSync';
+import { ACTIVE_INCIDENT_STATUSES, escalateOverdue, openIncident, raisesIncident, summarizeIncidents } from './services/incidents';
+import { RaisedAlert, raiseAlerts } from './services/alerts';
+import { describeViolationKey, getRecordViolations, violationKey } from './services/violations';
+import { ReviewStats, holdForReview, releaseAlertSettings, reviewReasons, summarizeReviews } from './services/reviewQueue';
+import { processDeliveries } from './services/webhooks';
+import { playAlarm, showAlertNotification } from './services/alertSignals';
+import {
+  SHIFT_EVENT_LABELS,
+  allowedEvents,
+  appendSample,
+  applyShiftEvent,
+  findOpenSession,
+  loadSessions,
+  planShiftEventWithArchive,
+  saveSessions
+} from './services/shiftSessions';
+import { getRecordingMode } from './services/recordingStore';
+import { aggregateSamples } from './services/monitoring';
+import { describeBreakdown, hasPremiums } from './services/payRules';
+import { buildAuditEnvelope } from './services/audit';
+import { can, canOpenTab, loadSession, signOut, touchSession } from './services/accessControl';
+import { formatZonedDateTime, getLocalTimeZone, resolveShift } from './services/shiftTime';
 import Header from './components/Header';
 import StatCard from './components/StatCard';
 import { 
@@ -19,37 +79,214 @@ import {
   PieChart, Pie
 } from 'recharts';
 
+const SITE_TIME_ZONE = getLocalTimeZone();
+// How often an idle session is checked against the timeout
+const SESSION_CHECK_MS = 15 * 1000;
+// Retry for records still queued for the API server, e.g. after an uplink outage
+const SYNC_RETRY_MS = 60 * 1000;
+const ESCALATION_CHECK_MS = 60 * 1000;
+// Pending webhook deliveries are picked up when their backoff has passed
+const DELIVERY_CHECK_MS = 15 * 1000;
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
 const INITIAL_INPUT: PayrollInput = {
   employee_id: 'EM001',
-  sector: Sector.MINING,
-  check_in_time: '09:00',
-  current_time: '17:30'
+  sector: DEFAULT_SECTOR,
+  check_in_time: `${formatZonedDateTime(new Date(), SITE_TIME_ZONE).slice(0, 10)}T09:00`,
+  current_time: formatZonedDateTime(new Date(), SITE_TIME_ZONE),
+  time_zone: SITE_TIME_ZONE
 };
 
 function App() {
+  const [session, setSession] = useState<UserSession | null>(loadSession);
+  const [timedOut, setTimedOut] = useState(false);
   const [activeTab, setActiveTab] = useState<AppTab>('calculator');
   const [isDarkMode, setIsDarkMode] = useState(true);
   const [input, setInput] = useState<PayrollInput>(INITIAL_INPUT);
-  const [history, setHistory] = useState<PayrollOutput[]>([]);
+  // Dashboard figures, re-read from the history store after each write
+  const [summary, setSummary] = useState<HistorySummary | null>(null);
+  const [incidentCounts, setIncidentCounts] = useState({ active: 0, escalated: 0 });
+  const [reviewStats, setReviewStats] = useState<ReviewStats | null>(null);
+  const [historyRevision, setHistoryRevision] = useState(0);
+  const [deliveryRevision, setDeliveryRevision] = useState(0);
+  // Record writes not yet on the API server
+  const [unsyncedCount, setUnsyncedCount] = useState(0);
+  const [roster, setRoster] = useState<Employee[]>(loadRoster);
+  const [providerId, setProviderId] = useState(getActiveProviderId);
+  const [recordingMode, setRecordingMode] = useState<RecordingMode>(getRecordingMode);
+  const [sessions, setSessions] = useState<ShiftSession[]>(loadSessions);
+  const [shiftEvent, setShiftEvent] = useState<ShiftEvent>(ShiftEvent.CHECK_IN);
   const [isLoading, setIsLoading] = useState(false);
   const [currentResult, setCurrentResult] = useState<PayrollOutput | null>(null);
+  // Set when the current result was held for supervisor review instead of stored
+  const [heldForReview, setHeldForReview] = useState<ReviewItem | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // The archive record open for supervisor review, and the dispute that brought it there
+  const [reviewing, setReviewing] = useState<{ record: PayrollOutput; dispute?: Dispute } | null>(null);
+  // The employee whose profile replaces the archive table
+  const [profileEmployee, setProfileEmployee] = useState<string | null>(null);
+  // Set while the operator matches the employee to one of several people in frame
+  const [picker, setPicker] = useState<{
+    detections: Detection[];
+    sector: Sector;
+    image: string;
+    width: number;
+    height: number;
+    resolve: (index: number | null) => void;
+  } | null>(null);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   // Persistence
   useEffect(() => {
-    const saved = localStorage.getItem('payroll_history_v3');
-    if (saved) setHistory(JSON.parse(saved));
-    
     const theme = localStorage.getItem('theme');
     if (theme === 'light') setIsDarkMode(false);
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('payroll_history_v3', JSON.stringify(history));
-  }, [history]);
+    if (activeTab !== 'admin' || !can(session, 'review')) return;
+    let cancelled = false;
+    Promise.all([summarizeHistory(), listIncidents(ACTIVE_INCIDENT_STATUSES), summarizeReviews()])
+      .then(([totals, incidents, reviews]) => {
+        if (cancelled) return;
+        setSummary(totals);
+        setIncidentCounts(summarizeIncidents(incidents));
+        setReviewStats(reviews);
+      })
+      .catch(err => console.error("History store unavailable", err));
+    return () => { cancelled = true; };
+  }, [activeTab, historyRevision]);
+
+  // Every history write is queued for the server; uploads follow each write and retry on a timer
+  useEffect(() => {
+    if (!session) return;
+    const sync = () => syncRecords().then(result => {
+      setUnsyncedCount(result.pending);
+      if (result.error) console.warn(`Record sync: ${result.pending} waiting (${result.error})`);
+    });
+    sync();
+    const retry = window.setInterval(sync, SYNC_RETRY_MS);
+    return () => window.clearInterval(retry);
+  }, [historyRevision, session?.user_id]);
+
+  const reviewDispute = async (dispute: Dispute) => {
+    const record = await getRecord(dispute.record_id);
+    if (record) setReviewing({ record, dispute });
+  };
+
+  const handleReviewed = (record: PayrollOutput) => {
+    setReviewing({ record });
+    setHistoryRevision(r => r + 1);
+  };
+
+  const deliverWebhooks = () => processDeliveries().then(attempted => {
+    if (attempted > 0) setDeliveryRevision(r => r + 1);
+  });
+
+  const signalAlerts = (raised: RaisedAlert[]) => {
+    raised.forEach(({ alert, rule }) => {
+      if (rule.notify) showAlertNotification(alert);
+      if (rule.alarm) playAlarm();
+    });
+    if (raised.some(({ rule }) => rule.webhook)) deliverWebhooks();
+  };
+
+  // Local denials never reach calculatePayroll, so they get an operator-only envelope here.
+  // High and critical risk results also open a safety incident with the frame as evidence,
+  // and any alert rule the result matches signals this terminal and queues its webhooks.
+  const storeRecord = async (record: PayrollOutput, evidenceImage?: string, alertSettings?: AlertSettings): Promise<PayrollOutput> => {
+    const stored = await addRecord(record.audit ? record : { ...record, audit: await buildAuditEnvelope(session?.name ?? '') });
+    await openIncident(stored, evidenceImage);
+    // The record is already stored, so a failing rule check must not fail the verification
+    const raised = await raiseAlerts(stored, alertSettings).catch(err => {
+      console.error("Alert rules could not be checked", err);
+      return [];
+    });
+    signalAlerts(raised);
+    setHistoryRevision(r => r + 1);
+    return stored;
+  };
+
+  // Model results below a confidence threshold wait in the review queue with their frame,
+  // raising their incident and alerts provisionally; the supervisor who releases one stores it
+  const recordVerification = async (record: PayrollOutput, evidenceImage?: string): Promise<{ record: PayrollOutput; held: ReviewItem | null }> => {
+    const reasons = reviewReasons(record);
+    if (reasons.length === 0) return { record: await storeRecord(record, evidenceImage), held: null };
+    const { item, raised } = await holdForReview(record, reasons, evidenceImage);
+    signalAlerts(raised);
+    setHistoryRevision(r => r + 1);
+    return { record, held: item };
+  };
+
+  const releaseReview = (record: PayrollOutput, item: ReviewItem) =>
+    storeRecord(record, item.evidence_image, releaseAlertSettings(item));
+
+  useEffect(() => {
+    if (!session) return;
+    deliverWebhooks();
+    const timer = window.setInterval(deliverWebhooks, DELIVERY_CHECK_MS);
+    return () => window.clearInterval(timer);
+  }, [session?.user_id]);
+
+  // Incidents past their deadlines are escalated by whichever terminal is signed in
+  useEffect(() => {
+    if (!session) return;
+    const check = () => escalateOverdue().then(escalated => {
+      if (escalated.length > 0) setHistoryRevision(r => r + 1);
+    });
+    check();
+    const timer = window.setInterval(check, ESCALATION_CHECK_MS);
+    return () => window.clearInterval(timer);
+  }, [session?.user_id]);
+
+  useEffect(() => {
+    saveRoster(roster);
+  }, [roster]);
+
+  // Activity keeps the session alive; once idle past the timeout it ends
+  useEffect(() => {
+    if (!session) return;
+    const touch = () => setSession(prev => prev && touchSession(prev));
+    const check = window.setInterval(() => {
+      if (loadSession()) return;
+      setTimedOut(true);
+      setSession(null);
+    }, SESSION_CHECK_MS);
+    window.addEventListener('pointerdown', touch);
+    window.addEventListener('keydown', touch);
+    return () => {
+      window.clearInterval(check);
+      window.removeEventListener('pointerdown', touch);
+      window.removeEventListener('keydown', touch);
+    };
+  }, [session?.user_id]);
+
+  // Nothing from the previous user stays on screen, and tabs the role may not open are left
+  useEffect(() => {
+    if (!session) {
+      setCurrentResult(null);
+      setHeldForReview(null);
+      setReviewing(null);
+      setProfileEmployee(null);
+      setError(null);
+    }
+    if (!canOpenTab(session, activeTab)) setActiveTab('calculator');
+  }, [session?.user_id, session?.role]);
+
+  const handleSignOut = () => {
+    signOut();
+    setTimedOut(false);
+    setSession(null);
+  };
+
+  useEffect(() => {
+    saveSessions(sessions);
+  }, [sessions]);
+
+  const openSession = findOpenSession(sessions, input.employee_id);
+  const shiftEvents = allowedEvents(sessions, input.employee_id);
+  const activeShiftEvent = shiftEvents.includes(shiftEvent) ? shiftEvent : shiftEvents[0];
 
   useEffect(() => {
     if (isDarkMode) {
@@ -63,7 +300,7 @@ function App() {
   // Camera Setup
   useEffect(() => {
     let stream: MediaStream | null = null;
-    if (activeTab === 'calculator') {
+    if (activeTab === 'calculator' && session) {
       navigator.mediaDevices.getUserMedia({ video: true })
         .then(s => {
           stream = s;
@@ -76,7 +313,7 @@ function App() {
         stream.getTracks().forEach(t => t.stop());
       }
     };
-  }, [activeTab]);
+  }, [activeTab, session?.user_id]);
 
   const captureImage = (): string | null => {
     if (videoRef.current && canvasRef.current) {
@@ -95,71 +332,106 @@ function App() {
     e.preventDefault();
     setIsLoading(true);
     setError(null);
+    setHeldForReview(null);
 
-    // Strict Rule: One ID can access only one time
-    const isDuplicate = history.some(h => h.employee_id === input.employee_id && h.authorized);
-    if (isDuplicate) {
-      setError(`ACCESS DENIED: Employee ${input.employee_id} has already completed verification. Multiple shift entries are prohibited.`);
-      setIsLoading(false);
-      return;
-    }
+    try {
+      // Shift lifecycle: one open shift per employee, uniqueness per shift or per day
+      const plan = await planShiftEventWithArchive(sessions, input, activeShiftEvent);
+      if (typeof plan === 'string') {
+        setError(`ACCESS DENIED: ${plan}`);
+        return;
+      }
 
-    // Client-side quick ID format check
-    const idMatch = input.employee_id.match(/^EM(\d+)$/);
-    if (!idMatch) {
-      setError("INVALID ID: ID must follow the format 'EM###' (e.g., EM001).");
-      setIsLoading(false);
-      return;
-    }
-    
-    const idNum = parseInt(idMatch[1]);
-    if (idNum < 1 || idNum > 100) {
-      setError(`UNAUTHORIZED: ID ${input.employee_id} is outside the valid workforce range (EM001-EM100).`);
-      setIsLoading(false);
-      return;
-    }
+      let shiftEnd: Date;
+      try {
+        shiftEnd = resolveShift(plan.payrollInput).end;
+      } catch (err: any) {
+        setError(`INVALID SHIFT: ${err.message}`);
+        return;
+      }
 
-    try {
-      const worker_image = captureImage();
-      const result = await calculatePayroll({ ...input, worker_image: worker_image || undefined });
-      
-      // Double check authorization from AI response
-      if (result.authorized) {
-        setCurrentResult(result);
-        setHistory(prev => [result, ...prev].slice(0, 50));
-      } else {
-        setError(`SUPERVISOR ALERT: Identity ${input.employee_id} was rejected by Phoenix AI protocols.`);
-        setCurrentResult(result);
-        setHistory(prev => [result, ...prev].slice(0, 50));
+      // Roster check: unknown or inactive IDs are denied without consulting the model
+      const rosterCheck = checkRoster(roster, plan.payrollInput.employee_id, plan.payrollInput.sector);
+      if (!rosterCheck.employee) {
+        const denied = buildDeniedRecord(plan.payrollInput, rosterCheck.reason);
+        setError(`UNAUTHORIZED: ${rosterCheck.reason}`);
+        setCurrentResult(await storeRecord(denied));
+        return;
       }
+
+      const worker_image = captureImage();
+      // Monitored shifts are paid on the time-weighted samples rather than this one frame
+      const monitoring = plan.session?.samples ? aggregateSamples(plan.session.samples, shiftEnd) ?? undefined : undefined;
+      const frameWidth = videoRef.current?.videoWidth ?? 0;
+      const frameHeight = videoRef.current?.videoHeight ?? 0;
+      const selectDetection = (detections: Detection[]) => new Promise<number | null>(resolve => setPicker({
+        detections,
+        sector: plan.payrollInput.sector,
+        image: worker_image || '',
+        width: frameWidth,
+        height: frameHeight,
+        resolve
+      }));
+      const result = await calculatePayroll(
+        { ...plan.payrollInput, worker_image: worker_image || undefined },
+        rosterCheck.employee,
+        { monitoring, selectDetection }
+      );
+      const applied = applyShiftEvent(sessions, plan, result);
+      setSessions(applied.sessions);
+      const recorded = await recordVerification(applied.record, worker_image || undefined);
+      setCurrentResult(recorded.record);
+      setHeldForReview(recorded.held);
     } catch (err: any) {
-      setError(err.message || "Phoenix AI Verification failed.");
+      setError(err instanceof AnalysisError ? `${err.title} (${err.message})` : err.message || "Phoenix AI Verification failed.");
     } finally {
+      setPicker(null);
       setIsLoading(false);
     }
   };
 
+  // Batch rows land in history, or the review queue, like terminal verifications; successful ones also close a shift
+  const handleBatchResult = (item: BatchItem) => {
+    if (item.session) setSessions(prev => [item.session!, ...prev]);
+    const needsFrame = raisesIncident(item.record!) || reviewReasons(item.record!).length > 0;
+    const evidence = item.file && needsFrame ? loadImageFile(item.file) : Promise.resolve(undefined);
+    evidence
+      .then(image => recordVerification(item.record!, image))
+      .catch(err => setError(`ARCHIVE: Row ${item.row} could not be saved (${err.message}).`));
+  };
+
+  const resolvePicker = (index: number | null) => {
+    picker?.resolve(index);
+    setPicker(null);
+  };
+
   const stats = useMemo(() => {
-    if (history.length === 0) return null;
-    const totalSalary = history.reduce((acc, curr) => acc + curr.final_salary, 0);
-    const avgEfficiency = history.reduce((acc, curr) => acc + (curr.efficiency_percentage || 0), 0) / history.length;
-    const highRiskCount = history.filter(h => h.risk_level === RiskLevel.HIGH || h.risk_level === RiskLevel.CRITICAL).length;
-    const unauthorizedCount = history.filter(h => !h.authorized).length;
-    
-    const sectorData = Object.values(Sector).map(s => ({
-      name: s,
-      total: history.filter(h => h.sector === s).reduce((acc, curr) => acc + curr.final_salary, 0)
+    if (!summary || summary.count === 0) return null;
+    const sectorData = SECTOR_POLICIES.map(p => ({
+      name: p.label,
+      total: summary.payable_by_sector[p.id] ?? 0
     }));
 
     const riskData = [
-      { name: 'Low/None', value: history.filter(h => h.risk_level === RiskLevel.LOW || h.risk_level === RiskLevel.NONE).length },
-      { name: 'Medium', value: history.filter(h => h.risk_level === RiskLevel.MEDIUM).length },
-      { name: 'High', value: history.filter(h => h.risk_level === RiskLevel.HIGH).length },
-      { name: 'Critical', value: history.filter(h => h.risk_level === RiskLevel.CRITICAL).length },
+      { name: 'Low/None', value: summary.risk_counts[RiskLevel.LOW] + summary.risk_counts[RiskLevel.NONE] },
+      { name: 'Medium', value: summary.risk_counts[RiskLevel.MEDIUM] },
+      { name: 'High', value: summary.risk_counts[RiskLevel.HIGH] },
+      { name: 'Critical', value: summary.risk_counts[RiskLevel.CRITICAL] },
     ];
 
-    return { totalSalary, avgEfficiency, highRiskCount, unauthorizedCount, sectorData, riskData };
-  }, [history]);
+    const violationData = Object.keys(summary.violation_counts)
+      .map(key => ({ name: describeViolationKey(key), value: summary.violation_counts[key] }))
+      .sort((a, b) => b.value - a.value);
+
+    return {
+      totalSalary: summary.payable_total,
+      avgEfficiency: summary.average_efficiency,
+      unauthorizedCount: summary.denied_count,
+      sectorData,
+      riskData,
+      violationData
+    };
+  }, [summary]);
 
   const RISK_COLORS = ['#10b981', '#f59e0b', '#f97316', '#ef4444'];
 
@@ -170,28 +442,72 @@ function App() {
         setActiveTab={setActiveTab} 
         isDarkMode={isDarkMode} 
         toggleDarkMode={() => setIsDarkMode(!isDarkMode)} 
+        session={session}
+        onSignOut={handleSignOut}
       />
 
+      {!session ? (
+        <LoginScreen onSignedIn={next => { setTimedOut(false); setSession(next); }} timedOut={timedOut} />
+      ) : (
       <main className="flex-1 max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {activeTab === 'calculator' ? (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {/* Input Section */}
             <section className="space-y-6">
               <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700">
-                <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-6 flex items-center">
-                  <span className="w-2 h-6 bg-primary-600 rounded-full mr-3"></span>
-                  Workforce Monitoring Terminal
-                </h2>
+                <div className="flex items-center justify-between mb-6">
+                  <h2 className="text-xl font-bold text-slate-900 dark:text-white flex items-center">
+                    <span className="w-2 h-6 bg-primary-600 rounded-full mr-3"></span>
+                    Workforce Monitoring Terminal
+                  </h2>
+                  {can(session, 'administer') && (
+                  <select
+                    value={providerId}
+                    onChange={e => { setActiveProviderId(e.target.value); setProviderId(e.target.value); }}
+                    title="Analysis backend"
+                    className="px-2 py-1 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg outline-none text-[10px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-400"
+                  >
+                    {getAnalysisProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                  </select>
+                  )}
+                </div>
                 
                 <div className="relative aspect-video bg-black rounded-xl overflow-hidden mb-6 border-2 border-slate-200 dark:border-slate-700 shadow-inner">
                   <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
                   <canvas ref={canvasRef} className="hidden" />
+
+                  {picker ? (
+                    <DetectionOverlay
+                      detections={picker.detections}
+                      sector={picker.sector}
+                      frameWidth={picker.width}
+                      frameHeight={picker.height}
+                      still={picker.image || undefined}
+                      onPick={resolvePicker}
+                    />
+                  ) : currentResult?.detections && currentResult.detections.length > 0 && (
+                    <DetectionOverlay
+                      detections={currentResult.detections}
+                      sector={currentResult.sector}
+                      frameWidth={videoRef.current?.videoWidth ?? 0}
+                      frameHeight={videoRef.current?.videoHeight ?? 0}
+                      selected={currentResult.selected_detection}
+                    />
+                  )}
                   
                   {/* Overlay UI */}
                   <div className="absolute top-4 left-4 px-3 py-1 bg-red-600/90 backdrop-blur-md rounded-full flex items-center space-x-2">
                     <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
                     <span className="text-[10px] font-black text-white uppercase tracking-widest">Supervisor Active</span>
                   </div>
+
+                  {recordingMode !== RecordingMode.OFF && (
+                    <div className="absolute top-4 right-4 px-3 py-1 bg-amber-500/90 backdrop-blur-md rounded-full">
+                      <span className="text-[10px] font-black text-slate-900 uppercase tracking-widest">
+                        {recordingMode === RecordingMode.RECORD ? 'Recording Requests' : 'Replay Only'}
+                      </span>
+                    </div>
+                  )}
                   
                   <div className="absolute inset-0 pointer-events-none border-[1px] border-white/5 flex items-center justify-center">
                     <div className="w-64 h-64 border-[1px] border-primary-500/40 rounded-3xl relative">
@@ -202,12 +518,43 @@ function App() {
                     </div>
                   </div>
 
+                  {picker && (
+                    <div className="absolute z-10 bottom-4 left-4 right-4 px-4 py-2 bg-slate-900/90 backdrop-blur-md rounded-xl flex items-center justify-between">
+                      <span className="text-[10px] font-black text-white uppercase tracking-widest">
+                        {picker.detections.length} people in frame · select {input.employee_id}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => resolvePicker(null)}
+                        className="text-[10px] font-black tracking-widest border border-white/30 text-white px-3 py-1 rounded"
+                      >
+                        CANCEL
+                      </button>
+                    </div>
+                  )}
+
                   <div className="absolute bottom-4 right-4 text-white/50 text-[10px] font-mono bg-black/40 px-2 py-1 rounded">
                     SYS_V2.6.4_L{Math.random().toString(16).slice(2, 6).toUpperCase()}
                   </div>
                 </div>
 
                 <form onSubmit={handleSubmit} className="space-y-4">
+                  <nav className="grid grid-cols-3 bg-slate-100 dark:bg-slate-900/50 p-1 rounded-lg">
+                    {Object.values(ShiftEvent).map(ev => (
+                      <button
+                        key={ev}
+                        type="button"
+                        disabled={!shiftEvents.includes(ev)}
+                        onClick={() => setShiftEvent(ev)}
+                        className={`py-1.5 text-[10px] font-black uppercase tracking-widest rounded-md transition-all disabled:opacity-30 ${
+                          activeShiftEvent === ev ? 'bg-white dark:bg-slate-700 text-primary-600 dark:text-primary-400 shadow-sm' : 'text-slate-500'
+                        }`}
+                      >
+                        {SHIFT_EVENT_LABELS[ev]}
+                      </button>
+                    ))}
+                  </nav>
+
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-1">
                       <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Manual Employee ID</label>
@@ -227,7 +574,7 @@ function App() {
                         onChange={e => setInput({...input, sector: e.target.value as Sector})}
                         className="w-full px-4 py-2 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-slate-900 dark:text-white"
                       >
-                        {Object.values(Sector).map(s => <option key={s} value={s}>{s}</option>)}
+                        {SECTOR_POLICIES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
                       </select>
                     </div>
                   </div>
@@ -236,17 +583,19 @@ function App() {
                     <div className="space-y-1">
                       <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Shift Check-in</label>
                       <input 
-                        type="time" 
-                        value={input.check_in_time}
+                        type="datetime-local" 
+                        value={openSession ? openSession.check_in_time : input.check_in_time}
                         onChange={e => setInput({...input, check_in_time: e.target.value})}
-                        className="w-full px-4 py-2 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-slate-900 dark:text-white"
+                        disabled={!!openSession}
+                        title={openSession ? 'Locked to the open shift' : undefined}
+                        className="w-full px-4 py-2 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-slate-900 dark:text-white disabled:opacity-60"
                         required
                       />
                     </div>
                     <div className="space-y-1">
                       <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Verification Time</label>
                       <input 
-                        type="time" 
+                        type="datetime-local" 
                         value={input.current_time}
                         onChange={e => setInput({...input, current_time: e.target.value})}
                         className="w-full px-4 py-2 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-slate-900 dark:text-white"
@@ -255,6 +604,30 @@ function App() {
                     </div>
                   </div>
 
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                      <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Site Time Zone</label>
+                      <select 
+                        value={input.time_zone}
+                        onChange={e => setInput({...input, time_zone: e.target.value})}
+                        className="w-full px-4 py-2 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-slate-900 dark:text-white"
+                      >
+                        {TIME_ZONES.map(tz => <option key={tz} value={tz}>{tz}</option>)}
+                      </select>
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Unpaid Break (min)</label>
+                      <input 
+                        type="number" 
+                        min={0}
+                        value={input.break_minutes ?? ''}
+                        onChange={e => setInput({...input, break_minutes: e.target.value === '' ? undefined : Number(e.target.value)})}
+                        placeholder="Auto"
+                        className="w-full px-4 py-2 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-slate-900 dark:text-white placeholder:opacity-30"
+                      />
+                    </div>
+                  </div>
+
                   <button 
                     disabled={isLoading}
                     type="submit"
@@ -273,12 +646,20 @@ function App() {
                         <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 11c0 3.517-1.009 6.799-2.753 9.571m-3.44-2.04l.054-.09A10.003 10.003 0 0012 11c0-1.894-.523-3.665-1.436-5.182M12 11c0-5.523 4.477-10 10-10m0 0l-1.5 1.5M22 1l-1.5 1.5M10.5 5.818a10.003 10.003 0 00-6.104 9.092l.054.09m3.44-2.04C6.149 10.138 6 8.591 6 7.151c0-2.636 1.018-5.034 2.684-6.818" />
                         </svg>
-                        <span>Perform Supervision</span>
+                        <span>{activeShiftEvent === ShiftEvent.CHECK_OUT ? 'Verify & Close Shift' : activeShiftEvent === ShiftEvent.CHECK_IN ? 'Verify & Open Shift' : 'Perform Supervision'}</span>
                       </>
                     )}
                   </button>
                 </form>
               </div>
+
+              <MonitoringPanel
+                session={openSession}
+                breakMinutes={input.break_minutes}
+                videoRef={videoRef}
+                captureImage={captureImage}
+                onSample={(shiftId, sample) => setSessions(prev => appendSample(prev, shiftId, sample))}
+              />
             </section>
 
             {/* Results Section */}
@@ -296,6 +677,18 @@ function App() {
 
               {currentResult ? (
                 <div className="flex-1 space-y-6 animate-in fade-in zoom-in-95 duration-500">
+                  {heldForReview && (
+                    <div className="p-4 bg-amber-50/50 dark:bg-amber-900/10 rounded-xl border-l-4 border-amber-500">
+                      <p className="text-[10px] font-black text-amber-600 dark:text-amber-400 tracking-widest uppercase mb-1">Held for Supervisor Review</p>
+                      <p className="text-xs text-slate-600 dark:text-slate-300 mb-1">
+                        Not yet in history or payroll. A supervisor will confirm or correct these findings.
+                        {raisesIncident(currentResult) && ' A provisional safety incident was opened.'}
+                      </p>
+                      {heldForReview.reasons.map(r => (
+                        <p key={r} className="text-[11px] font-mono text-slate-500">{r}</p>
+                      ))}
+                    </div>
+                  )}
                   <div className="grid grid-cols-2 gap-4">
                     <div className="p-4 bg-slate-50 dark:bg-slate-900/50 rounded-xl border border-slate-100 dark:border-slate-700 shadow-sm">
                       <p className="text-[10px] text-slate-400 uppercase font-black tracking-widest mb-2">Access Status</p>
@@ -305,6 +698,21 @@ function App() {
                           {currentResult.authorized ? 'AUTHORIZED' : 'DENIED'}
                         </span>
                       </div>
+                      {currentResult.shift_event && (
+                        <p className="text-[10px] font-black text-primary-500 uppercase tracking-widest mt-1">
+                          {SHIFT_EVENT_LABELS[currentResult.shift_event]}{currentResult.pay_final ? ' · Pay Final' : ' · Provisional'}
+                        </p>
+                      )}
+                      {currentResult.employee_name && (
+                        <p className="text-[10px] font-bold text-slate-500 mt-1 truncate">{currentResult.employee_id} · {currentResult.employee_name}</p>
+                      )}
+                      {currentResult.detections && currentResult.detections.length > 1 && (
+                        <p className="text-[10px] font-bold text-slate-500 mt-1">
+                          {currentResult.selected_detection !== undefined
+                            ? `Person #${currentResult.selected_detection + 1} of ${currentResult.detections.length}`
+                            : `${currentResult.detections.length} people · unmatched`}
+                        </p>
+                      )}
                     </div>
                     <div className="p-4 bg-slate-50 dark:bg-slate-900/50 rounded-xl border border-slate-100 dark:border-slate-700 shadow-sm">
                       <p className="text-[10px] text-slate-400 uppercase font-black tracking-widest mb-2">Risk Evaluation</p>
@@ -319,10 +727,12 @@ function App() {
                     </div>
                   </div>
 
-                  <div className="grid grid-cols-3 gap-3">
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
                     {[
-                      { label: 'HELMET', value: currentResult.helmet },
-                      { label: 'SAFETY VEST', value: currentResult.vest },
+                      ...(getSectorPolicy(currentResult.sector)?.required_ppe ?? []).map(item => ({
+                        label: PPE_LABELS[item].toUpperCase(),
+                        value: !!getRecordPpe(currentResult)[item]
+                      })),
                       { label: 'PRESENCE', value: currentResult.human_detected }
                     ].map(item => (
                       <div key={item.label} className={`flex flex-col items-center justify-center p-3 rounded-xl border ${item.value ? 'border-emerald-100 dark:border-emerald-900/20 bg-emerald-50/30 dark:bg-emerald-900/5' : 'border-red-100 dark:border-red-900/20 bg-red-50/30 dark:bg-red-900/5'}`}>
@@ -369,13 +779,44 @@ function App() {
                     <div className="p-3 bg-slate-50 dark:bg-slate-900/30 rounded-lg border border-slate-100 dark:border-slate-800">
                       <p className="text-[9px] font-black text-slate-400 uppercase mb-1">Work Hrs</p>
                       <p className="text-xs font-bold text-slate-700 dark:text-slate-300 uppercase">{currentResult.hours_worked}H</p>
+                      {currentResult.break_minutes !== undefined && (
+                        <p className="text-[9px] font-bold text-slate-400 uppercase mt-0.5">-{currentResult.break_minutes}m break</p>
+                      )}
                     </div>
                     <div className="p-3 bg-slate-50 dark:bg-slate-900/30 rounded-lg border border-slate-100 dark:border-slate-800">
                       <p className="text-[9px] font-black text-slate-400 uppercase mb-1">Rate</p>
                       <p className="text-xs font-bold text-slate-700 dark:text-slate-300 uppercase">${currentResult.hourly_rate}/H</p>
+                      <p className="text-[9px] font-bold text-slate-400 uppercase mt-0.5">
+                        {currentResult.rate_effective_from
+                          ? `${currentResult.pay_grade} since ${currentResult.rate_effective_from}`
+                          : 'Sector base rate'}
+                      </p>
                     </div>
                   </div>
 
+                  {currentResult.pay_breakdown && (
+                    <div className="p-4 bg-slate-50 dark:bg-slate-900/30 rounded-xl border border-slate-100 dark:border-slate-800">
+                      <p className="text-[10px] font-black text-slate-400 tracking-widest uppercase mb-2">Base Pay Breakdown</p>
+                      <div className="space-y-1">
+                        {[
+                          { label: 'Regular', hours: currentResult.pay_breakdown.regular_hours, pay: currentResult.pay_breakdown.regular_pay },
+                          { label: 'Overtime', hours: currentResult.pay_breakdown.overtime_hours, pay: currentResult.pay_breakdown.overtime_pay },
+                          { label: 'Holiday', hours: currentResult.pay_breakdown.holiday_hours, pay: currentResult.pay_breakdown.holiday_pay },
+                          { label: 'Night differential', hours: currentResult.pay_breakdown.night_hours, pay: currentResult.pay_breakdown.night_pay }
+                        ].filter(row => row.label === 'Regular' || row.hours > 0).map(row => (
+                          <div key={row.label} className="flex justify-between text-xs font-mono text-slate-600 dark:text-slate-300">
+                            <span className="uppercase">{row.label} · {row.hours}H</span>
+                            <span>${row.pay.toFixed(2)}</span>
+                          </div>
+                        ))}
+                        <div className="flex justify-between text-xs font-mono font-black text-slate-900 dark:text-white pt-1 border-t border-slate-200 dark:border-slate-700">
+                          <span className="uppercase">Base salary</span>
+                          <span>${currentResult.base_salary.toFixed(2)}</span>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
                   <div className="p-4 bg-primary-50/50 dark:bg-primary-900/5 rounded-xl border-l-4 border-primary-500">
                     <div className="flex items-center space-x-2 mb-1">
                       <svg className="w-3 h-3 text-primary-500" fill="currentColor" viewBox="0 0 20 20"><path d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z"/></svg>
@@ -385,6 +826,62 @@ function App() {
                       "{currentResult.explanation}"
                     </p>
                   </div>
+
+                  {getRecordViolations(currentResult).length > 0 && (
+                    <div className="p-4 bg-red-50/50 dark:bg-red-900/10 rounded-xl border-l-4 border-red-500">
+                      <p className="text-[10px] font-black text-red-600 dark:text-red-400 tracking-widest uppercase mb-2">Rule Violations</p>
+                      <div className="space-y-2">
+                        {getRecordViolations(currentResult).map(v => (
+                          <div key={violationKey(v)}>
+                            <div className="flex justify-between text-xs font-mono text-slate-600 dark:text-slate-300">
+                              <span className="font-bold uppercase">{describeViolationKey(violationKey(v))} · {v.severity}</span>
+                              <span>{v.efficiency_impact} pts</span>
+                            </div>
+                            <p className="text-[10px] font-bold text-slate-400 uppercase">{v.rule}</p>
+                            {v.evidence && <p className="text-[11px] text-slate-500 italic">"{v.evidence}"</p>}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {currentResult.monitoring && (
+                    <div className="p-4 bg-emerald-50/50 dark:bg-emerald-900/10 rounded-xl border-l-4 border-emerald-500">
+                      <p className="text-[10px] font-black text-emerald-600 dark:text-emerald-400 tracking-widest uppercase mb-1">Monitored Shift</p>
+                      <p className="text-xs text-slate-600 dark:text-slate-300">
+                        Paid on {currentResult.monitoring.sample_count} samples over {currentResult.monitoring.monitored_minutes} min
+                        ({currentResult.monitoring.skipped_count} unchanged frames skipped): {currentResult.monitoring.ppe_compliance_percentage}% PPE compliance,
+                        peak risk {currentResult.monitoring.peak_risk_level}.
+                      </p>
+                    </div>
+                  )}
+
+                  {currentResult.roster_sector && (
+                    <div className="p-4 bg-amber-50/50 dark:bg-amber-900/10 rounded-xl border-l-4 border-amber-500">
+                      <p className="text-[10px] font-black text-amber-600 dark:text-amber-400 tracking-widest uppercase mb-1">Sector Mismatch</p>
+                      <p className="text-xs text-slate-600 dark:text-slate-300">
+                        {currentResult.employee_name || currentResult.employee_id} is rostered to {currentResult.roster_sector} but was verified in {currentResult.sector}.
+                      </p>
+                    </div>
+                  )}
+
+                  {currentResult.discrepancies && currentResult.discrepancies.length > 0 && (
+                    <div className="p-4 bg-amber-50/50 dark:bg-amber-900/10 rounded-xl border-l-4 border-amber-500">
+                      <p className="text-[10px] font-black text-amber-600 dark:text-amber-400 tracking-widest uppercase mb-2">Model Figures Disputed</p>
+                      <div className="space-y-1">
+                        {currentResult.discrepancies.map(d => (
+                          <div key={d.field} className="flex justify-between text-xs font-mono text-slate-600 dark:text-slate-300">
+                            <span className="uppercase">{d.field.replace('_', ' ')}</span>
+                            <span>AI {String(d.model_value)} → Engine {String(d.computed_value)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {currentResult.record_id && currentResult.authorized && (
+                    <DisputeForm record={currentResult} onRaised={() => setHistoryRevision(r => r + 1)} />
+                  )}
                 </div>
               ) : (
                 <div className="flex-1 flex flex-col items-center justify-center text-center p-12 opacity-30 select-none">
@@ -400,11 +897,15 @@ function App() {
               )}
             </section>
           </div>
+        ) : activeTab === 'batch' ? (
+          <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <BatchPanel roster={roster} sessions={sessions} defaultTimeZone={SITE_TIME_ZONE} onResult={handleBatchResult} />
+          </div>
         ) : (
           <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
             {/* Stats Overview */}
             {stats && (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
                 <StatCard 
                   label="Verified Payroll Total" 
                   value={`$${stats.totalSalary.toLocaleString()}`} 
@@ -417,10 +918,15 @@ function App() {
                   icon={<svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>}
                 />
                 <StatCard 
-                  label="Incident Alerts" 
-                  value={stats.highRiskCount} 
+                  label="Open Incidents" 
+                  value={incidentCounts.escalated > 0 ? `${incidentCounts.active} (${incidentCounts.escalated} escalated)` : incidentCounts.active} 
                   icon={<svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>}
                 />
+                <StatCard 
+                  label="Manual Review" 
+                  value={reviewStats ? `${reviewStats.pending} pending · ${(reviewStats.held_share * 100).toFixed(1)}% held` : '—'} 
+                  icon={<svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg>}
+                />
                 <StatCard 
                   label="Entry Denials" 
                   value={stats.unauthorizedCount} 
@@ -431,65 +937,30 @@ function App() {
 
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               {/* Main Log Table */}
-              <div className="lg:col-span-2 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
-                <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
-                  <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Verification Archives</h3>
-                  <button 
-                    onClick={() => { if(confirm('Purge history?')) setHistory([]); }}
-                    className="text-[10px] text-red-500 hover:text-red-700 dark:hover:text-red-400 font-black tracking-widest border border-red-200 dark:border-red-900/40 px-3 py-1 rounded hover:bg-red-50 dark:hover:bg-red-950/20 transition-all"
-                  >
-                    PURGE RECORDS
-                  </button>
-                </div>
-                <div className="overflow-x-auto">
-                  <table className="w-full text-left">
-                    <thead>
-                      <tr className="bg-slate-50 dark:bg-slate-900/30 text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
-                        <th className="px-6 py-4">Asset ID</th>
-                        <th className="px-6 py-4">Risk Level</th>
-                        <th className="px-6 py-4">Efficiency</th>
-                        <th className="px-6 py-4">Shift Status</th>
-                        <th className="px-6 py-4 text-right">Payroll Output</th>
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
-                      {history.length > 0 ? history.map((h, i) => (
-                        <tr key={i} className="text-sm hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-colors group">
-                          <td className="px-6 py-4">
-                            <div className="flex flex-col">
-                              <span className="font-black text-slate-900 dark:text-white group-hover:text-primary-600 transition-colors">{h.employee_id}</span>
-                              <span className="text-[10px] text-slate-400 font-bold uppercase tracking-tighter">{h.sector}</span>
-                            </div>
-                          </td>
-                          <td className="px-6 py-4">
-                            <span className={`px-2 py-0.5 rounded text-[9px] font-black ${
-                              h.risk_level === RiskLevel.CRITICAL ? 'bg-red-600 text-white shadow-sm shadow-red-500/30' :
-                              h.risk_level === RiskLevel.HIGH ? 'bg-orange-500 text-white shadow-sm shadow-orange-500/30' :
-                              'bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400'
-                            }`}>
-                              {h.risk_level.toUpperCase()}
-                            </span>
-                          </td>
-                          <td className="px-6 py-4 font-mono text-xs font-bold">{h.efficiency_percentage}%</td>
-                          <td className="px-6 py-4">
-                            <span className={`px-2 py-0.5 rounded-full text-[10px] font-black tracking-tighter ${
-                              h.work_status === WorkStatus.FULL_DAY ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400' : 'bg-slate-100 text-slate-600 dark:bg-slate-700/50 dark:text-slate-400'
-                            }`}>
-                              {h.work_status.toUpperCase()}
-                            </span>
-                          </td>
-                          <td className="px-6 py-4 text-right font-black text-primary-600 dark:text-primary-400">
-                            ${h.final_salary.toFixed(2)}
-                          </td>
-                        </tr>
-                      )) : (
-                        <tr>
-                          <td colSpan={5} className="px-6 py-12 text-center text-slate-400 italic font-medium tracking-wide">Empty archive. Supervisor active for new data.</td>
-                        </tr>
-                      )}
-                    </tbody>
-                  </table>
-                </div>
+              <div className="lg:col-span-2">
+                {profileEmployee ? (
+                  <EmployeeProfilePanel
+                    employeeId={profileEmployee}
+                    roster={roster}
+                    revision={historyRevision}
+                    isDarkMode={isDarkMode}
+                    selectedRecordId={reviewing?.record.record_id}
+                    onOpenRecord={record => setReviewing({ record })}
+                    onClose={() => setProfileEmployee(null)}
+                  />
+                ) : (
+                  <ArchivePanel
+                    revision={historyRevision}
+                    roster={roster}
+                    unsyncedCount={unsyncedCount}
+                    selectedRecordId={reviewing?.record.record_id}
+                    onOpenRecord={record => setReviewing({ record })}
+                    onOpenEmployee={setProfileEmployee}
+                    onPurge={can(session, 'administer')
+                      ? () => { if(confirm('Purge history? Records locked in approved pay runs are kept.')) clearHistory().then(() => setHistoryRevision(r => r + 1)); }
+                      : undefined}
+                  />
+                )}
               </div>
 
               {/* Sidebar Charts */}
@@ -544,11 +1015,79 @@ function App() {
                     </div>
                   </div>
                 </div>
+
+                <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700">
+                  <h3 className="font-black text-slate-900 dark:text-white mb-6 uppercase tracking-widest text-[10px]">Rule Violations</h3>
+                  <div className="space-y-3">
+                    {stats && stats.violationData.length > 0 ? stats.violationData.map(item => (
+                      <div key={item.name}>
+                        <div className="flex justify-between text-[9px] font-black uppercase tracking-tighter mb-1">
+                          <span className="text-slate-400">{item.name}</span>
+                          <span className="text-slate-900 dark:text-white">{item.value}</span>
+                        </div>
+                        <div className="w-full h-1.5 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                          <div className="h-full bg-red-500 rounded-full" style={{ width: `${(item.value / stats.violationData[0].value) * 100}%` }}></div>
+                        </div>
+                      </div>
+                    )) : (
+                      <p className="text-[11px] text-slate-400 italic">No violations recorded.</p>
+                    )}
+                  </div>
+                </div>
               </div>
             </div>
+
+            {reviewing && (
+              <RecordReviewPanel
+                key={`${reviewing.record.record_id}|${reviewing.dispute?.dispute_id ?? ''}`}
+                record={reviewing.record}
+                dispute={reviewing.dispute}
+                onClose={() => setReviewing(null)}
+                onChanged={handleReviewed}
+                reviewer={session.name}
+              />
+            )}
+
+            <ReviewQueuePanel
+              revision={historyRevision}
+              reviewer={session.name}
+              canConfigure={can(session, 'administer')}
+              onRelease={releaseReview}
+            />
+
+            <IncidentsPanel revision={historyRevision} actor={session.name} onChanged={() => setHistoryRevision(r => r + 1)} />
+
+            <DisputeQueuePanel revision={historyRevision} onReview={reviewDispute} />
+
+            <PayRunsPanel revision={historyRevision} onRecordsChanged={() => setHistoryRevision(r => r + 1)} actor={session.name} />
+
+            <ExportPanel roster={roster} />
+
+            <ShiftSessionsPanel sessions={sessions} />
+
+            {can(session, 'administer') && (
+              <>
+                <PayRulesPanel />
+
+                <RosterPanel roster={roster} onChange={setRoster} />
+
+                <RateCardPanel />
+
+                <ServerConnectionPanel onSaved={() => setHistoryRevision(r => r + 1)} />
+
+                <RecordingsPanel onModeChange={setRecordingMode} />
+
+                <IntegrityPanel />
+
+                <AlertsPanel revision={historyRevision + deliveryRevision} actor={session.name} />
+
+                <UsersPanel currentUserId={session.user_id} />
+              </>
+            )}
           </div>
         )}
       </main>
+      )}
 
       <footer className="mt-auto py-8 px-4 border-t border-slate-200 dark:border-slate-800 text-center bg-white dark:bg-slate-900/50 backdrop-blur-sm">
         <div className="flex flex-col items-center space-y-3">
@@ -0,0 +1,269 @@
+
+import React, { useEffect, useState } from 'react';
+import { AlertRule, AlertRuleKind, AlertSettings, DeliveryStatus, RiskLevel, WebhookDelivery, WebhookEndpoint } from '../types';
+import { SECTOR_POLICIES } from '../services/sectorPolicies';
+import { RISK_ORDER } from '../services/monitoring';
+import { listDeliveries } from '../services/historyStore';
+import { DEFAULT_ALERT_SETTINGS, loadAlertSettings, saveAlertSettings, validateAlertSettings } from '../services/alerts';
+import { retryDelivery, sendTestAlert } from '../services/webhooks';
+import { notificationPermission, playAlarm, requestNotificationPermission } from '../services/alertSignals';
+
+interface AlertsPanelProps {
+  revision: number;
+  actor: string;
+}
+
+const inputClass = "w-full px-2 py-1.5 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-xs text-slate-900 dark:text-white";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1";
+const smallButtonClass = "text-[10px] text-primary-600 dark:text-primary-400 font-black tracking-widest border border-primary-200 dark:border-primary-900/40 px-3 py-1 rounded hover:bg-primary-50 dark:hover:bg-primary-950/20 transition-all";
+const removeButtonClass = "text-[10px] text-red-500 hover:text-red-700 font-black tracking-widest border border-red-200 dark:border-red-900/40 px-3 py-1 rounded hover:bg-red-50 dark:hover:bg-red-950/20 transition-all";
+
+const DELIVERY_STYLES: Record<DeliveryStatus, string> = {
+  [DeliveryStatus.PENDING]: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  [DeliveryStatus.DELIVERED]: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+  [DeliveryStatus.FAILED]: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+};
+
+// Deliveries shown in the log
+const LOG_SIZE = 25;
+
+const newRule = (): AlertRule => ({
+  rule_id: crypto.randomUUID(),
+  name: 'New rule',
+  enabled: true,
+  kind: AlertRuleKind.RISK,
+  sectors: [],
+  min_risk: RiskLevel.HIGH,
+  count: 3,
+  window_minutes: 10,
+  notify: true,
+  alarm: false,
+  webhook: true
+});
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ revision, actor }) => {
+  const [settings, setSettings] = useState<AlertSettings>(loadAlertSettings);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [permission, setPermission] = useState(notificationPermission);
+  const [messages, setMessages] = useState<{ text: string; error?: boolean }[]>([]);
+  const [logRevision, setLogRevision] = useState(0);
+
+  useEffect(() => {
+    listDeliveries(LOG_SIZE).then(setDeliveries);
+  }, [revision, logRevision]);
+
+  const setRule = (ruleId: string, changes: Partial<AlertRule>) =>
+    setSettings(prev => ({ ...prev, rules: prev.rules.map(r => (r.rule_id === ruleId ? { ...r, ...changes } : r)) }));
+
+  const setWebhook = (webhookId: string, changes: Partial<WebhookEndpoint>) =>
+    setSettings(prev => ({ ...prev, webhooks: prev.webhooks.map(w => (w.webhook_id === webhookId ? { ...w, ...changes } : w)) }));
+
+  const save = () => {
+    const error = validateAlertSettings(settings);
+    if (error) {
+      setMessages([{ text: error, error: true }]);
+      return;
+    }
+    saveAlertSettings(settings);
+    setMessages([{ text: `${settings.rules.filter(r => r.enabled).length} rule(s) active, ${settings.webhooks.filter(w => w.enabled).length} webhook(s). Saved.` }]);
+  };
+
+  const enableNotifications = async () => {
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    if (result !== 'granted') setMessages([{ text: 'Desktop notifications were not allowed. Enable them in the browser site settings.', error: true }]);
+  };
+
+  const test = async (webhook: WebhookEndpoint) => {
+    const delivery = await sendTestAlert(webhook, actor);
+    const last = delivery.attempts[delivery.attempts.length - 1];
+    setMessages([last.error
+      ? { text: `Test to ${webhook.url} failed: ${last.error} It will be retried.`, error: true }
+      : { text: `Test delivered to ${webhook.url} (${last.status}).` }]);
+    setLogRevision(r => r + 1);
+  };
+
+  const retry = async (delivery: WebhookDelivery) => {
+    const updated = await retryDelivery(delivery);
+    const last = updated.attempts[updated.attempts.length - 1];
+    setMessages([last.error ? { text: `Retry failed: ${last.error}`, error: true } : { text: 'Delivered on retry.' }]);
+    setLogRevision(r => r + 1);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <div>
+          <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Safety Alerts</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">Rules · desktop notifications · alarm · webhooks</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          {permission === 'granted' ? (
+            <span className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">Notifications on</span>
+          ) : permission !== 'unsupported' && (
+            <button onClick={enableNotifications} className={smallButtonClass}>ENABLE NOTIFICATIONS</button>
+          )}
+          <button
+            onClick={playAlarm}
+            className="text-[10px] text-slate-500 font-black tracking-widest border border-slate-200 dark:border-slate-700 px-3 py-1 rounded hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-all"
+          >
+            TEST ALARM
+          </button>
+          <button onClick={save} className={smallButtonClass}>SAVE</button>
+        </div>
+      </div>
+
+      {messages.length > 0 && (
+        <div className="px-4 py-3 space-y-1 border-b border-slate-100 dark:border-slate-700 max-h-32 overflow-y-auto">
+          {messages.map((m, i) => (
+            <p key={i} className={`text-[11px] font-medium ${m.error ? 'text-red-500' : 'text-emerald-600'}`}>{m.text}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="p-4 space-y-3 border-b border-slate-100 dark:border-slate-700">
+        {settings.rules.map(rule => (
+          <div key={rule.rule_id} className={`grid grid-cols-2 md:grid-cols-6 gap-2 items-end ${rule.enabled ? '' : 'opacity-50'}`}>
+            <label className="col-span-2">
+              <span className={labelClass}>Rule</span>
+              <input className={inputClass} value={rule.name} onChange={e => setRule(rule.rule_id, { name: e.target.value })} />
+            </label>
+            <label>
+              <span className={labelClass}>Sector</span>
+              <select className={inputClass} value={rule.sectors[0] ?? ''} onChange={e => setRule(rule.rule_id, { sectors: e.target.value ? [e.target.value] : [] })}>
+                <option value="">All sectors</option>
+                {SECTOR_POLICIES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+            </label>
+            <label>
+              <span className={labelClass}>When</span>
+              <select className={inputClass} value={rule.kind} onChange={e => setRule(rule.rule_id, { kind: e.target.value as AlertRuleKind })}>
+                <option value={AlertRuleKind.RISK}>Risk at least</option>
+                <option value={AlertRuleKind.DENIALS}>Denials</option>
+              </select>
+            </label>
+            {rule.kind === AlertRuleKind.RISK ? (
+              <label>
+                <span className={labelClass}>Risk</span>
+                <select className={inputClass} value={rule.min_risk} onChange={e => setRule(rule.rule_id, { min_risk: e.target.value as RiskLevel })}>
+                  {RISK_ORDER.slice(1).map(level => <option key={level} value={level}>{level}</option>)}
+                </select>
+              </label>
+            ) : (
+              <div className="grid grid-cols-2 gap-1">
+                <label>
+                  <span className={labelClass}>Count</span>
+                  <input type="number" min={1} className={inputClass} value={rule.count ?? ''} onChange={e => setRule(rule.rule_id, { count: Number(e.target.value) })} />
+                </label>
+                <label>
+                  <span className={labelClass}>In min</span>
+                  <input type="number" min={1} className={inputClass} value={rule.window_minutes ?? ''} onChange={e => setRule(rule.rule_id, { window_minutes: Number(e.target.value) })} />
+                </label>
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <div className="flex flex-col text-[10px] font-bold text-slate-600 dark:text-slate-300">
+                <label><input type="checkbox" checked={rule.enabled} onChange={e => setRule(rule.rule_id, { enabled: e.target.checked })} /> On</label>
+                <label><input type="checkbox" checked={rule.notify} onChange={e => setRule(rule.rule_id, { notify: e.target.checked })} /> Notify</label>
+                <label><input type="checkbox" checked={rule.alarm} onChange={e => setRule(rule.rule_id, { alarm: e.target.checked })} /> Alarm</label>
+                <label><input type="checkbox" checked={rule.webhook} onChange={e => setRule(rule.rule_id, { webhook: e.target.checked })} /> Webhook</label>
+              </div>
+              <button
+                onClick={() => setSettings(prev => ({ ...prev, rules: prev.rules.filter(r => r.rule_id !== rule.rule_id) }))}
+                className={removeButtonClass}
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        ))}
+        <div className="flex space-x-2">
+          <button onClick={() => setSettings(prev => ({ ...prev, rules: [...prev.rules, newRule()] }))} className={smallButtonClass}>ADD RULE</button>
+          <button
+            onClick={() => setSettings(prev => ({ ...prev, rules: DEFAULT_ALERT_SETTINGS.rules }))}
+            className="text-[10px] text-slate-500 font-black tracking-widest border border-slate-200 dark:border-slate-700 px-3 py-1 rounded hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-all"
+          >
+            DEFAULT RULES
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-2 border-b border-slate-100 dark:border-slate-700">
+        <span className={labelClass}>Webhooks (JSON POST; the receiver must allow CORS from this terminal)</span>
+        {settings.webhooks.map(webhook => (
+          <div key={webhook.webhook_id} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center">
+            <input className={`${inputClass} col-span-2 md:col-span-3 font-mono`} placeholder="https://…" value={webhook.url} onChange={e => setWebhook(webhook.webhook_id, { url: e.target.value })} />
+            <input
+              className={inputClass}
+              type="password"
+              placeholder="Signing secret (optional)"
+              value={webhook.secret ?? ''}
+              onChange={e => setWebhook(webhook.webhook_id, { secret: e.target.value || undefined })}
+              autoComplete="off"
+            />
+            <label className="text-[10px] font-bold text-slate-600 dark:text-slate-300">
+              <input type="checkbox" checked={webhook.enabled} onChange={e => setWebhook(webhook.webhook_id, { enabled: e.target.checked })} /> Enabled
+            </label>
+            <div className="flex space-x-1 justify-end">
+              <button onClick={() => test(webhook)} className={smallButtonClass}>TEST</button>
+              <button
+                onClick={() => setSettings(prev => ({ ...prev, webhooks: prev.webhooks.filter(w => w.webhook_id !== webhook.webhook_id) }))}
+                className={removeButtonClass}
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={() => setSettings(prev => ({ ...prev, webhooks: [...prev.webhooks, { webhook_id: crypto.randomUUID(), url: 'http://localhost:9090/alerts', enabled: true }] }))}
+          className={smallButtonClass}
+        >
+          ADD WEBHOOK
+        </button>
+      </div>
+
+      <div className="overflow-x-auto max-h-72 overflow-y-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50 dark:bg-slate-900/30 text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+              <th className="px-6 py-3">Queued</th>
+              <th className="px-6 py-3">Alert</th>
+              <th className="px-6 py-3">Webhook</th>
+              <th className="px-6 py-3">Delivery</th>
+              <th className="px-6 py-3 text-right">Action</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {deliveries.length > 0 ? deliveries.map(d => {
+              const last = d.attempts[d.attempts.length - 1];
+              return (
+                <tr key={d.delivery_id} className="text-xs hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-colors">
+                  <td className="px-6 py-3 font-mono text-slate-500">{new Date(d.created_at).toLocaleString()}</td>
+                  <td className="px-6 py-3 font-bold text-slate-700 dark:text-slate-200">{d.rule_name}</td>
+                  <td className="px-6 py-3 font-mono text-slate-500 break-all">{d.url}</td>
+                  <td className="px-6 py-3">
+                    <span className={`px-1.5 py-0.5 rounded text-[9px] font-black uppercase ${DELIVERY_STYLES[d.status]}`}>{d.status}</span>
+                    <span className="ml-2 text-[10px] text-slate-400">
+                      {d.attempts.length} attempt(s){last?.error ? ` · ${last.error}` : last?.status ? ` · ${last.status}` : ''}
+                      {d.status === DeliveryStatus.PENDING && ` · next ${new Date(d.next_attempt_at).toLocaleTimeString()}`}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    {d.status === DeliveryStatus.FAILED && <button onClick={() => retry(d)} className={smallButtonClass}>RETRY</button>}
+                  </td>
+                </tr>
+              );
+            }) : (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-slate-400 italic font-medium tracking-wide">No webhook deliveries yet.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AlertsPanel;
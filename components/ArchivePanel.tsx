@@ -0,0 +1,255 @@
+
+import React, { useEffect, useState } from 'react';
+import { Employee, PayrollOutput, RiskLevel, WorkStatus } from '../types';
+import { SECTOR_POLICIES } from '../services/sectorPolicies';
+import { normalizeEmployeeId } from '../services/rosterStore';
+import { ArchiveSort, ArchiveSortField, HistoryQuery, RecordPage, pageRecords } from '../services/historyStore';
+import { SHIFT_EVENT_LABELS, isPayable } from '../services/shiftSessions';
+import { describeBreakdown, hasPremiums } from '../services/payRules';
+import { describeViolationKey, getRecordViolations, violationKey } from '../services/violations';
+import { formatShiftWindow } from '../services/shiftTime';
+
+interface ArchivePanelProps {
+  revision: number;
+  roster: Employee[];
+  unsyncedCount: number;
+  selectedRecordId?: string; // the record open for review
+  onOpenRecord: (record: PayrollOutput) => void;
+  onOpenEmployee: (employeeId: string) => void;
+  onPurge?: () => void; // absent when the user may not purge
+}
+
+const PAGE_SIZE = 25;
+const DEFAULT_SORT: ArchiveSort = { field: 'timestamp', descending: true };
+
+const inputClass = "w-full px-2 py-1.5 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-xs text-slate-900 dark:text-white";
+
+const describeFlags = (h: PayrollOutput): string[] => [
+  ...(h.roster_sector ? [`Roster sector is ${h.roster_sector}, verified as ${h.sector}`] : []),
+  ...((h.detections?.length ?? 0) > 1 && h.selected_detection === undefined ? [`${h.detections!.length} people in frame, none matched to the employee`] : []),
+  ...(h.discrepancies || []).map(d => `Model ${d.field}: ${d.model_value} (engine ${d.computed_value})`)
+];
+
+const COLUMNS: { label: string; field?: ArchiveSortField; className?: string }[] = [
+  { label: 'Asset ID', field: 'employee_id' },
+  { label: 'Risk Level', field: 'risk_level' },
+  { label: 'Efficiency', field: 'efficiency_percentage' },
+  { label: 'Shift Status', field: 'timestamp' },
+  { label: 'Payroll Output', field: 'final_salary', className: 'text-right' }
+];
+
+const ArchivePanel: React.FC<ArchivePanelProps> = ({ revision, roster, unsyncedCount, selectedRecordId, onOpenRecord, onOpenEmployee, onPurge }) => {
+  const [filters, setFilters] = useState<HistoryQuery>({});
+  const [sort, setSort] = useState<ArchiveSort>(DEFAULT_SORT);
+  const [page, setPage] = useState(0);
+  const [result, setResult] = useState<RecordPage>({ records: [], total: 0 });
+
+  const rangeError = filters.from && filters.to && filters.from > filters.to ? 'The "from" date is after the "to" date.' : null;
+
+  useEffect(() => {
+    if (rangeError) return;
+    let cancelled = false;
+    pageRecords(filters, sort, page * PAGE_SIZE, PAGE_SIZE)
+      .then(next => { if (!cancelled) setResult(next); })
+      .catch(err => console.error("History store unavailable", err));
+    return () => { cancelled = true; };
+  }, [revision, filters, sort, page]);
+
+  const pageCount = Math.max(1, Math.ceil(result.total / PAGE_SIZE));
+  // A purge or a narrower filter can leave the page past the end
+  useEffect(() => {
+    if (page >= pageCount) setPage(pageCount - 1);
+  }, [pageCount]);
+
+  const setFilter = (patch: Partial<HistoryQuery>) => {
+    setFilters(prev => ({ ...prev, ...patch }));
+    setPage(0);
+  };
+
+  const toggleSort = (field: ArchiveSortField) => {
+    setSort(prev => prev.field === field ? { field, descending: !prev.descending } : { field, descending: field !== 'employee_id' });
+    setPage(0);
+  };
+
+  const filtered = Object.values(filters).some(v => v !== undefined);
+  const pagerClass = "text-[10px] text-slate-500 font-black tracking-widest border border-slate-200 dark:border-slate-700 px-3 py-1 rounded hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-all disabled:opacity-40";
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <div>
+          <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Verification Archives</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">{result.total} {filtered ? 'matching record(s)' : 'record(s)'}</p>
+          {unsyncedCount > 0 && (
+            <p className="text-[10px] font-bold text-amber-500 uppercase mt-1">{unsyncedCount} awaiting upload to the server</p>
+          )}
+        </div>
+        {onPurge && (
+          <button
+            onClick={onPurge}
+            className="text-[10px] text-red-500 hover:text-red-700 dark:hover:text-red-400 font-black tracking-widest border border-red-200 dark:border-red-900/40 px-3 py-1 rounded hover:bg-red-50 dark:hover:bg-red-950/20 transition-all"
+          >
+            PURGE RECORDS
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 grid grid-cols-2 md:grid-cols-4 gap-2 border-b border-slate-100 dark:border-slate-700">
+        <input
+          className={`${inputClass} font-mono`}
+          placeholder="Employee ID"
+          list="archive-roster"
+          value={filters.employee_id ?? ''}
+          onChange={e => setFilter({ employee_id: normalizeEmployeeId(e.target.value) || undefined })}
+        />
+        <datalist id="archive-roster">
+          {roster.map(e => <option key={e.employee_id} value={e.employee_id}>{e.name}</option>)}
+        </datalist>
+        <select className={inputClass} value={filters.sector ?? ''} onChange={e => setFilter({ sector: e.target.value || undefined })}>
+          <option value="">All sectors</option>
+          {SECTOR_POLICIES.map(p => <option key={p.id} value={p.id}>{p.id}</option>)}
+        </select>
+        <select className={inputClass} value={filters.risk_level ?? ''} onChange={e => setFilter({ risk_level: (e.target.value || undefined) as RiskLevel | undefined })}>
+          <option value="">All risk levels</option>
+          {Object.values(RiskLevel).map(level => <option key={level} value={level}>{level}</option>)}
+        </select>
+        <select className={inputClass} value={filters.work_status ?? ''} onChange={e => setFilter({ work_status: (e.target.value || undefined) as WorkStatus | undefined })}>
+          <option value="">All work statuses</option>
+          {Object.values(WorkStatus).map(status => <option key={status} value={status}>{status.replace('_', ' ')}</option>)}
+        </select>
+        <select
+          className={inputClass}
+          value={filters.authorized === undefined ? '' : String(filters.authorized)}
+          onChange={e => setFilter({ authorized: e.target.value === '' ? undefined : e.target.value === 'true' })}
+        >
+          <option value="">Authorized and denied</option>
+          <option value="true">Authorized only</option>
+          <option value="false">Denied only</option>
+        </select>
+        <input type="date" className={inputClass} title="Shift date from" value={filters.from ?? ''} onChange={e => setFilter({ from: e.target.value || undefined })} />
+        <input type="date" className={inputClass} title="Shift date to" value={filters.to ?? ''} onChange={e => setFilter({ to: e.target.value || undefined })} />
+        <button
+          disabled={!filtered}
+          onClick={() => { setFilters({}); setPage(0); }}
+          className={pagerClass}
+        >
+          CLEAR FILTERS
+        </button>
+      </div>
+
+      {rangeError && (
+        <div className="px-4 py-3 border-b border-slate-100 dark:border-slate-700">
+          <p className="text-[11px] font-medium text-red-500">{rangeError}</p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50 dark:bg-slate-900/30 text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+              {COLUMNS.map(col => (
+                <th
+                  key={col.label}
+                  onClick={() => col.field && toggleSort(col.field)}
+                  className={`px-6 py-4 cursor-pointer select-none hover:text-primary-600 ${col.className ?? ''}`}
+                  title="Sort"
+                >
+                  {col.label}{sort.field === col.field ? (sort.descending ? ' ▼' : ' ▲') : ''}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {result.records.length > 0 ? result.records.map(h => (
+              <tr
+                key={h.record_id}
+                onClick={() => onOpenRecord(h)}
+                title="Open for review"
+                className={`text-sm hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-colors group cursor-pointer ${selectedRecordId === h.record_id ? 'bg-primary-50/50 dark:bg-primary-900/10' : ''}`}
+              >
+                <td className="px-6 py-4">
+                  <div className="flex flex-col">
+                    <button
+                      onClick={e => { e.stopPropagation(); onOpenEmployee(h.employee_id); }}
+                      title="Open employee profile"
+                      className="text-left font-black text-slate-900 dark:text-white hover:text-primary-600 hover:underline transition-colors"
+                    >
+                      {h.employee_id}
+                    </button>
+                    <span className="text-[10px] text-slate-400 font-bold uppercase tracking-tighter">{h.sector}</span>
+                  </div>
+                </td>
+                <td className="px-6 py-4">
+                  <span className={`px-2 py-0.5 rounded text-[9px] font-black ${
+                    h.risk_level === RiskLevel.CRITICAL ? 'bg-red-600 text-white shadow-sm shadow-red-500/30' :
+                    h.risk_level === RiskLevel.HIGH ? 'bg-orange-500 text-white shadow-sm shadow-orange-500/30' :
+                    'bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400'
+                  }`}>
+                    {h.risk_level.toUpperCase()}
+                  </span>
+                  {getRecordViolations(h).map(v => (
+                    <span key={violationKey(v)} title={`${v.rule}: ${v.efficiency_impact} pts${v.evidence ? `\n${v.evidence}` : ''}`} className="block mt-1 text-[9px] font-bold text-red-500 uppercase tracking-tighter">
+                      {describeViolationKey(violationKey(v))}
+                    </span>
+                  ))}
+                </td>
+                <td className="px-6 py-4 font-mono text-xs font-bold">{h.efficiency_percentage}%</td>
+                <td className="px-6 py-4">
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] font-black tracking-tighter ${
+                    h.work_status === WorkStatus.FULL_DAY ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400' : 'bg-slate-100 text-slate-600 dark:bg-slate-700/50 dark:text-slate-400'
+                  }`}>
+                    {h.work_status.toUpperCase()}
+                  </span>
+                  {h.shift_event && (
+                    <span className="ml-1 text-[9px] font-black text-slate-400 uppercase tracking-tighter">{SHIFT_EVENT_LABELS[h.shift_event]}</span>
+                  )}
+                  {formatShiftWindow(h) && (
+                    <span className="block mt-1 text-[9px] font-mono text-slate-400">{formatShiftWindow(h)} · {h.hours_worked}H</span>
+                  )}
+                  {hasPremiums(h.pay_breakdown) && (
+                    <span className="block mt-0.5 text-[9px] font-mono text-primary-500">{describeBreakdown(h.pay_breakdown!)}</span>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-right font-black text-primary-600 dark:text-primary-400">
+                  {h.flagged && (
+                    <span title={describeFlags(h).join('\n')} className="mr-2 px-1.5 py-0.5 rounded text-[9px] font-black bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">FLAGGED</span>
+                  )}
+                  {h.overrides && h.overrides.length > 0 && (
+                    <span title={`Findings overridden by ${h.overrides[h.overrides.length - 1].by}`} className="mr-2 px-1.5 py-0.5 rounded text-[9px] font-black bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-400">OVERRIDDEN</span>
+                  )}
+                  {h.pay_run_id && (
+                    <span title="Locked in an approved pay run" className="mr-2 px-1.5 py-0.5 rounded text-[9px] font-black bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400">LOCKED</span>
+                  )}
+                  <span className={isPayable(h) ? '' : 'opacity-40'} title={isPayable(h) ? undefined : 'Provisional until check-out'}>
+                    ${h.final_salary.toFixed(2)}
+                  </span>
+                </td>
+              </tr>
+            )) : (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-slate-400 italic font-medium tracking-wide">
+                  {filtered ? 'No records match these filters.' : 'Empty archive. Supervisor active for new data.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {result.total > PAGE_SIZE && (
+        <div className="px-6 py-3 border-t border-slate-100 dark:border-slate-700 flex justify-between items-center">
+          <span className="text-[10px] font-bold text-slate-400 uppercase">
+            {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, result.total)} of {result.total}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button disabled={page === 0} onClick={() => setPage(p => p - 1)} className={pagerClass}>PREV</button>
+            <span className="text-[10px] font-black text-slate-500">{page + 1} / {pageCount}</span>
+            <button disabled={page + 1 >= pageCount} onClick={() => setPage(p => p + 1)} className={pagerClass}>NEXT</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArchivePanel;
@@ -0,0 +1,231 @@
+
+import React, { useRef, useState } from 'react';
+import { BatchItemStatus, Employee, ShiftSession } from '../types';
+import {
+  BatchItem,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  ShiftSheetRow,
+  matchPhotos,
+  parseShiftSheet,
+  runBatch
+} from '../services/batchVerification';
+
+interface BatchPanelProps {
+  roster: Employee[];
+  sessions: ShiftSession[];
+  defaultTimeZone: string;
+  onResult: (item: BatchItem) => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  [BatchItemStatus.PENDING]: 'bg-slate-100 text-slate-600 dark:bg-slate-700/50 dark:text-slate-400',
+  [BatchItemStatus.RUNNING]: 'bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-400 animate-pulse',
+  [BatchItemStatus.DONE]: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+  [BatchItemStatus.DENIED]: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  [BatchItemStatus.FAILED]: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  [BatchItemStatus.CANCELLED]: 'bg-slate-100 text-slate-500 dark:bg-slate-700/50 dark:text-slate-500'
+};
+
+const SETTLED = [BatchItemStatus.DONE, BatchItemStatus.DENIED, BatchItemStatus.FAILED, BatchItemStatus.CANCELLED];
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ roster, sessions, defaultTimeZone, onResult }) => {
+  const [rows, setRows] = useState<ShiftSheetRow[]>([]);
+  const [sheetName, setSheetName] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [sheetErrors, setSheetErrors] = useState<string[]>([]);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [unused, setUnused] = useState<File[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const sheetRef = useRef<HTMLInputElement>(null);
+  const photosRef = useRef<HTMLInputElement>(null);
+
+  const rematch = (nextRows: ShiftSheetRow[], nextPhotos: File[]) => {
+    const matched = matchPhotos(nextRows, nextPhotos);
+    setItems(matched.items);
+    setUnused(matched.unused);
+  };
+
+  const handleSheet = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const parsed = parseShiftSheet(await file.text(), defaultTimeZone);
+    setSheetName(file.name);
+    setRows(parsed.rows);
+    setSheetErrors(parsed.errors);
+    rematch(parsed.rows, photos);
+    e.target.value = '';
+  };
+
+  const handlePhotos = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    setPhotos(files);
+    rematch(rows, files);
+    e.target.value = '';
+  };
+
+  const start = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    try {
+      await runBatch([...items], {
+        roster,
+        sessions,
+        concurrency,
+        signal: controller.signal,
+        onUpdate: (index, item) => {
+          setItems(prev => prev.map((existing, i) => (i === index ? item : existing)));
+          if (item.record) onResult(item);
+        }
+      });
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const pending = items.filter(i => i.status === BatchItemStatus.PENDING).length;
+  const settled = items.filter(i => SETTLED.includes(i.status)).length;
+  const count = (status: BatchItemStatus) => items.filter(i => i.status === status).length;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <div>
+          <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Batch Verification</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">
+            {sheetName ?? 'No shift sheet'} · {photos.length} photo(s)
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input ref={sheetRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleSheet} />
+          <input ref={photosRef} type="file" accept="image/*" multiple className="hidden" onChange={handlePhotos} />
+          <button
+            disabled={running}
+            onClick={() => sheetRef.current?.click()}
+            className="text-[10px] text-primary-600 dark:text-primary-400 font-black tracking-widest border border-primary-200 dark:border-primary-900/40 px-3 py-1 rounded hover:bg-primary-50 dark:hover:bg-primary-950/20 transition-all disabled:opacity-40"
+          >
+            SHIFT SHEET
+          </button>
+          <button
+            disabled={running}
+            onClick={() => photosRef.current?.click()}
+            className="text-[10px] text-primary-600 dark:text-primary-400 font-black tracking-widest border border-primary-200 dark:border-primary-900/40 px-3 py-1 rounded hover:bg-primary-50 dark:hover:bg-primary-950/20 transition-all disabled:opacity-40"
+          >
+            PHOTOS
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 flex flex-wrap items-center gap-4 border-b border-slate-100 dark:border-slate-700">
+        <label className="flex items-center space-x-2 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+          <span>Parallel</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_BATCH_CONCURRENCY}
+            value={concurrency}
+            disabled={running}
+            onChange={e => setConcurrency(Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+            className="w-14 px-2 py-1 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded outline-none text-slate-900 dark:text-white font-mono"
+          />
+        </label>
+        {running ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="text-[10px] text-red-600 dark:text-red-400 font-black tracking-widest border border-red-200 dark:border-red-900/40 px-3 py-1 rounded hover:bg-red-50 dark:hover:bg-red-950/20 transition-all"
+          >
+            CANCEL
+          </button>
+        ) : (
+          <button
+            disabled={pending === 0}
+            onClick={start}
+            className="py-1.5 px-4 bg-primary-600 hover:bg-primary-700 disabled:bg-slate-400 text-white text-[10px] font-black rounded-lg uppercase tracking-widest"
+          >
+            Verify {pending} Row(s)
+          </button>
+        )}
+        <div className="flex-1 min-w-[160px]">
+          <div className="flex justify-between text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">
+            <span>{settled} / {items.length} settled</span>
+            <span>
+              {count(BatchItemStatus.DONE)} ok · {count(BatchItemStatus.DENIED)} denied · {count(BatchItemStatus.FAILED)} failed
+            </span>
+          </div>
+          <div className="h-1.5 bg-slate-100 dark:bg-slate-900/50 rounded-full overflow-hidden">
+            <div className="h-full bg-primary-500 transition-all" style={{ width: `${items.length ? (settled / items.length) * 100 : 0}%` }} />
+          </div>
+        </div>
+      </div>
+
+      {(sheetErrors.length > 0 || unused.length > 0) && (
+        <div className="px-4 py-3 space-y-1 border-b border-slate-100 dark:border-slate-700 max-h-32 overflow-y-auto">
+          {sheetErrors.map((text, i) => (
+            <p key={i} className="text-[11px] font-medium text-red-500">{text}</p>
+          ))}
+          {unused.length > 0 && (
+            <p className="text-[11px] font-medium text-amber-600">Unmatched photos: {unused.map(f => f.name).join(', ')}</p>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-x-auto max-h-[600px] overflow-y-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50 dark:bg-slate-900/30 text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+              <th className="px-6 py-3">Row</th>
+              <th className="px-6 py-3">Employee</th>
+              <th className="px-6 py-3">Shift</th>
+              <th className="px-6 py-3">Photo</th>
+              <th className="px-6 py-3">Result</th>
+              <th className="px-6 py-3 text-right">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {items.length > 0 ? items.map(item => (
+              <tr key={item.row} className="text-sm hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-colors">
+                <td className="px-6 py-3 text-xs font-mono text-slate-500">{item.row}</td>
+                <td className="px-6 py-3">
+                  <span className="block font-black font-mono text-slate-900 dark:text-white">{item.input.employee_id}</span>
+                  <span className="text-[10px] text-slate-400 font-bold uppercase">{item.input.sector}</span>
+                </td>
+                <td className="px-6 py-3 text-xs font-mono text-slate-600 dark:text-slate-300">
+                  {item.input.check_in_time.replace('T', ' ')} → {item.input.current_time.slice(11)}
+                </td>
+                <td className="px-6 py-3 text-xs text-slate-500 truncate max-w-[160px]">{item.file?.name ?? '—'}</td>
+                <td className="px-6 py-3 text-xs">
+                  {item.status === BatchItemStatus.DONE && item.record ? (
+                    <span className="font-black text-slate-900 dark:text-white">
+                      ${item.record.final_salary.toFixed(2)}
+                      <span className="ml-2 text-[10px] text-slate-400 font-bold">{item.record.efficiency_percentage}%</span>
+                      {item.record.flagged && <span className="ml-2 px-1.5 py-0.5 rounded text-[9px] font-black bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">FLAGGED</span>}
+                    </span>
+                  ) : (
+                    <span className="text-slate-500">{item.message ?? ''}</span>
+                  )}
+                </td>
+                <td className="px-6 py-3 text-right">
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] font-black tracking-tighter ${STATUS_STYLES[item.status]}`}>
+                    {item.status.toUpperCase()}
+                  </span>
+                </td>
+              </tr>
+            )) : (
+              <tr>
+                <td colSpan={6} className="px-6 py-12 text-center text-slate-400 italic font-medium tracking-wide">
+                  Load a shift sheet (employee_id, sector, check_in, check_out) and the site photos to begin.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,67 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Detection, Sector } from '../types';
+import { PPE_LABELS, getMissingPpe } from '../services/sectorPolicies';
+
+interface DetectionOverlayProps {
+  detections: Detection[];
+  sector: Sector;
+  frameWidth: number;
+  frameHeight: number;
+  still?: string; // base64 JPEG held on screen while the operator picks
+  selected?: number;
+  onPick?: (index: number) => void;
+}
+
+const DetectionOverlay: React.FC<DetectionOverlayProps> = ({ detections, sector, frameWidth, frameHeight, still, selected, onPick }) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    if (!rootRef.current) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(rootRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  // The video is drawn object-cover, so map frame fractions through the same crop
+  const scale = frameWidth && frameHeight ? Math.max(size.width / frameWidth, size.height / frameHeight) : 0;
+  const offsetX = (size.width - frameWidth * scale) / 2;
+  const offsetY = (size.height - frameHeight * scale) / 2;
+
+  return (
+    <div ref={rootRef} className={`absolute inset-0 ${onPick ? '' : 'pointer-events-none opacity-70'}`}>
+      {still && <img src={`data:image/jpeg;base64,${still}`} alt="Captured frame" className="absolute inset-0 w-full h-full object-cover" />}
+      {scale > 0 && detections.map((d, i) => {
+        const missing = getMissingPpe(sector, d.ppe);
+        const isSelected = selected === i;
+        const tone = missing.length === 0 ? 'border-emerald-400' : 'border-red-500';
+        return (
+          <button
+            key={i}
+            type="button"
+            disabled={!onPick}
+            onClick={() => onPick?.(i)}
+            className={`absolute border-2 rounded-md text-left transition-all ${tone} ${isSelected ? 'ring-4 ring-primary-400/60' : ''} ${onPick ? 'hover:bg-white/10 cursor-pointer' : ''}`}
+            style={{
+              left: offsetX + d.box.x * frameWidth * scale,
+              top: offsetY + d.box.y * frameHeight * scale,
+              width: d.box.width * frameWidth * scale,
+              height: d.box.height * frameHeight * scale
+            }}
+          >
+            <span className={`absolute -top-5 left-0 px-1.5 py-0.5 rounded text-[9px] font-black uppercase tracking-widest whitespace-nowrap ${
+              missing.length === 0 ? 'bg-emerald-500 text-white' : 'bg-red-600 text-white'
+            }`}>
+              #{i + 1} · {d.activity_level.replace('_', ' ')} · {missing.length === 0 ? 'PPE OK' : `No ${missing.map(item => PPE_LABELS[item]).join(', ')}`}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DetectionOverlay;
@@ -0,0 +1,74 @@
+
+import React, { useState } from 'react';
+import { PayrollOutput } from '../types';
+import { raiseDispute } from '../services/overrides';
+
+interface DisputeFormProps {
+  record: PayrollOutput;
+  onRaised: () => void;
+}
+
+const inputClass = "w-full px-2 py-1.5 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-xs text-slate-900 dark:text-white";
+
+// Lets the verified worker challenge the findings; the dispute goes to the supervisor queue
+const DisputeForm: React.FC<DisputeFormProps> = ({ record, onRaised }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [message, setMessage] = useState('');
+  const [status, setStatus] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await raiseDispute(record, record.employee_name || record.employee_id, message);
+    if (typeof result === 'string') {
+      setStatus({ text: result, error: true });
+      return;
+    }
+    setStatus({ text: 'Dispute sent to the supervisor review queue.' });
+    setMessage('');
+    setIsOpen(false);
+    onRaised();
+  };
+
+  return (
+    <div className="p-4 bg-slate-50 dark:bg-slate-900/30 rounded-xl border border-slate-100 dark:border-slate-700">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-black text-slate-400 tracking-widest uppercase">Findings wrong?</span>
+        {!isOpen && (
+          <button
+            onClick={() => { setIsOpen(true); setStatus(null); }}
+            className="text-[10px] text-primary-600 dark:text-primary-400 font-black tracking-widest border border-primary-200 dark:border-primary-900/40 px-3 py-1 rounded hover:bg-primary-50 dark:hover:bg-primary-950/20 transition-all"
+          >
+            DISPUTE
+          </button>
+        )}
+      </div>
+      {isOpen && (
+        <form onSubmit={submit} className="mt-3 space-y-2">
+          <textarea
+            rows={2}
+            className={inputClass}
+            placeholder="e.g. I was wearing my helmet; it is behind the scaffold pole."
+            value={message}
+            onChange={e => setMessage(e.target.value)}
+            required
+          />
+          <div className="flex space-x-2">
+            <button type="submit" className="flex-1 py-1.5 bg-primary-600 hover:bg-primary-700 text-white text-[10px] font-black rounded-lg uppercase tracking-widest">
+              Send Dispute
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="flex-1 py-1.5 border border-slate-200 dark:border-slate-700 text-slate-500 text-[10px] font-black rounded-lg uppercase tracking-widest"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+      {status && <p className={`mt-2 text-[11px] font-medium ${status.error ? 'text-red-500' : 'text-emerald-600'}`}>{status.text}</p>}
+    </div>
+  );
+};
+
+export default DisputeForm;
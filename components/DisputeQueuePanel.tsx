@@ -0,0 +1,68 @@
+
+import React, { useEffect, useState } from 'react';
+import { Dispute, DisputeStatus } from '../types';
+import { listDisputes } from '../services/historyStore';
+
+interface DisputeQueuePanelProps {
+  revision: number;
+  onReview: (dispute: Dispute) => void;
+}
+
+const DisputeQueuePanel: React.FC<DisputeQueuePanelProps> = ({ revision, onReview }) => {
+  const [open, setOpen] = useState<Dispute[]>([]);
+
+  useEffect(() => {
+    listDisputes(DisputeStatus.OPEN).then(setOpen);
+  }, [revision]);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <div>
+          <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Dispute Queue</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">Worker challenges to AI findings, oldest first</p>
+        </div>
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{open.length} open</span>
+      </div>
+
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50 dark:bg-slate-900/30 text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+              <th className="px-6 py-3">Raised</th>
+              <th className="px-6 py-3">Employee</th>
+              <th className="px-6 py-3">Message</th>
+              <th className="px-6 py-3 text-right">Action</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {open.length > 0 ? open.map(d => (
+              <tr key={d.dispute_id} className="text-sm hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-colors">
+                <td className="px-6 py-3 text-xs font-mono text-slate-500">{new Date(d.raised_at).toLocaleString()}</td>
+                <td className="px-6 py-3">
+                  <span className="block text-xs font-black text-slate-900 dark:text-white">{d.employee_id}</span>
+                  <span className="text-[10px] text-slate-400 font-bold">by {d.raised_by}</span>
+                </td>
+                <td className="px-6 py-3 text-xs text-slate-600 dark:text-slate-300 italic">"{d.message}"</td>
+                <td className="px-6 py-3 text-right">
+                  <button
+                    onClick={() => onReview(d)}
+                    className="text-[10px] text-primary-600 dark:text-primary-400 font-black tracking-widest border border-primary-200 dark:border-primary-900/40 px-3 py-1 rounded hover:bg-primary-50 dark:hover:bg-primary-950/20 transition-all"
+                  >
+                    REVIEW
+                  </button>
+                </td>
+              </tr>
+            )) : (
+              <tr>
+                <td colSpan={4} className="px-6 py-12 text-center text-slate-400 italic font-medium tracking-wide">No open disputes.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default DisputeQueuePanel;
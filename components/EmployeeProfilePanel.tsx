@@ -0,0 +1,163 @@
+
+import React, { useEffect, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Employee, PayrollOutput, RiskLevel } from '../types';
+import { queryRecords } from '../services/historyStore';
+import { getSectorPolicy } from '../services/sectorPolicies';
+import { SHIFT_EVENT_LABELS, isPayable } from '../services/shiftSessions';
+import { formatShiftWindow } from '../services/shiftTime';
+import { describeViolationKey, getRecordViolations, violationKey } from '../services/violations';
+import { employeeTrend, summarizeEmployee } from '../services/employeeProfile';
+
+interface EmployeeProfilePanelProps {
+  employeeId: string;
+  roster: Employee[];
+  revision: number;
+  isDarkMode: boolean;
+  selectedRecordId?: string; // the record open for review
+  onOpenRecord: (record: PayrollOutput) => void;
+  onClose: () => void;
+}
+
+const RISK_STYLES: Partial<Record<RiskLevel, string>> = {
+  [RiskLevel.CRITICAL]: 'bg-red-600 text-white',
+  [RiskLevel.HIGH]: 'bg-orange-500 text-white'
+};
+
+const EmployeeProfilePanel: React.FC<EmployeeProfilePanelProps> = ({ employeeId, roster, revision, isDarkMode, selectedRecordId, onOpenRecord, onClose }) => {
+  // Newest first
+  const [records, setRecords] = useState<PayrollOutput[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    queryRecords({ employee_id: employeeId })
+      .then(found => { if (!cancelled) setRecords(found); })
+      .catch(err => console.error("History store unavailable", err));
+    return () => { cancelled = true; };
+  }, [employeeId, revision]);
+
+  const employee = roster.find(e => e.employee_id === employeeId);
+  const totals = summarizeEmployee(records);
+  const trend = employeeTrend(records);
+
+  const tiles = [
+    { label: 'Verifications', value: `${totals.verifications}${totals.denials ? ` (${totals.denials} denied)` : ''}` },
+    { label: 'Completed Shifts', value: `${totals.completed_shifts} · ${totals.hours_paid.toFixed(1)}H` },
+    { label: 'Pay Total', value: `$${totals.payable_total.toFixed(2)}` },
+    { label: 'Mean Efficiency', value: totals.average_efficiency === null ? '—' : `${totals.average_efficiency.toFixed(1)}%` },
+    { label: 'Compliance', value: totals.compliance_percentage === null ? '—' : `${totals.compliance_percentage.toFixed(1)}%` },
+    { label: 'Violations', value: totals.violations }
+  ];
+
+  const axis = { stroke: isDarkMode ? '#94a3b8' : '#64748b', fontSize: 10, axisLine: false, tickLine: false };
+  const tooltipStyle = { backgroundColor: isDarkMode ? '#1e293b' : '#fff', border: 'none', borderRadius: '8px', fontSize: '10px' };
+  const charts = [
+    { title: 'Efficiency Trend', dataKey: 'efficiency', color: '#0ea5e9' },
+    { title: 'Compliance Trend', dataKey: 'compliance', color: '#10b981' }
+  ];
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <div>
+          <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">
+            Employee Profile · {employeeId}{employee ? ` · ${employee.name}` : ''}
+          </h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">
+            {employee
+              ? `${getSectorPolicy(employee.sector)?.label ?? employee.sector} · grade ${employee.pay_grade} · ${employee.status} · hired ${employee.hire_date}`
+              : 'Not on the roster'}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-[10px] text-slate-500 font-black tracking-widest border border-slate-200 dark:border-slate-700 px-3 py-1 rounded hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-all"
+        >
+          BACK TO ARCHIVE
+        </button>
+      </div>
+
+      <div className="p-4 grid grid-cols-2 md:grid-cols-3 gap-3 border-b border-slate-100 dark:border-slate-700">
+        {tiles.map(tile => (
+          <div key={tile.label} className="p-3 bg-slate-50 dark:bg-slate-900/30 rounded-lg border border-slate-100 dark:border-slate-800">
+            <p className="text-[9px] font-black text-slate-400 uppercase mb-1">{tile.label}</p>
+            <p className="text-sm font-black text-slate-900 dark:text-white">{tile.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-4 grid grid-cols-1 lg:grid-cols-2 gap-6 border-b border-slate-100 dark:border-slate-700">
+        {charts.map(chart => (
+          <div key={chart.dataKey}>
+            <h4 className="font-black text-slate-900 dark:text-white mb-4 uppercase tracking-widest text-[10px]">{chart.title}</h4>
+            {trend.length > 0 ? (
+              <div className="h-40">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={trend}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={isDarkMode ? '#334155' : '#e2e8f0'} />
+                    <XAxis dataKey="date" {...axis} />
+                    <YAxis domain={[0, 100]} unit="%" {...axis} />
+                    <Tooltip contentStyle={tooltipStyle} />
+                    <Line type="monotone" dataKey={chart.dataKey} stroke={chart.color} strokeWidth={2} dot={{ r: 2 }} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-[11px] text-slate-400 italic">No judged verifications yet.</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50 dark:bg-slate-900/30 text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+              <th className="px-6 py-3">Verified</th>
+              <th className="px-6 py-3">Shift</th>
+              <th className="px-6 py-3">Risk · Violations</th>
+              <th className="px-6 py-3">Efficiency</th>
+              <th className="px-6 py-3 text-right">Pay</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {records.length > 0 ? records.map(r => (
+              <tr
+                key={r.record_id}
+                onClick={() => onOpenRecord(r)}
+                title="Open for review"
+                className={`text-sm cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-colors ${selectedRecordId === r.record_id ? 'bg-primary-50/50 dark:bg-primary-900/10' : ''}`}
+              >
+                <td className="px-6 py-3">
+                  <span className="block text-xs font-mono text-slate-500">{new Date(r.timestamp).toLocaleString()}</span>
+                  <span className="text-[10px] text-slate-400 font-bold uppercase">
+                    {r.sector}{r.shift_event ? ` · ${SHIFT_EVENT_LABELS[r.shift_event]}` : ''}{r.authorized ? '' : ' · denied'}
+                  </span>
+                </td>
+                <td className="px-6 py-3 text-[10px] font-mono text-slate-400">{formatShiftWindow(r) ?? r.shift_date} · {r.hours_worked}H</td>
+                <td className="px-6 py-3">
+                  <span className={`px-1.5 py-0.5 rounded text-[9px] font-black uppercase ${RISK_STYLES[r.risk_level] ?? 'bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400'}`}>
+                    {r.risk_level}
+                  </span>
+                  {getRecordViolations(r).map(v => (
+                    <span key={violationKey(v)} className="block mt-1 text-[9px] font-bold text-red-500 uppercase tracking-tighter">{describeViolationKey(violationKey(v))}</span>
+                  ))}
+                </td>
+                <td className="px-6 py-3 font-mono text-xs font-bold">{r.efficiency_percentage}%</td>
+                <td className={`px-6 py-3 text-right font-black text-primary-600 dark:text-primary-400 ${r.authorized && isPayable(r) ? '' : 'opacity-40'}`}>
+                  ${r.final_salary.toFixed(2)}
+                </td>
+              </tr>
+            )) : (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-slate-400 italic font-medium tracking-wide">No verifications for this employee.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default EmployeeProfilePanel;
@@ -0,0 +1,106 @@
+
+import React, { useState } from 'react';
+import { Employee, PayrollOutput, RiskLevel } from '../types';
+import { SECTOR_POLICIES } from '../services/sectorPolicies';
+import { normalizeEmployeeId } from '../services/rosterStore';
+import { HistoryQuery, queryRecords } from '../services/historyStore';
+import { exportCsv, exportXlsx } from '../services/payrollExport';
+import { downloadPayslips } from '../services/payslips';
+
+interface ExportPanelProps {
+  roster: Employee[];
+}
+
+type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+const inputClass = "w-full px-2 py-1.5 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-xs text-slate-900 dark:text-white";
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ roster }) => {
+  const [filters, setFilters] = useState<HistoryQuery>({});
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const fileStem = () => ['payroll', filters.employee_id, filters.sector, filters.risk_level, filters.from, filters.to]
+    .filter(Boolean).join('_').replace(/[^\w-]+/g, '-');
+
+  const run = async (format: ExportFormat) => {
+    if (filters.from && filters.to && filters.from > filters.to) {
+      setMessage({ text: 'The "from" date is after the "to" date.', error: true });
+      return;
+    }
+    setBusy(true);
+    try {
+      const records: PayrollOutput[] = await queryRecords(filters);
+      if (records.length === 0) {
+        setMessage({ text: 'No records match these filters.', error: true });
+      } else if (format === 'csv') {
+        exportCsv(records, `${fileStem()}.csv`);
+        setMessage({ text: `Exported ${records.length} record(s) to CSV.` });
+      } else if (format === 'xlsx') {
+        exportXlsx(records, `${fileStem()}.xlsx`);
+        setMessage({ text: `Exported ${records.length} record(s) to XLSX.` });
+      } else {
+        const count = downloadPayslips(records, { from: filters.from, to: filters.to }, roster);
+        setMessage(count
+          ? { text: `Printed ${count} payslip(s).` }
+          : { text: 'None of these records is a completed, authorized shift.', error: true });
+      }
+    } catch (err: any) {
+      setMessage({ text: `Export failed: ${err.message}`, error: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setFilter = (field: keyof HistoryQuery, value: string) =>
+    setFilters(prev => ({ ...prev, [field]: value || undefined }));
+
+  const buttonClass = "text-[10px] text-primary-600 dark:text-primary-400 font-black tracking-widest border border-primary-200 dark:border-primary-900/40 px-3 py-1 rounded hover:bg-primary-50 dark:hover:bg-primary-950/20 transition-all disabled:opacity-40";
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <div>
+          <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Payroll Export</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">Full archive records · payslips for completed shifts</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button disabled={busy} onClick={() => run('csv')} className={buttonClass}>EXPORT CSV</button>
+          <button disabled={busy} onClick={() => run('xlsx')} className={buttonClass}>EXPORT XLSX</button>
+          <button disabled={busy} onClick={() => run('pdf')} className={buttonClass}>PAYSLIPS PDF</button>
+        </div>
+      </div>
+
+      <div className="p-4 grid grid-cols-2 md:grid-cols-5 gap-2 border-b border-slate-100 dark:border-slate-700">
+        <input
+          className={`${inputClass} font-mono`}
+          placeholder="Employee ID"
+          list="export-roster"
+          value={filters.employee_id ?? ''}
+          onChange={e => setFilter('employee_id', normalizeEmployeeId(e.target.value))}
+        />
+        <datalist id="export-roster">
+          {roster.map(e => <option key={e.employee_id} value={e.employee_id}>{e.name}</option>)}
+        </datalist>
+        <select className={inputClass} value={filters.sector ?? ''} onChange={e => setFilter('sector', e.target.value)}>
+          <option value="">All sectors</option>
+          {SECTOR_POLICIES.map(p => <option key={p.id} value={p.id}>{p.id}</option>)}
+        </select>
+        <select className={inputClass} value={filters.risk_level ?? ''} onChange={e => setFilter('risk_level', e.target.value)}>
+          <option value="">All risk levels</option>
+          {Object.values(RiskLevel).map(level => <option key={level} value={level}>{level}</option>)}
+        </select>
+        <input type="date" className={inputClass} title="Shift date from" value={filters.from ?? ''} onChange={e => setFilter('from', e.target.value)} />
+        <input type="date" className={inputClass} title="Shift date to" value={filters.to ?? ''} onChange={e => setFilter('to', e.target.value)} />
+      </div>
+
+      {message && (
+        <div className="px-4 py-3">
+          <p className={`text-[11px] font-medium ${message.error ? 'text-red-500' : 'text-emerald-600'}`}>{message.text}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -1,15 +1,18 @@
 
 import React from 'react';
-import { AppTab } from '../types';
+import { AppTab, UserSession } from '../types';
+import { ROLE_LABELS, canOpenTab } from '../services/accessControl';
 
 interface HeaderProps {
   activeTab: AppTab;
   setActiveTab: (tab: AppTab) => void;
   isDarkMode: boolean;
   toggleDarkMode: () => void;
+  session: UserSession | null; // tabs are hidden until someone signs in
+  onSignOut: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ activeTab, setActiveTab, isDarkMode, toggleDarkMode }) => {
+const Header: React.FC<HeaderProps> = ({ activeTab, setActiveTab, isDarkMode, toggleDarkMode, session, onSignOut }) => {
   return (
     <header className="sticky top-0 z-50 bg-white/80 dark:bg-slate-900/80 backdrop-blur-md border-b border-slate-200 dark:border-slate-800">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -23,43 +26,77 @@ const Header: React.FC<HeaderProps> = ({ activeTab, setActiveTab, isDarkMode, to
             <h1 className="text-xl font-bold text-slate-900 dark:text-white hidden sm:block">MineGuard AI</h1>
           </div>
 
-          <nav className="flex items-center bg-slate-100 dark:bg-slate-800 p-1 rounded-lg">
-            <button
-              onClick={() => setActiveTab('calculator')}
-              className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${
-                activeTab === 'calculator'
-                  ? 'bg-white dark:bg-slate-700 text-primary-600 dark:text-primary-400 shadow-sm'
-                  : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200'
-              }`}
-            >
-              Calculator
-            </button>
+          {session && (
+            <nav className="flex items-center bg-slate-100 dark:bg-slate-800 p-1 rounded-lg">
+              {canOpenTab(session, 'calculator') && (
+                <button
+                  onClick={() => setActiveTab('calculator')}
+                  className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${
+                    activeTab === 'calculator'
+                      ? 'bg-white dark:bg-slate-700 text-primary-600 dark:text-primary-400 shadow-sm'
+                      : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200'
+                  }`}
+                >
+                  Calculator
+                </button>
+              )}
+              {canOpenTab(session, 'batch') && (
+                <button
+                  onClick={() => setActiveTab('batch')}
+                  className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${
+                    activeTab === 'batch'
+                      ? 'bg-white dark:bg-slate-700 text-primary-600 dark:text-primary-400 shadow-sm'
+                      : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200'
+                  }`}
+                >
+                  Batch
+                </button>
+              )}
+              {canOpenTab(session, 'admin') && (
+                <button
+                  onClick={() => setActiveTab('admin')}
+                  className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${
+                    activeTab === 'admin'
+                      ? 'bg-white dark:bg-slate-700 text-primary-600 dark:text-primary-400 shadow-sm'
+                      : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200'
+                  }`}
+                >
+                  Admin Panel
+                </button>
+              )}
+            </nav>
+          )}
+
+          <div className="flex items-center space-x-2">
+            {session && (
+              <div className="flex items-center space-x-2">
+                <div className="text-right hidden md:block">
+                  <p className="text-xs font-bold text-slate-700 dark:text-slate-200">{session.name}</p>
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{ROLE_LABELS[session.role]}</p>
+                </div>
+                <button
+                  onClick={onSignOut}
+                  className="text-[10px] text-slate-500 font-black tracking-widest border border-slate-200 dark:border-slate-700 px-3 py-1 rounded hover:bg-slate-50 dark:hover:bg-slate-800 transition-all"
+                >
+                  SIGN OUT
+                </button>
+              </div>
+            )}
             <button
-              onClick={() => setActiveTab('admin')}
-              className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${
-                activeTab === 'admin'
-                  ? 'bg-white dark:bg-slate-700 text-primary-600 dark:text-primary-400 shadow-sm'
-                  : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200'
-              }`}
+              onClick={toggleDarkMode}
+              className="p-2 text-slate-500 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800 rounded-lg transition-colors"
             >
-              Admin Panel
+              {isDarkMode ? (
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4-9H3m15.364-6.364l-.707.707M6.343 17.657l-.707.707M16.95 17.657l.707.707M7.05 7.05l.707-.707M12 8a4 4 0 100 8 4 4 0 000-8z" />
+                </svg>
+              ) : (
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
+                </svg>
+              )}
             </button>
-          </nav>
-
-          <button
-            onClick={toggleDarkMode}
-            className="p-2 text-slate-500 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800 rounded-lg transition-colors"
-          >
-            {isDarkMode ? (
-              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4-9H3m15.364-6.364l-.707.707M6.343 17.657l-.707.707M16.95 17.657l.707.707M7.05 7.05l.707-.707M12 8a4 4 0 100 8 4 4 0 000-8z" />
-              </svg>
-            ) : (
-              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
-              </svg>
-            )}
-          </button>
+          </div>
         </div>
       </div>
     </header>
@@ -0,0 +1,214 @@
+
+import React, { useEffect, useState } from 'react';
+import { Incident, IncidentStatus, RiskLevel } from '../types';
+import { getIncident, listIncidents } from '../services/historyStore';
+import { loadAccounts, roleCan } from '../services/accessControl';
+import {
+  ACTIVE_INCIDENT_STATUSES,
+  ESCALATION_HOURS,
+  INCIDENT_STATUS_LABELS,
+  advanceIncident,
+  assignIncident,
+  commentOnIncident,
+  formatElapsed,
+  nextIncidentStatus,
+  summarizeIncidents
+} from '../services/incidents';
+
+interface IncidentsPanelProps {
+  revision: number;
+  actor: string; // the signed-in supervisor or admin
+  onChanged: () => void;
+}
+
+const inputClass = "w-full px-2 py-1.5 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-xs text-slate-900 dark:text-white";
+
+const STATUS_STYLES: Record<IncidentStatus, string> = {
+  [IncidentStatus.OPEN]: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  [IncidentStatus.ACKNOWLEDGED]: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  [IncidentStatus.CORRECTIVE_ACTION]: 'bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-400',
+  [IncidentStatus.CLOSED]: 'bg-slate-100 text-slate-500 dark:bg-slate-700/50 dark:text-slate-400'
+};
+
+const ADVANCE_LABELS: Partial<Record<IncidentStatus, string>> = {
+  [IncidentStatus.ACKNOWLEDGED]: 'Acknowledge',
+  [IncidentStatus.CORRECTIVE_ACTION]: 'Record Corrective Action',
+  [IncidentStatus.CLOSED]: 'Close Incident'
+};
+
+const IncidentsPanel: React.FC<IncidentsPanelProps> = ({ revision, actor, onChanged }) => {
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [showClosed, setShowClosed] = useState(false);
+  const [selected, setSelected] = useState<Incident | null>(null);
+  const [note, setNote] = useState('');
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  // Supervisors and admins can own incidents
+  const owners = loadAccounts().filter(a => a.active && roleCan(a.role, 'review')).map(a => a.name);
+
+  useEffect(() => {
+    listIncidents().then(setIncidents);
+    if (selected) getIncident(selected.incident_id).then(i => setSelected(i ?? null));
+  }, [revision]);
+
+  const stats = summarizeIncidents(incidents);
+  const shown = incidents.filter(i => showClosed || ACTIVE_INCIDENT_STATUSES.includes(i.status));
+
+  const apply = (result: Incident | string, success: string) => {
+    if (typeof result === 'string') {
+      setMessage({ text: result, error: true });
+      return;
+    }
+    setSelected(result);
+    setNote('');
+    setMessage({ text: success });
+    onChanged();
+  };
+
+  const next = selected ? nextIncidentStatus(selected) : undefined;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <div>
+          <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Safety Incidents</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">
+            {stats.active} active · {stats.escalated} escalated
+            {stats.mean_hours_to_close !== null && ` · mean time to close ${formatElapsed(stats.mean_hours_to_close * 60 * 60 * 1000)}`}
+          </p>
+        </div>
+        <label className="flex items-center space-x-1 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          <input type="checkbox" checked={showClosed} onChange={e => setShowClosed(e.target.checked)} />
+          <span>Show closed</span>
+        </label>
+      </div>
+
+      {message && (
+        <div className="px-4 py-3 border-b border-slate-100 dark:border-slate-700">
+          <p className={`text-[11px] font-medium ${message.error ? 'text-red-500' : 'text-emerald-600'}`}>{message.text}</p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50 dark:bg-slate-900/30 text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+              <th className="px-6 py-3">Opened</th>
+              <th className="px-6 py-3">Worker</th>
+              <th className="px-6 py-3">Violation</th>
+              <th className="px-6 py-3">Status</th>
+              <th className="px-6 py-3">Owner</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {shown.length > 0 ? shown.map(i => (
+              <tr
+                key={i.incident_id}
+                onClick={() => { setSelected(i); setNote(''); setMessage(null); }}
+                className={`text-sm cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-colors ${selected?.incident_id === i.incident_id ? 'bg-primary-50/50 dark:bg-primary-900/10' : ''}`}
+              >
+                <td className="px-6 py-3">
+                  <span className="block text-xs font-mono text-slate-500">{new Date(i.opened_at).toLocaleString()}</span>
+                  <span className="text-[10px] text-slate-400 font-bold">
+                    {formatElapsed(Date.parse(i.closed_at ?? new Date().toISOString()) - Date.parse(i.opened_at))}{i.closed_at ? ' to close' : ' open'}
+                  </span>
+                </td>
+                <td className="px-6 py-3">
+                  <span className="block text-xs font-black text-slate-900 dark:text-white">{i.employee_name ?? i.employee_id}</span>
+                  <span className="text-[10px] text-slate-400 font-bold uppercase">{i.sector}</span>
+                </td>
+                <td className="px-6 py-3">
+                  <span className={`mr-2 px-1.5 py-0.5 rounded text-[9px] font-black uppercase ${i.risk_level === RiskLevel.CRITICAL ? 'bg-red-600 text-white' : 'bg-orange-500 text-white'}`}>
+                    {i.risk_level}
+                  </span>
+                  <span className="text-xs text-slate-600 dark:text-slate-300">{i.violations[0]}</span>
+                </td>
+                <td className="px-6 py-3 whitespace-nowrap">
+                  <span className={`px-1.5 py-0.5 rounded text-[9px] font-black uppercase ${STATUS_STYLES[i.status]}`}>{INCIDENT_STATUS_LABELS[i.status]}</span>
+                  {i.escalated_at && <span className="ml-1 px-1.5 py-0.5 rounded text-[9px] font-black bg-red-600 text-white">ESCALATED</span>}
+                  {i.provisional && <span title="Held for manual review" className="ml-1 px-1.5 py-0.5 rounded text-[9px] font-black bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">PROVISIONAL</span>}
+                  {i.withdrawn_at && <span className="ml-1 px-1.5 py-0.5 rounded text-[9px] font-black bg-slate-100 text-slate-500 dark:bg-slate-700 dark:text-slate-400">WITHDRAWN</span>}
+                </td>
+                <td className="px-6 py-3 text-xs font-bold text-slate-500">{i.owner ?? '—'}</td>
+              </tr>
+            )) : (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-slate-400 italic font-medium tracking-wide">No {showClosed ? '' : 'active '}incidents.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && (
+        <div className="p-4 border-t border-slate-100 dark:border-slate-700 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            {selected.evidence_image ? (
+              <img src={`data:image/jpeg;base64,${selected.evidence_image}`} alt="Evidence frame" className="w-full rounded-lg border border-slate-200 dark:border-slate-700" />
+            ) : (
+              <p className="text-[11px] text-slate-400 italic">No evidence frame was captured.</p>
+            )}
+            <ul className="space-y-1">
+              {selected.violations.map(v => <li key={v} className="text-xs font-bold text-red-500">{v}</li>)}
+            </ul>
+            <p className="text-[10px] font-bold text-slate-400 uppercase">
+              Acknowledge within {ESCALATION_HOURS[selected.risk_level]?.acknowledge} h, close within {ESCALATION_HOURS[selected.risk_level]?.close} h · record {selected.record_id.slice(0, 8)}
+            </p>
+            {selected.corrective_action && (
+              <p className="text-xs text-slate-600 dark:text-slate-300"><span className="font-black uppercase text-[10px] text-slate-400">Corrective action: </span>{selected.corrective_action}</p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            {selected.status !== IncidentStatus.CLOSED && (
+              <select
+                className={inputClass}
+                value={selected.owner ?? ''}
+                onChange={async e => apply(await assignIncident(selected, e.target.value, actor), `Assigned to ${e.target.value}.`)}
+              >
+                <option value="" disabled>Assign an owner…</option>
+                {[...new Set([...owners, ...(selected.owner ? [selected.owner] : [])])].map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            )}
+            <textarea
+              className={inputClass}
+              rows={2}
+              placeholder={next === IncidentStatus.CORRECTIVE_ACTION ? 'Corrective action taken, or a comment' : next === IncidentStatus.CLOSED ? 'Closing note, or a comment' : 'Comment'}
+              value={note}
+              onChange={e => setNote(e.target.value)}
+            />
+            <div className="flex space-x-2">
+              {next && (
+                <button
+                  onClick={async () => apply(await advanceIncident(selected, actor, note), `Incident is now ${INCIDENT_STATUS_LABELS[next].toLowerCase()}.`)}
+                  className="flex-1 py-1.5 bg-primary-600 hover:bg-primary-700 text-white text-[10px] font-black rounded-lg uppercase tracking-widest"
+                >
+                  {ADVANCE_LABELS[next]}
+                </button>
+              )}
+              <button
+                onClick={async () => apply(await commentOnIncident(selected, actor, note), 'Comment added.')}
+                className="flex-1 py-1.5 border border-slate-200 dark:border-slate-700 text-slate-500 text-[10px] font-black rounded-lg uppercase tracking-widest hover:bg-slate-50 dark:hover:bg-slate-900/20"
+              >
+                Comment
+              </button>
+            </div>
+            <div className="space-y-1 max-h-48 overflow-y-auto">
+              {[...selected.events].reverse().map((e, i) => (
+                <p key={i} className={`text-[11px] ${e.escalation ? 'text-red-500 font-bold' : 'text-slate-500'}`}>
+                  <span className="font-mono">{new Date(e.at).toLocaleString()}</span> · <span className="font-bold">{e.by}</span>
+                  {e.status && ` → ${INCIDENT_STATUS_LABELS[e.status]}`}
+                  {e.owner && ` assigned ${e.owner}`}
+                  {e.escalation && ` escalated: ${e.escalation}`}
+                  {e.comment && `: "${e.comment}"`}
+                </p>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IncidentsPanel;
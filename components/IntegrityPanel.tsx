@@ -0,0 +1,77 @@
+
+import React, { useState } from 'react';
+import { IntegrityReport } from '../types';
+import { checkIntegrity } from '../services/historyStore';
+
+const IntegrityPanel: React.FC = () => {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runCheck = async () => {
+    setIsChecking(true);
+    setError(null);
+    try {
+      setReport(await checkIntegrity());
+    } catch (err: any) {
+      setError(`Integrity check failed: ${err.message}`);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <div>
+          <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Audit Integrity</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">
+            {report
+              ? `${report.entry_count} chain entries · ${report.record_count} records · checked ${new Date(report.checked_at).toLocaleString()}`
+              : 'Hash chain over every history write'}
+          </p>
+        </div>
+        <button
+          onClick={runCheck}
+          disabled={isChecking}
+          className="text-[10px] text-primary-600 dark:text-primary-400 font-black tracking-widest border border-primary-200 dark:border-primary-900/40 px-3 py-1 rounded hover:bg-primary-50 dark:hover:bg-primary-950/20 transition-all disabled:opacity-50"
+        >
+          {isChecking ? 'CHECKING…' : 'RUN CHECK'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="px-4 py-3 border-b border-slate-100 dark:border-slate-700">
+          <p className="text-[11px] font-medium text-red-500">{error}</p>
+        </div>
+      )}
+
+      {report && (report.issues.length === 0 ? (
+        <p className="px-6 py-8 text-center text-xs font-black text-emerald-600 uppercase tracking-widest">Chain intact. Every record matches its last audited write.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="bg-slate-50 dark:bg-slate-900/30 text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+                <th className="px-6 py-3">Entry</th>
+                <th className="px-6 py-3">Record</th>
+                <th className="px-6 py-3">Problem</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+              {report.issues.map((issue, i) => (
+                <tr key={i} className="text-sm">
+                  <td className="px-6 py-3 text-xs font-mono text-slate-500">{issue.seq !== undefined ? `#${issue.seq}` : '—'}</td>
+                  <td className="px-6 py-3 text-xs font-mono text-slate-500" title={issue.record_id}>{issue.record_id ? issue.record_id.slice(0, 8) : '—'}</td>
+                  <td className="px-6 py-3 text-xs font-bold text-red-500">{issue.problem}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default IntegrityPanel;
@@ -0,0 +1,96 @@
+
+import React, { useState } from 'react';
+import { UserRole, UserSession } from '../types';
+import { createAccount, loadAccounts, saveAccounts, signIn } from '../services/accessControl';
+
+interface LoginScreenProps {
+  onSignedIn: (session: UserSession) => void;
+  timedOut?: boolean; // the previous session ended on the idle timeout
+}
+
+const inputClass = "w-full px-4 py-2 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-slate-900 dark:text-white";
+
+// Sign-in, or creation of the first admin account on a device that has none
+const LoginScreen: React.FC<LoginScreenProps> = ({ onSignedIn, timedOut }) => {
+  const [isSetup, setIsSetup] = useState(() => loadAccounts().length === 0);
+  const [name, setName] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      if (isSetup) {
+        if (pin !== confirmPin) {
+          setError('The PINs do not match.');
+          return;
+        }
+        const accounts = await createAccount([], name, UserRole.ADMIN, pin);
+        if (typeof accounts === 'string') {
+          setError(accounts);
+          return;
+        }
+        saveAccounts(accounts);
+        setIsSetup(false);
+      }
+      const session = await signIn(name, pin);
+      if (typeof session === 'string') {
+        setError(session);
+        setPin('');
+        return;
+      }
+      onSignedIn(session);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex items-center justify-center px-4 py-16">
+      <form onSubmit={submit} className="w-full max-w-sm bg-white dark:bg-slate-800 p-8 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 space-y-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white flex items-center">
+            <span className="w-2 h-6 bg-primary-600 rounded-full mr-3"></span>
+            {isSetup ? 'Create Admin Account' : 'Sign In'}
+          </h2>
+          <p className="text-xs text-slate-500 mt-2">
+            {isSetup
+              ? 'No accounts exist on this terminal yet. The first account is an admin, who then adds operators and supervisors.'
+              : timedOut ? 'Your session ended after a period of inactivity.' : 'Use your name and PIN or password.'}
+          </p>
+        </div>
+
+        {error && <p className="text-[11px] font-medium text-red-500">{error}</p>}
+
+        <div className="space-y-1">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Name</label>
+          <input className={inputClass} value={name} onChange={e => setName(e.target.value)} autoComplete="username" autoFocus required />
+        </div>
+        <div className="space-y-1">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-widest">PIN / Password</label>
+          <input type="password" className={inputClass} value={pin} onChange={e => setPin(e.target.value)} autoComplete={isSetup ? 'new-password' : 'current-password'} required />
+        </div>
+        {isSetup && (
+          <div className="space-y-1">
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Confirm PIN / Password</label>
+            <input type="password" className={inputClass} value={confirmPin} onChange={e => setConfirmPin(e.target.value)} autoComplete="new-password" required />
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={busy}
+          className="w-full py-3 bg-primary-600 hover:bg-primary-700 disabled:bg-slate-400 text-white text-xs font-black rounded-xl uppercase tracking-widest"
+        >
+          {isSetup ? 'Create & Sign In' : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,210 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ActivityLevel, MonitoringSample, RiskLevel, ShiftSession } from '../types';
+import { analyzeFrame } from '../services/payrollService';
+import { AnalysisError } from '../services/analysisErrors';
+import { formatZonedDateTime, zonedDateTimeToUtc } from '../services/shiftTime';
+import {
+  DUPLICATE_THRESHOLD,
+  MIN_INTERVAL_SECONDS,
+  aggregateSamples,
+  frameDifference,
+  frameSignature,
+  getMonitoringInterval,
+  setMonitoringInterval,
+  toSample
+} from '../services/monitoring';
+
+interface MonitoringPanelProps {
+  session?: ShiftSession;
+  breakMinutes?: number;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  captureImage: () => string | null;
+  onSample: (shiftId: string, sample: MonitoringSample) => void;
+}
+
+const ACTIVITY_COLORS: Record<ActivityLevel, string> = {
+  [ActivityLevel.HIGH]: 'bg-emerald-500',
+  [ActivityLevel.MEDIUM]: 'bg-primary-500',
+  [ActivityLevel.LOW]: 'bg-amber-400',
+  [ActivityLevel.NOT_PRESENT]: 'bg-red-500'
+};
+
+const VISIBLE_SAMPLES = 8;
+
+const formatClock = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const MonitoringPanel: React.FC<MonitoringPanelProps> = ({ session, breakMinutes, videoRef, captureImage, onSample }) => {
+  const [active, setActive] = useState(false);
+  const [intervalSeconds, setIntervalSeconds] = useState<number>(getMonitoringInterval);
+  const [busy, setBusy] = useState(false);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  const lastSignature = useRef<Uint8ClampedArray | null>(null);
+  const inFlight = useRef(false);
+
+  const shiftId = session?.shift_id;
+
+  // Monitoring belongs to one shift; switching employee or closing the shift stops it
+  useEffect(() => {
+    setActive(false);
+    setLastError(null);
+    lastSignature.current = null;
+  }, [shiftId]);
+
+  useEffect(() => {
+    if (!active || !session) return;
+
+    const takeSample = async () => {
+      if (inFlight.current || !videoRef.current) return;
+      const sampledAt = new Date();
+      setNow(sampledAt);
+
+      const signature = frameSignature(videoRef.current);
+      if (!signature) return;
+      if (lastSignature.current && frameDifference(signature, lastSignature.current) < DUPLICATE_THRESHOLD) {
+        onSample(session.shift_id, { sampled_at: sampledAt.toISOString(), skipped: true });
+        return;
+      }
+
+      inFlight.current = true;
+      setBusy(true);
+      try {
+        const { analysis } = await analyzeFrame({
+          employee_id: session.employee_id,
+          sector: session.sector,
+          time_zone: session.time_zone,
+          check_in_time: session.check_in_time,
+          current_time: formatZonedDateTime(sampledAt, session.time_zone),
+          break_minutes: breakMinutes,
+          worker_image: captureImage() || undefined
+        });
+        lastSignature.current = signature;
+        onSample(session.shift_id, toSample(analysis, session.sector, sampledAt));
+        setLastError(null);
+      } catch (err: any) {
+        setLastError(err instanceof AnalysisError ? `${err.title} (${err.message})` : err.message || 'Sample failed.');
+      } finally {
+        inFlight.current = false;
+        setBusy(false);
+      }
+    };
+
+    takeSample();
+    const timer = setInterval(takeSample, intervalSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [active, shiftId, intervalSeconds]);
+
+  const changeInterval = (seconds: number) => {
+    if (!Number.isFinite(seconds)) return;
+    setMonitoringInterval(seconds);
+    setIntervalSeconds(getMonitoringInterval());
+  };
+
+  if (!session) return null;
+
+  const samples = session.samples ?? [];
+  const analyzed = samples.filter(s => !s.skipped);
+  const aggregate = aggregateSamples(samples, now);
+  const shiftStart = zonedDateTimeToUtc(session.check_in_time, session.time_zone).getTime();
+  const span = Math.max(1, now.getTime() - shiftStart);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <div>
+          <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Shift Monitoring</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">{session.employee_id} · since {session.check_in_time.replace('T', ' ')}</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <label className="flex items-center space-x-1 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+            <span>Every</span>
+            <input
+              type="number"
+              min={MIN_INTERVAL_SECONDS}
+              value={intervalSeconds}
+              onChange={e => changeInterval(Number(e.target.value))}
+              className="w-16 px-2 py-1 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded outline-none text-slate-900 dark:text-white font-mono"
+            />
+            <span>s</span>
+          </label>
+          <button
+            type="button"
+            onClick={() => setActive(a => !a)}
+            className={`text-[10px] font-black tracking-widest border px-3 py-1 rounded ${
+              active ? 'border-red-300 text-red-600 dark:border-red-800 dark:text-red-400' : 'border-primary-300 text-primary-600 dark:border-primary-800 dark:text-primary-400'
+            }`}
+          >
+            {active ? 'STOP' : 'START'}
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {lastError && (
+          <p className="text-[10px] font-bold text-red-500 uppercase">{lastError}</p>
+        )}
+
+        {/* Timeline: each analyzed sample holds until the next one */}
+        <div>
+          <div className="flex justify-between text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">
+            <span>Check-in</span>
+            <span>{active ? (busy ? 'Analyzing…' : 'Live') : 'Paused'}</span>
+          </div>
+          <div className="relative h-4 bg-slate-100 dark:bg-slate-900/50 rounded overflow-hidden">
+            {analyzed.map((s, i) => {
+              const start = Date.parse(s.sampled_at);
+              const end = i + 1 < analyzed.length ? Date.parse(analyzed[i + 1].sampled_at) : now.getTime();
+              return (
+                <div
+                  key={s.sampled_at}
+                  title={`${formatClock(s.sampled_at)} · ${s.activity_level} · ${s.efficiency_percentage}%`}
+                  className={`absolute top-0 bottom-0 ${ACTIVITY_COLORS[s.activity_level!]} ${s.ppe_compliant ? '' : 'opacity-60'}`}
+                  style={{ left: `${((start - shiftStart) / span) * 100}%`, width: `${(Math.max(0, end - start) / span) * 100}%` }}
+                />
+              );
+            })}
+          </div>
+        </div>
+
+        {aggregate ? (
+          <div className="grid grid-cols-4 gap-2">
+            {[
+              { label: 'Efficiency', value: `${aggregate.efficiency_percentage}%` },
+              { label: 'PPE', value: `${aggregate.ppe_compliance_percentage}%` },
+              { label: 'Risk', value: aggregate.risk_level.toUpperCase() },
+              { label: 'Samples', value: `${aggregate.sample_count}/${samples.length}` }
+            ].map(tile => (
+              <div key={tile.label} className="p-2 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-100 dark:border-slate-700 text-center">
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{tile.label}</p>
+                <p className="text-xs font-black text-slate-700 dark:text-slate-300 tabular-nums">{tile.value}</p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-slate-400 italic font-medium tracking-wide text-sm">No samples analyzed for this shift yet.</p>
+        )}
+
+        {samples.length > 0 && (
+          <ul className="divide-y divide-slate-100 dark:divide-slate-700 max-h-48 overflow-y-auto">
+            {[...samples].reverse().slice(0, VISIBLE_SAMPLES).map(s => (
+              <li key={s.sampled_at} className="py-1.5 flex justify-between text-[10px] font-bold uppercase">
+                <span className="font-mono text-slate-500">{formatClock(s.sampled_at)}</span>
+                {s.skipped ? (
+                  <span className="text-slate-400">Unchanged frame · skipped</span>
+                ) : (
+                  <span className={s.risk_level === RiskLevel.HIGH || s.risk_level === RiskLevel.CRITICAL ? 'text-red-500' : 'text-slate-600 dark:text-slate-300'}>
+                    {s.activity_level!.replace('_', ' ')} · {s.efficiency_percentage}% · {s.ppe_compliant ? 'PPE OK' : 'PPE MISSING'} · {s.risk_level}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MonitoringPanel;
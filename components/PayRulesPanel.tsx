@@ -0,0 +1,127 @@
+
+import React, { useState } from 'react';
+import { PayRules } from '../types';
+import {
+  DEFAULT_PAY_RULES,
+  formatHolidays,
+  loadPayRules,
+  parseHolidays,
+  savePayRules,
+  validatePayRules
+} from '../services/payRules';
+
+const inputClass = "w-full px-2 py-1.5 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-xs text-slate-900 dark:text-white";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1";
+
+const PayRulesPanel: React.FC = () => {
+  const [rules, setRules] = useState<PayRules>(loadPayRules);
+  const [holidayText, setHolidayText] = useState(() => formatHolidays(loadPayRules().holidays));
+  const [messages, setMessages] = useState<{ text: string; error?: boolean }[]>([]);
+
+  const setNumber = (field: keyof PayRules, value: string) => setRules(prev => ({ ...prev, [field]: Number(value) }));
+
+  const save = () => {
+    const parsed = parseHolidays(holidayText);
+    const next = { ...rules, holidays: parsed.holidays };
+    const error = validatePayRules(next);
+    if (error || parsed.errors.length > 0) {
+      setMessages([...(error ? [{ text: error, error: true }] : []), ...parsed.errors.map(text => ({ text, error: true }))]);
+      return;
+    }
+    savePayRules(next);
+    setRules(next);
+    setHolidayText(formatHolidays(next.holidays));
+    setMessages([{ text: `Pay rules saved with ${next.holidays.length} holiday(s). They apply to verifications from now on.` }]);
+  };
+
+  const reset = () => {
+    setRules({ ...DEFAULT_PAY_RULES, holidays: rules.holidays });
+    setMessages([{ text: 'Default thresholds and multipliers restored. Save to apply them.' }]);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <div>
+          <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Pay Rules</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">Overtime · night differential · public holidays</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={reset}
+            className="text-[10px] text-slate-500 font-black tracking-widest border border-slate-200 dark:border-slate-700 px-3 py-1 rounded hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-all"
+          >
+            DEFAULTS
+          </button>
+          <button
+            onClick={save}
+            className="text-[10px] text-primary-600 dark:text-primary-400 font-black tracking-widest border border-primary-200 dark:border-primary-900/40 px-3 py-1 rounded hover:bg-primary-50 dark:hover:bg-primary-950/20 transition-all"
+          >
+            SAVE
+          </button>
+        </div>
+      </div>
+
+      {messages.length > 0 && (
+        <div className="px-4 py-3 space-y-1 border-b border-slate-100 dark:border-slate-700 max-h-32 overflow-y-auto">
+          {messages.map((m, i) => (
+            <p key={i} className={`text-[11px] font-medium ${m.error ? 'text-red-500' : 'text-emerald-600'}`}>{m.text}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="p-4 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="grid grid-cols-2 gap-3">
+          <label>
+            <span className={labelClass}>Overtime after (h/shift)</span>
+            <input type="number" min={1} max={24} step={0.5} className={inputClass} value={rules.daily_overtime_hours} onChange={e => setNumber('daily_overtime_hours', e.target.value)} />
+          </label>
+          <label>
+            <span className={labelClass}>Overtime after (h/week)</span>
+            <input type="number" min={1} max={168} step={1} className={inputClass} value={rules.weekly_overtime_hours} onChange={e => setNumber('weekly_overtime_hours', e.target.value)} />
+          </label>
+          <label>
+            <span className={labelClass}>Overtime multiplier</span>
+            <input type="number" min={1} step={0.05} className={inputClass} value={rules.overtime_multiplier} onChange={e => setNumber('overtime_multiplier', e.target.value)} />
+          </label>
+          <label>
+            <span className={labelClass}>Holiday multiplier</span>
+            <input type="number" min={1} step={0.05} className={inputClass} value={rules.holiday_multiplier} onChange={e => setNumber('holiday_multiplier', e.target.value)} />
+          </label>
+          <label>
+            <span className={labelClass}>Night from</span>
+            <input type="time" className={inputClass} value={rules.night_start} onChange={e => setRules({ ...rules, night_start: e.target.value })} />
+          </label>
+          <label>
+            <span className={labelClass}>Night until</span>
+            <input type="time" className={inputClass} value={rules.night_end} onChange={e => setRules({ ...rules, night_end: e.target.value })} />
+          </label>
+          <label className="col-span-2">
+            <span className={labelClass}>Night differential (% of rate)</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              className={inputClass}
+              value={Math.round(rules.night_differential * 100)}
+              onChange={e => setRules({ ...rules, night_differential: Number(e.target.value) / 100 })}
+            />
+          </label>
+        </div>
+        <label>
+          <span className={labelClass}>Public holidays (YYYY-MM-DD Name, one per line)</span>
+          <textarea
+            rows={9}
+            className={`${inputClass} font-mono`}
+            placeholder={'2026-12-25 Christmas Day\n2026-12-26 Day of Goodwill'}
+            value={holidayText}
+            onChange={e => setHolidayText(e.target.value)}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default PayRulesPanel;
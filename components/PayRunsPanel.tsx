@@ -0,0 +1,275 @@
+
+import React, { useEffect, useState } from 'react';
+import { PayPeriodFrequency, PayRun, PayRunAction, PayRunStatus } from '../types';
+import {
+  PAY_PERIOD_LABELS,
+  PayPeriodSettings,
+  approvePayRun,
+  countLateRecords,
+  createPayRun,
+  loadPayPeriodSettings,
+  payPeriodFor,
+  recalculatePayRun,
+  reopenPayRun,
+  savePayPeriodSettings
+} from '../services/payRuns';
+import { deletePayRun, listPayRuns } from '../services/historyStore';
+import { formatZonedDateTime, getLocalTimeZone } from '../services/shiftTime';
+
+interface PayRunsPanelProps {
+  revision: number; // bumped whenever the archive changes
+  onRecordsChanged: () => void; // records were locked or released
+  actor: string; // the signed-in supervisor, recorded in run history
+}
+
+const ACTION_LABELS: Record<PayRunAction, string> = {
+  [PayRunAction.CREATED]: 'Created',
+  [PayRunAction.RECALCULATED]: 'Recalculated',
+  [PayRunAction.APPROVED]: 'Approved & locked',
+  [PayRunAction.REOPENED]: 'Reopened'
+};
+
+const inputClass = "px-2 py-1.5 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-xs text-slate-900 dark:text-white";
+const buttonClass = "text-[10px] text-primary-600 dark:text-primary-400 font-black tracking-widest border border-primary-200 dark:border-primary-900/40 px-3 py-1 rounded hover:bg-primary-50 dark:hover:bg-primary-950/20 transition-all disabled:opacity-40";
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+
+const PayRunsPanel: React.FC<PayRunsPanelProps> = ({ revision, onRecordsChanged, actor }) => {
+  const [settings, setSettings] = useState<PayPeriodSettings>(loadPayPeriodSettings);
+  const [date, setDate] = useState(() => formatZonedDateTime(new Date(), getLocalTimeZone()).slice(0, 10));
+  const [runs, setRuns] = useState<PayRun[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [lateCount, setLateCount] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const selected = runs.find(r => r.run_id === selectedId) ?? null;
+  const period = payPeriodFor(date, settings);
+
+  const refresh = () => listPayRuns().then(setRuns).catch(err => console.error("Pay runs unavailable", err));
+
+  useEffect(() => { refresh(); }, [revision]);
+
+  useEffect(() => {
+    if (!selected) return;
+    countLateRecords(selected).then(setLateCount).catch(() => setLateCount(0));
+  }, [selected?.run_id, selected?.status, revision]);
+
+  const changeSettings = (next: PayPeriodSettings) => {
+    savePayPeriodSettings(next);
+    setSettings(next);
+  };
+
+  // Runs an action that yields the updated run or a reason it was refused
+  const act = async (action: () => Promise<PayRun | string>, success: string, locksChange = false) => {
+    setBusy(true);
+    try {
+      const result = await action();
+      if (typeof result === 'string') {
+        setMessage({ text: result, error: true });
+      } else {
+        setSelectedId(result.run_id);
+        setMessage({ text: success });
+        setReason('');
+        if (locksChange) onRecordsChanged();
+      }
+    } catch (err: any) {
+      setMessage({ text: err.message, error: true });
+    } finally {
+      await refresh();
+      setBusy(false);
+    }
+  };
+
+  const discard = async (run: PayRun) => {
+    if (!confirm(`Discard the draft run for ${run.period_start} to ${run.period_end}?`)) return;
+    await deletePayRun(run.run_id);
+    setSelectedId(null);
+    setMessage({ text: 'Draft discarded.' });
+    refresh();
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex flex-wrap gap-3 justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <div>
+          <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Pay Runs</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">Period {period.start} → {period.end}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={settings.frequency}
+            onChange={e => changeSettings({ ...settings, frequency: e.target.value as PayPeriodFrequency })}
+            className="px-2 py-1 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg outline-none text-[10px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-400"
+          >
+            {Object.values(PayPeriodFrequency).map(f => <option key={f} value={f}>{PAY_PERIOD_LABELS[f]}</option>)}
+          </select>
+          {settings.frequency !== PayPeriodFrequency.MONTHLY && (
+            <input
+              type="date"
+              title="First day of any past pay period"
+              className={inputClass}
+              value={settings.anchor}
+              onChange={e => e.target.value && changeSettings({ ...settings, anchor: e.target.value })}
+            />
+          )}
+          <input type="date" title="Any day in the period to run" className={inputClass} value={date} onChange={e => e.target.value && setDate(e.target.value)} />
+          <button
+            disabled={busy}
+            onClick={() => act(() => createPayRun(runs, period, settings.frequency, actor), 'Draft run created. Review it before approving.')}
+            className={buttonClass}
+          >
+            NEW RUN
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className="px-4 py-3 border-b border-slate-100 dark:border-slate-700">
+          <p className={`text-[11px] font-medium ${message.error ? 'text-red-500' : 'text-emerald-600'}`}>{message.text}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3">
+        <div className="border-b lg:border-b-0 lg:border-r border-slate-100 dark:border-slate-700 max-h-[480px] overflow-y-auto">
+          {runs.length > 0 ? runs.map(run => (
+            <button
+              key={run.run_id}
+              onClick={() => { setSelectedId(run.run_id); setMessage(null); }}
+              className={`w-full text-left px-6 py-3 border-b border-slate-100 dark:border-slate-700 transition-colors ${
+                run.run_id === selectedId ? 'bg-primary-50 dark:bg-primary-950/20' : 'hover:bg-slate-50 dark:hover:bg-slate-900/20'
+              }`}
+            >
+              <div className="flex justify-between items-center">
+                <span className="text-xs font-black font-mono text-slate-900 dark:text-white">{run.period_start} → {run.period_end}</span>
+                <span className={`px-2 py-0.5 rounded-full text-[10px] font-black tracking-tighter ${
+                  run.status === PayRunStatus.LOCKED ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400' : 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+                }`}>
+                  {run.status.toUpperCase()}
+                </span>
+              </div>
+              <span className="text-[10px] text-slate-400 font-bold uppercase">
+                {PAY_PERIOD_LABELS[run.frequency]} · {run.totals.employee_count} employee(s) · {money(run.totals.gross_pay)}
+              </span>
+            </button>
+          )) : (
+            <p className="px-6 py-12 text-center text-slate-400 italic font-medium tracking-wide text-sm">No pay runs yet.</p>
+          )}
+        </div>
+
+        <div className="lg:col-span-2">
+          {selected ? (
+            <>
+              <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="bg-slate-50 dark:bg-slate-900/30 text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+                      <th className="px-4 py-3">Employee</th>
+                      <th className="px-4 py-3 text-right">Shifts</th>
+                      <th className="px-4 py-3 text-right">Hours</th>
+                      <th className="px-4 py-3 text-right">Base</th>
+                      <th className="px-4 py-3 text-right">Adjustments</th>
+                      <th className="px-4 py-3 text-right">Gross</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                    {selected.lines.map(line => (
+                      <tr key={line.employee_id} className="text-sm">
+                        <td className="px-4 py-2">
+                          <span className="block font-black font-mono text-slate-900 dark:text-white">
+                            {line.employee_id}
+                            {line.flagged_count > 0 && (
+                              <span className="ml-2 px-1.5 py-0.5 rounded text-[9px] font-black bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">{line.flagged_count} FLAGGED</span>
+                            )}
+                          </span>
+                          <span className="text-[10px] text-slate-400 font-bold uppercase">{line.employee_name ?? line.sector}</span>
+                        </td>
+                        <td className="px-4 py-2 text-right text-xs font-mono">{line.shift_count}</td>
+                        <td className="px-4 py-2 text-right text-xs font-mono">{line.hours_worked.toFixed(2)}</td>
+                        <td className="px-4 py-2 text-right text-xs font-mono">{money(line.base_salary)}</td>
+                        <td className={`px-4 py-2 text-right text-xs font-mono ${line.adjustment_total < 0 ? 'text-red-500' : 'text-emerald-600'}`}>
+                          {line.adjustment_total < 0 ? '-' : '+'}{money(Math.abs(line.adjustment_total))}
+                        </td>
+                        <td className="px-4 py-2 text-right text-xs font-black text-primary-600 dark:text-primary-400">{money(line.gross_pay)}</td>
+                      </tr>
+                    ))}
+                    <tr className="text-sm bg-slate-50 dark:bg-slate-900/30 font-black">
+                      <td className="px-4 py-2 text-[10px] uppercase tracking-widest text-slate-500">Total · {selected.totals.employee_count} employee(s)</td>
+                      <td className="px-4 py-2 text-right text-xs font-mono">{selected.totals.shift_count}</td>
+                      <td className="px-4 py-2 text-right text-xs font-mono">{selected.totals.hours_worked.toFixed(2)}</td>
+                      <td className="px-4 py-2 text-right text-xs font-mono">{money(selected.totals.base_salary)}</td>
+                      <td className="px-4 py-2 text-right text-xs font-mono">
+                        {selected.totals.adjustment_total < 0 ? '-' : '+'}{money(Math.abs(selected.totals.adjustment_total))}
+                      </td>
+                      <td className="px-4 py-2 text-right text-xs text-primary-600 dark:text-primary-400">{money(selected.totals.gross_pay)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="p-4 flex flex-wrap items-center gap-2 border-t border-slate-100 dark:border-slate-700">
+                {selected.status === PayRunStatus.DRAFT ? (
+                  <>
+                    <button disabled={busy} onClick={() => act(() => recalculatePayRun(selected, actor), 'Run recalculated.')} className={buttonClass}>
+                      RECALCULATE
+                    </button>
+                    <button
+                      disabled={busy}
+                      onClick={() => {
+                        if (selected.totals.flagged_count > 0 && !confirm(`${selected.totals.flagged_count} flagged shift(s) are in this run. Approve anyway?`)) return;
+                        act(() => approvePayRun(selected, actor), 'Run approved and locked.', true);
+                      }}
+                      className="py-1.5 px-4 bg-primary-600 hover:bg-primary-700 disabled:bg-slate-400 text-white text-[10px] font-black rounded-lg uppercase tracking-widest"
+                    >
+                      Approve & Lock
+                    </button>
+                    <button
+                      disabled={busy}
+                      onClick={() => discard(selected)}
+                      className="text-[10px] text-red-500 hover:text-red-700 font-black tracking-widest border border-red-200 dark:border-red-900/40 px-3 py-1 rounded hover:bg-red-50 dark:hover:bg-red-950/20 transition-all disabled:opacity-40"
+                    >
+                      DISCARD
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <input className={`${inputClass} flex-1 min-w-[160px]`} placeholder="Reason for reopening" value={reason} onChange={e => setReason(e.target.value)} />
+                    <button
+                      disabled={busy}
+                      onClick={() => act(() => reopenPayRun(selected, actor, reason), 'Run reopened; its records are unlocked.', true)}
+                      className="text-[10px] text-red-500 hover:text-red-700 font-black tracking-widest border border-red-200 dark:border-red-900/40 px-3 py-1 rounded hover:bg-red-50 dark:hover:bg-red-950/20 transition-all disabled:opacity-40"
+                    >
+                      REOPEN
+                    </button>
+                  </>
+                )}
+              </div>
+
+              <div className="px-4 pb-4 space-y-1">
+                {lateCount > 0 && (
+                  <p className="text-[11px] font-medium text-amber-600">
+                    {lateCount} verified shift(s) in this period arrived after approval and are not in this run.
+                  </p>
+                )}
+                {selected.history.map((event, i) => (
+                  <p key={i} className="text-[10px] font-mono text-slate-500">
+                    {event.at.slice(0, 16).replace('T', ' ')} · {ACTION_LABELS[event.action]}
+                    {event.by && ` by ${event.by}`}
+                    {event.reason && ` — ${event.reason}`}
+                  </p>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="px-6 py-12 text-center text-slate-400 italic font-medium tracking-wide text-sm">
+              Select a run to review it, or start one for the period above.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PayRunsPanel;
@@ -0,0 +1,179 @@
+
+import React, { useRef, useState } from 'react';
+import { RateCardEntry } from '../types';
+import { SECTOR_POLICIES, getSectorPolicy } from '../services/sectorPolicies';
+import {
+  addRateEntry,
+  loadRateCard,
+  parseRateCardCsv,
+  rateCardToday,
+  removeRateEntry,
+  saveRateCard
+} from '../services/rateCards';
+
+const inputClass = "w-full px-2 py-1.5 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-xs text-slate-900 dark:text-white";
+
+const nextDay = (date: string): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const RateCardPanel: React.FC = () => {
+  const [card, setCard] = useState<RateCardEntry[]>(loadRateCard);
+  const [draft, setDraft] = useState<RateCardEntry>(() => ({
+    sector: SECTOR_POLICIES[0].id,
+    pay_grade: 'G1',
+    hourly_rate: SECTOR_POLICIES[0].base_rate,
+    effective_from: nextDay(rateCardToday())
+  }));
+  const [messages, setMessages] = useState<{ ok: boolean; text: string }[]>([]);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const today = rateCardToday();
+
+  const update = (next: RateCardEntry[]) => {
+    saveRateCard(next);
+    setCard(next);
+  };
+
+  // Took effect and no later entry for the same sector and grade has since
+  const isInForce = (entry: RateCardEntry) =>
+    entry.effective_from <= today && !card.some(o =>
+      o.sector === entry.sector && o.pay_grade === entry.pay_grade && o.effective_from > entry.effective_from && o.effective_from <= today);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const entry = { ...draft, pay_grade: draft.pay_grade.trim().toUpperCase() };
+    const result = addRateEntry(card, entry, today);
+    if (typeof result === 'string') {
+      setMessages([{ ok: false, text: result }]);
+      return;
+    }
+    update(result);
+    setMessages([{ ok: true, text: `${entry.sector} ${entry.pay_grade} at $${entry.hourly_rate}/h from ${entry.effective_from}.` }]);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const { entries, errors } = parseRateCardCsv(await file.text());
+    let next = card;
+    const refused: string[] = [];
+    entries.forEach(entry => {
+      const result = addRateEntry(next, entry, today);
+      if (typeof result === 'string') refused.push(result);
+      else next = result;
+    });
+    update(next);
+    setMessages([
+      { ok: entries.length > refused.length, text: `Imported ${entries.length - refused.length} rate(s) from ${file.name}.` },
+      ...[...errors, ...refused].map(text => ({ ok: false, text }))
+    ]);
+    e.target.value = '';
+  };
+
+  const handleRemove = (entry: RateCardEntry) => {
+    const result = removeRateEntry(card, entry, today);
+    if (typeof result === 'string') {
+      setMessages([{ ok: false, text: result }]);
+      return;
+    }
+    update(result);
+    setMessages([{ ok: true, text: `Withdrew the ${entry.sector} ${entry.pay_grade} rate from ${entry.effective_from}.` }]);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Rate Card</h3>
+        <div className="flex items-center space-x-3">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{card.filter(isInForce).length} rates in force</span>
+          <input ref={fileRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="text-[10px] text-primary-600 dark:text-primary-400 font-black tracking-widest border border-primary-200 dark:border-primary-900/40 px-3 py-1 rounded hover:bg-primary-50 dark:hover:bg-primary-950/20 transition-all"
+          >
+            IMPORT CSV
+          </button>
+        </div>
+      </div>
+
+      <form onSubmit={handleAdd} className="p-4 grid grid-cols-2 md:grid-cols-5 gap-2 border-b border-slate-100 dark:border-slate-700">
+        <select className={inputClass} value={draft.sector} onChange={e => setDraft({ ...draft, sector: e.target.value })}>
+          {SECTOR_POLICIES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+        </select>
+        <input className={`${inputClass} font-mono`} placeholder="Pay grade" value={draft.pay_grade} onChange={e => setDraft({ ...draft, pay_grade: e.target.value.toUpperCase() })} required />
+        <input
+          className={inputClass}
+          type="number"
+          min={0.01}
+          step={0.01}
+          placeholder="Hourly rate"
+          value={draft.hourly_rate}
+          onChange={e => setDraft({ ...draft, hourly_rate: Number(e.target.value) })}
+          required
+        />
+        <input className={inputClass} type="date" title="Effective from (shift date)" value={draft.effective_from} onChange={e => setDraft({ ...draft, effective_from: e.target.value })} required />
+        <button type="submit" className="py-1.5 bg-primary-600 hover:bg-primary-700 text-white text-[10px] font-black rounded-lg uppercase tracking-widest">
+          Schedule Rate
+        </button>
+      </form>
+
+      {messages.length > 0 && (
+        <div className="px-4 py-3 space-y-1 border-b border-slate-100 dark:border-slate-700 max-h-32 overflow-y-auto">
+          {messages.map((m, i) => (
+            <p key={i} className={`text-[11px] font-medium ${m.ok ? 'text-emerald-600' : 'text-red-500'}`}>{m.text}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50 dark:bg-slate-900/30 text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+              <th className="px-6 py-3">Sector</th>
+              <th className="px-6 py-3">Grade</th>
+              <th className="px-6 py-3">Effective From</th>
+              <th className="px-6 py-3 text-right">Rate</th>
+              <th className="px-6 py-3 text-right">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {card.length > 0 ? card.map(entry => {
+              const scheduled = entry.effective_from > today;
+              const inForce = isInForce(entry);
+              return (
+                <tr key={`${entry.sector}|${entry.pay_grade}|${entry.effective_from}`} className={`text-sm hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-colors ${scheduled || inForce ? '' : 'opacity-50'}`}>
+                  <td className="px-6 py-3 text-xs font-bold text-slate-600 dark:text-slate-300">{getSectorPolicy(entry.sector)?.label ?? entry.sector}</td>
+                  <td className="px-6 py-3 text-xs font-mono font-bold text-slate-600 dark:text-slate-300">{entry.pay_grade}</td>
+                  <td className="px-6 py-3 text-xs font-mono text-slate-500">{entry.effective_from}</td>
+                  <td className="px-6 py-3 text-right font-black text-primary-600 dark:text-primary-400">${entry.hourly_rate.toFixed(2)}/H</td>
+                  <td className="px-6 py-3 text-right">
+                    {scheduled ? (
+                      <button
+                        onClick={() => handleRemove(entry)}
+                        title="Withdraw this scheduled rate"
+                        className="px-2 py-0.5 rounded-full text-[10px] font-black tracking-tighter bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400"
+                      >
+                        SCHEDULED ×
+                      </button>
+                    ) : (
+                      <span className={`px-2 py-0.5 rounded-full text-[10px] font-black tracking-tighter ${
+                        inForce ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400' : 'bg-slate-100 text-slate-500 dark:bg-slate-700/50 dark:text-slate-400'
+                      }`}>
+                        {inForce ? 'IN FORCE' : 'SUPERSEDED'}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              );
+            }) : (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-slate-400 italic font-medium tracking-wide">No rates. Every shift is paid at its sector base rate.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RateCardPanel;
@@ -0,0 +1,214 @@
+
+import React, { useEffect, useState } from 'react';
+import { ActivityLevel, Dispute, DisputeStatus, PayrollOutput, PpeFindings } from '../types';
+import { PPE_LABELS, getRecordPpe, getSectorPolicy } from '../services/sectorPolicies';
+import { listRecordDisputes } from '../services/historyStore';
+import { getAiFindings, overrideRecord, rejectDispute, upholdDispute } from '../services/overrides';
+
+interface RecordReviewPanelProps {
+  record: PayrollOutput;
+  dispute?: Dispute; // the open dispute being reviewed, if opened from the queue
+  onClose: () => void;
+  onChanged: (record: PayrollOutput) => void;
+  reviewer: string; // the signed-in supervisor
+}
+
+const inputClass = "w-full px-2 py-1.5 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-xs text-slate-900 dark:text-white";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1";
+
+const DISPUTE_STATUS_STYLES: Record<DisputeStatus, string> = {
+  [DisputeStatus.OPEN]: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  [DisputeStatus.UPHELD]: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+  [DisputeStatus.REJECTED]: 'bg-slate-100 text-slate-500 dark:bg-slate-700/50 dark:text-slate-400'
+};
+
+const yesNo = (worn?: boolean) => (worn ? 'Yes' : 'No');
+
+const RecordReviewPanel: React.FC<RecordReviewPanelProps> = ({ record, dispute, onClose, onChanged, reviewer }) => {
+  const [ppe, setPpe] = useState<PpeFindings>(() => getRecordPpe(record));
+  const [activity, setActivity] = useState<ActivityLevel>(record.activity_level);
+  const [efficiency, setEfficiency] = useState('');
+  const [reason, setReason] = useState('');
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [messages, setMessages] = useState<{ text: string; error?: boolean }[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const ai = getAiFindings(record);
+  const required = getSectorPolicy(record.sector)?.required_ppe ?? [];
+  const current = getRecordPpe(record);
+
+  useEffect(() => {
+    setPpe(getRecordPpe(record));
+    setActivity(record.activity_level);
+    setEfficiency('');
+    if (record.record_id) listRecordDisputes(record.record_id).then(setDisputes);
+  }, [record]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const request = {
+        by: reviewer,
+        reason,
+        ppe,
+        activity_level: activity,
+        efficiency_percentage: efficiency === '' ? undefined : Number(efficiency)
+      };
+      const result = dispute ? await upholdDispute(dispute, record, request) : await overrideRecord(record, request);
+      if (typeof result === 'string') {
+        setMessages([{ text: result, error: true }]);
+        return;
+      }
+      const updated = 'dispute' in result ? result.record : result;
+      setReason('');
+      setMessages([{ text: `Override saved. Pay is now $${updated.final_salary.toFixed(2)} (${updated.adjustment_type}).` }]);
+      onChanged(updated);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const reject = async () => {
+    if (!dispute) return;
+    const result = await rejectDispute(dispute, reviewer, reason);
+    if (typeof result === 'string') {
+      setMessages([{ text: result, error: true }]);
+      return;
+    }
+    setMessages([{ text: 'Dispute rejected. The record is unchanged.' }]);
+    onChanged(record);
+  };
+
+  const rows = [
+    ...required.map(item => ({ label: PPE_LABELS[item], ai: yesNo(ai.ppe[item]), now: yesNo(current[item]) })),
+    { label: 'Activity', ai: ai.activity_level.replace('_', ' '), now: record.activity_level.replace('_', ' ') },
+    { label: 'Risk', ai: ai.risk_level ?? '—', now: record.risk_level },
+    { label: 'Efficiency', ai: `${ai.efficiency_percentage}%`, now: `${record.efficiency_percentage}%` },
+    { label: 'Adjustment', ai: ai.adjustment_type, now: record.adjustment_type },
+    { label: 'Final pay', ai: `$${ai.final_salary.toFixed(2)}`, now: `$${record.final_salary.toFixed(2)}` }
+  ];
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <div>
+          <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">
+            {dispute ? 'Dispute Review' : 'Record Review'} · {record.employee_id}
+          </h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">
+            {record.sector} · {record.shift_date ?? record.timestamp.slice(0, 10)}{record.pay_run_id ? ' · Locked in an approved pay run' : ''}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-[10px] text-slate-500 font-black tracking-widest border border-slate-200 dark:border-slate-700 px-3 py-1 rounded hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-all"
+        >
+          CLOSE
+        </button>
+      </div>
+
+      {messages.length > 0 && (
+        <div className="px-4 py-3 space-y-1 border-b border-slate-100 dark:border-slate-700 max-h-32 overflow-y-auto">
+          {messages.map((m, i) => (
+            <p key={i} className={`text-[11px] font-medium ${m.error ? 'text-red-500' : 'text-emerald-600'}`}>{m.text}</p>
+          ))}
+        </div>
+      )}
+
+      {dispute && (
+        <div className="px-6 py-3 border-b border-slate-100 dark:border-slate-700 bg-amber-50/50 dark:bg-amber-900/10">
+          <p className="text-[10px] font-black text-amber-600 dark:text-amber-400 tracking-widest uppercase mb-1">
+            Raised by {dispute.raised_by} · {new Date(dispute.raised_at).toLocaleString()}
+          </p>
+          <p className="text-xs text-slate-600 dark:text-slate-300 italic">"{dispute.message}"</p>
+        </div>
+      )}
+
+      <div className="p-4 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <table className="w-full text-left self-start">
+          <thead>
+            <tr className="text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+              <th className="py-2">Finding</th>
+              <th className="py-2">AI</th>
+              <th className="py-2">Current</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {rows.map(row => (
+              <tr key={row.label} className="text-xs">
+                <td className="py-2 font-bold text-slate-500 uppercase">{row.label}</td>
+                <td className="py-2 font-mono text-slate-500 uppercase">{row.ai}</td>
+                <td className={`py-2 font-mono font-bold uppercase ${row.ai === row.now ? 'text-slate-600 dark:text-slate-300' : 'text-primary-600 dark:text-primary-400'}`}>{row.now}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <form onSubmit={submit} className="grid grid-cols-2 gap-3">
+          <div className="col-span-2 flex flex-wrap gap-3">
+            {required.map(item => (
+              <label key={item} className="flex items-center space-x-1 text-xs font-bold text-slate-600 dark:text-slate-300">
+                <input type="checkbox" checked={!!ppe[item]} onChange={e => setPpe({ ...ppe, [item]: e.target.checked })} />
+                <span>{PPE_LABELS[item]}</span>
+              </label>
+            ))}
+          </div>
+          <label>
+            <span className={labelClass}>Activity</span>
+            <select className={inputClass} value={activity} onChange={e => setActivity(e.target.value as ActivityLevel)}>
+              {Object.values(ActivityLevel).map(level => <option key={level} value={level}>{level.replace('_', ' ')}</option>)}
+            </select>
+          </label>
+          <label>
+            <span className={labelClass}>Efficiency % (blank to derive)</span>
+            <input type="number" min={0} max={100} step={1} className={inputClass} value={efficiency} onChange={e => setEfficiency(e.target.value)} />
+          </label>
+          <label className="col-span-2">
+            <span className={labelClass}>{dispute ? 'Reason / note' : 'Reason'}</span>
+            <input className={inputClass} value={reason} onChange={e => setReason(e.target.value)} required />
+          </label>
+          <div className="col-span-2 flex space-x-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 py-1.5 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white text-[10px] font-black rounded-lg uppercase tracking-widest"
+            >
+              {dispute ? 'Uphold & Override' : 'Save Override'}
+            </button>
+            {dispute && (
+              <button
+                type="button"
+                onClick={reject}
+                className="flex-1 py-1.5 border border-red-200 dark:border-red-900/40 text-red-500 text-[10px] font-black rounded-lg uppercase tracking-widest hover:bg-red-50 dark:hover:bg-red-950/20"
+              >
+                Reject Dispute
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+
+      {(record.overrides?.length || disputes.length > 0) && (
+        <div className="px-6 py-4 border-t border-slate-100 dark:border-slate-700 space-y-2">
+          {record.overrides?.map((o, i) => (
+            <p key={`o${i}`} className="text-[11px] text-slate-500">
+              <span className="font-mono">{new Date(o.at).toLocaleString()}</span> · <span className="font-bold">{o.by}</span> overrode
+              {o.ppe ? ` ${Object.entries(o.ppe).map(([item, worn]) => `${item} ${worn ? 'worn' : 'missing'}`).join(', ')};` : ''}
+              {o.activity_level ? ` activity ${o.activity_level};` : ''}
+              {' '}efficiency {o.efficiency_percentage}%{o.dispute_id ? ' (dispute upheld)' : ''}: "{o.reason}"
+            </p>
+          ))}
+          {disputes.map(d => (
+            <p key={d.dispute_id} className="text-[11px] text-slate-500">
+              <span className={`mr-2 px-1.5 py-0.5 rounded text-[9px] font-black uppercase ${DISPUTE_STATUS_STYLES[d.status]}`}>{d.status}</span>
+              {d.raised_by}: "{d.message}"{d.resolution_note ? ` · ${d.resolved_by}: "${d.resolution_note}"` : ''}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecordReviewPanel;
@@ -0,0 +1,161 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisRecording, PayrollOutput, RecordingMode } from '../types';
+import {
+  buildRecordingSuite,
+  clearRecordings,
+  getRecordingMode,
+  listRecordings,
+  parseRecordingSuite,
+  putRecordings,
+  setRecordingMode,
+  toReplayInput
+} from '../services/recordingStore';
+import { getAnalysisProvider } from '../services/analysisProviders';
+import { calculatePayroll } from '../services/payrollService';
+import { AnalysisError } from '../services/analysisErrors';
+import { downloadText } from '../services/download';
+
+interface RecordingsPanelProps {
+  onModeChange?: (mode: RecordingMode) => void;
+}
+
+const MODE_LABELS: Record<RecordingMode, string> = {
+  [RecordingMode.OFF]: 'Off',
+  [RecordingMode.RECORD]: 'Record',
+  [RecordingMode.REPLAY]: 'Replay'
+};
+
+const RecordingsPanel: React.FC<RecordingsPanelProps> = ({ onModeChange }) => {
+  const [mode, setMode] = useState<RecordingMode>(getRecordingMode);
+  const [recordings, setRecordings] = useState<AnalysisRecording[]>([]);
+  const [replays, setReplays] = useState<Record<string, PayrollOutput | string>>({});
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listRecordings().then(setRecordings).catch(err => console.error("Recording store unavailable", err));
+
+  useEffect(() => { refresh(); }, []);
+
+  const changeMode = (next: RecordingMode) => {
+    setRecordingMode(next);
+    setMode(next);
+    onModeChange?.(next);
+  };
+
+  const replay = async (recording: AnalysisRecording) => {
+    const provider = getAnalysisProvider(recording.provider);
+    if (!provider) {
+      setReplays(prev => ({ ...prev, [recording.key]: `Provider "${recording.provider}" is not installed on this terminal.` }));
+      return;
+    }
+    try {
+      const result = await calculatePayroll(toReplayInput(recording), undefined, { provider, recordingMode: RecordingMode.REPLAY });
+      setReplays(prev => ({ ...prev, [recording.key]: result }));
+    } catch (err: any) {
+      setReplays(prev => ({ ...prev, [recording.key]: err instanceof AnalysisError ? err.title : err.message }));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      await putRecordings(parseRecordingSuite(await file.text()));
+      await refresh();
+    } catch (err: any) {
+      alert(`Could not import ${file.name}: ${err.message}`);
+    }
+    e.target.value = '';
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Delete all recordings?')) return;
+    await clearRecordings();
+    setReplays({});
+    refresh();
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex flex-wrap gap-3 justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Analysis Recordings</h3>
+        <div className="flex items-center space-x-3">
+          <nav className="flex items-center bg-slate-100 dark:bg-slate-900/50 p-1 rounded-lg">
+            {Object.values(RecordingMode).map(m => (
+              <button
+                key={m}
+                onClick={() => changeMode(m)}
+                className={`px-3 py-1 text-[10px] font-black uppercase tracking-widest rounded-md transition-all ${
+                  mode === m ? 'bg-white dark:bg-slate-700 text-primary-600 dark:text-primary-400 shadow-sm' : 'text-slate-500'
+                }`}
+              >
+                {MODE_LABELS[m]}
+              </button>
+            ))}
+          </nav>
+          <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          <button onClick={() => fileRef.current?.click()} className="text-[10px] text-primary-600 dark:text-primary-400 font-black tracking-widest border border-primary-200 dark:border-primary-900/40 px-3 py-1 rounded">
+            IMPORT SUITE
+          </button>
+          <button
+            onClick={() => downloadText(`phoenix-recordings-${new Date().toISOString().slice(0, 10)}.json`, buildRecordingSuite(recordings))}
+            disabled={recordings.length === 0}
+            className="text-[10px] text-primary-600 dark:text-primary-400 font-black tracking-widest border border-primary-200 dark:border-primary-900/40 px-3 py-1 rounded disabled:opacity-40"
+          >
+            EXPORT SUITE
+          </button>
+          <button onClick={handleClear} className="text-[10px] text-red-500 font-black tracking-widest border border-red-200 dark:border-red-900/40 px-3 py-1 rounded">
+            CLEAR
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50 dark:bg-slate-900/30 text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+              <th className="px-6 py-3">Recorded</th>
+              <th className="px-6 py-3">Employee</th>
+              <th className="px-6 py-3">Model / Prompt</th>
+              <th className="px-6 py-3 text-right">Replay</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {recordings.length > 0 ? recordings.map(r => {
+              const outcome = replays[r.key];
+              return (
+                <tr key={r.key} className="text-sm hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-colors">
+                  <td className="px-6 py-3">
+                    <span className="block text-xs font-mono text-slate-600 dark:text-slate-300">{new Date(r.recorded_at).toLocaleString()}</span>
+                    <span className="block text-[9px] font-mono text-slate-400" title={r.key}>{r.key.slice(0, 16)}</span>
+                  </td>
+                  <td className="px-6 py-3">
+                    <span className="block font-black text-slate-900 dark:text-white">{r.input.employee_id}</span>
+                    <span className="text-[10px] text-slate-400 font-bold uppercase">{r.input.sector}{r.worker_image ? ' · frame' : ''}</span>
+                  </td>
+                  <td className="px-6 py-3 text-[10px] font-mono text-slate-500">{r.model}<br />{r.prompt_version}</td>
+                  <td className="px-6 py-3 text-right">
+                    <button onClick={() => replay(r)} className="text-[10px] font-black tracking-widest text-primary-600 dark:text-primary-400 hover:underline">RUN</button>
+                    {outcome && (
+                      <span className={`block text-[10px] font-bold mt-1 ${typeof outcome === 'string' ? 'text-red-500' : 'text-slate-500'}`}>
+                        {typeof outcome === 'string'
+                          ? outcome
+                          : `${outcome.efficiency_percentage}% · ${outcome.risk_level.toUpperCase()} · $${outcome.final_salary.toFixed(2)}`}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              );
+            }) : (
+              <tr>
+                <td colSpan={4} className="px-6 py-12 text-center text-slate-400 italic font-medium tracking-wide">No recordings. Switch to Record mode to capture live verifications.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RecordingsPanel;
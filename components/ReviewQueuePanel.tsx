@@ -0,0 +1,233 @@
+
+import React, { useEffect, useState } from 'react';
+import { ActivityLevel, ConfidenceThresholds, PayrollOutput, PpeFindings, ReviewDecision, ReviewItem, ReviewStatus } from '../types';
+import { PPE_LABELS, getRecordPpe, getSectorPolicy } from '../services/sectorPolicies';
+import { listReviews } from '../services/historyStore';
+import {
+  REVIEW_DECISION_LABELS,
+  ReviewStats,
+  completeReview,
+  loadConfidenceThresholds,
+  resolveReview,
+  saveConfidenceThresholds,
+  summarizeReviews,
+  validateConfidenceThresholds
+} from '../services/reviewQueue';
+
+interface ReviewQueuePanelProps {
+  revision: number;
+  reviewer: string; // the signed-in supervisor or admin
+  canConfigure: boolean; // thresholds are an admin setting
+  // Stores the released record the way a live verification is stored, less the alerts raised while it was held
+  onRelease: (record: PayrollOutput, item: ReviewItem) => Promise<PayrollOutput>;
+}
+
+const inputClass = "w-full px-2 py-1.5 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-xs text-slate-900 dark:text-white";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1";
+
+const ReviewQueuePanel: React.FC<ReviewQueuePanelProps> = ({ revision, reviewer, canConfigure, onRelease }) => {
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [stats, setStats] = useState<ReviewStats | null>(null);
+  const [selected, setSelected] = useState<ReviewItem | null>(null);
+  const [ppe, setPpe] = useState<PpeFindings>({});
+  const [activity, setActivity] = useState<ActivityLevel>(ActivityLevel.HIGH);
+  const [efficiency, setEfficiency] = useState('');
+  const [reason, setReason] = useState('');
+  const [thresholds, setThresholds] = useState<ConfidenceThresholds>(loadConfidenceThresholds);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const refresh = () => {
+    listReviews(ReviewStatus.PENDING).then(setItems);
+    summarizeReviews().then(setStats);
+  };
+
+  useEffect(refresh, [revision]);
+
+  const select = (item: ReviewItem) => {
+    setSelected(item);
+    setPpe(getRecordPpe(item.record));
+    setActivity(item.record.activity_level);
+    setEfficiency('');
+    setReason('');
+    setMessage(null);
+  };
+
+  const release = async (corrected: boolean) => {
+    if (!selected) return;
+    const correction = corrected
+      ? { reason, ppe, activity_level: activity, efficiency_percentage: efficiency === '' ? undefined : Number(efficiency) }
+      : undefined;
+    const result = resolveReview(selected, reviewer, correction);
+    if (typeof result === 'string') {
+      setMessage({ text: result, error: true });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const stored = await onRelease(result.record, selected);
+      await completeReview(result.item, stored);
+      setSelected(null);
+      setMessage({ text: `${corrected ? 'Corrected' : 'Confirmed'} and saved to history. Pay is $${stored.final_salary.toFixed(2)} (${stored.adjustment_type}).` });
+      refresh();
+    } catch (err: any) {
+      setMessage({ text: `The record could not be saved (${err.message}).`, error: true });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveThresholds = () => {
+    const error = validateConfidenceThresholds(thresholds);
+    if (error) {
+      setMessage({ text: error, error: true });
+      return;
+    }
+    saveConfidenceThresholds(thresholds);
+    setMessage({ text: 'Confidence thresholds saved. They apply to the next verification.' });
+  };
+
+  const record = selected?.record;
+  const required = record ? getSectorPolicy(record.sector)?.required_ppe ?? [] : [];
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-900/20">
+        <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Manual Review Queue</h3>
+        {stats && (
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">
+            {stats.pending} pending · {stats.confirmed} confirmed · {stats.corrected} corrected · {(stats.held_share * 100).toFixed(1)}% of verifications held
+          </p>
+        )}
+      </div>
+
+      {message && (
+        <div className="px-4 py-3 border-b border-slate-100 dark:border-slate-700">
+          <p className={`text-[11px] font-medium ${message.error ? 'text-red-500' : 'text-emerald-600'}`}>{message.text}</p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto max-h-80 overflow-y-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50 dark:bg-slate-900/30 text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+              <th className="px-6 py-3">Held</th>
+              <th className="px-6 py-3">Worker</th>
+              <th className="px-6 py-3">Confidence</th>
+              <th className="px-6 py-3">Why</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {items.length > 0 ? items.map(item => (
+              <tr
+                key={item.review_id}
+                onClick={() => select(item)}
+                className={`text-sm cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-colors ${selected?.review_id === item.review_id ? 'bg-primary-50/50 dark:bg-primary-900/10' : ''}`}
+              >
+                <td className="px-6 py-3 text-xs font-mono text-slate-500">{new Date(item.queued_at).toLocaleString()}</td>
+                <td className="px-6 py-3">
+                  <span className="block text-xs font-black text-slate-900 dark:text-white">{item.record.employee_name ?? item.record.employee_id}</span>
+                  <span className="text-[10px] text-slate-400 font-bold uppercase">{item.record.sector}</span>
+                </td>
+                <td className="px-6 py-3 text-xs font-mono font-bold text-amber-500">{Math.round(item.record.confidence * 100)}%</td>
+                <td className="px-6 py-3 text-xs text-slate-600 dark:text-slate-300">{item.reasons[0]}{item.reasons.length > 1 ? ` (+${item.reasons.length - 1})` : ''}</td>
+              </tr>
+            )) : (
+              <tr>
+                <td colSpan={4} className="px-6 py-12 text-center text-slate-400 italic font-medium tracking-wide">No verifications waiting for review.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && record && (
+        <div className="p-4 border-t border-slate-100 dark:border-slate-700 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            {selected.evidence_image ? (
+              <img src={`data:image/jpeg;base64,${selected.evidence_image}`} alt="Verified frame" className="w-full rounded-lg border border-slate-200 dark:border-slate-700" />
+            ) : (
+              <p className="text-[11px] text-slate-400 italic">No frame was captured.</p>
+            )}
+            <ul className="space-y-1">
+              {selected.reasons.map(r => <li key={r} className="text-xs font-bold text-amber-500">{r}</li>)}
+            </ul>
+            <p className="text-xs text-slate-600 dark:text-slate-300 italic">"{record.explanation}"</p>
+            <p className="text-[10px] font-bold text-slate-400 uppercase">
+              {record.activity_level.replace('_', ' ')} · {record.efficiency_percentage}% · {record.risk_level} risk · ${record.final_salary.toFixed(2)} ({record.adjustment_type})
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 self-start">
+            <button
+              onClick={() => release(false)}
+              disabled={isSaving}
+              className="col-span-2 py-1.5 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white text-[10px] font-black rounded-lg uppercase tracking-widest"
+            >
+              Confirm As Is
+            </button>
+            <div className="col-span-2 flex flex-wrap gap-3">
+              {required.map(item => (
+                <label key={item} className="flex items-center space-x-1 text-xs font-bold text-slate-600 dark:text-slate-300">
+                  <input type="checkbox" checked={!!ppe[item]} onChange={e => setPpe({ ...ppe, [item]: e.target.checked })} />
+                  <span>{PPE_LABELS[item]}</span>
+                </label>
+              ))}
+            </div>
+            <label>
+              <span className={labelClass}>Activity</span>
+              <select className={inputClass} value={activity} onChange={e => setActivity(e.target.value as ActivityLevel)}>
+                {Object.values(ActivityLevel).map(level => <option key={level} value={level}>{level.replace('_', ' ')}</option>)}
+              </select>
+            </label>
+            <label>
+              <span className={labelClass}>Efficiency % (blank to derive)</span>
+              <input type="number" min={0} max={100} step={1} className={inputClass} value={efficiency} onChange={e => setEfficiency(e.target.value)} />
+            </label>
+            <label className="col-span-2">
+              <span className={labelClass}>Reason</span>
+              <input className={inputClass} value={reason} onChange={e => setReason(e.target.value)} />
+            </label>
+            <button
+              onClick={() => release(true)}
+              disabled={isSaving}
+              className="col-span-2 py-1.5 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white text-[10px] font-black rounded-lg uppercase tracking-widest"
+            >
+              Save Correction
+            </button>
+          </div>
+        </div>
+      )}
+
+      {canConfigure && (
+        <div className="p-4 border-t border-slate-100 dark:border-slate-700 space-y-3">
+          <p className={labelClass}>Hold for review when confidence is below (0 turns a gate off)</p>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+            {Object.values(ReviewDecision).map(decision => (
+              <label key={decision}>
+                <span className={labelClass}>{REVIEW_DECISION_LABELS[decision]} %</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={1}
+                  className={inputClass}
+                  value={Math.round(thresholds[decision] * 100)}
+                  onChange={e => setThresholds({ ...thresholds, [decision]: Number(e.target.value) / 100 })}
+                />
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={saveThresholds}
+            className="px-4 py-1.5 bg-primary-600 hover:bg-primary-700 text-white text-[10px] font-black rounded-lg uppercase tracking-widest"
+          >
+            Save Thresholds
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewQueuePanel;
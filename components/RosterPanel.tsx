@@ -0,0 +1,144 @@
+
+import React, { useRef, useState } from 'react';
+import { Employee, EmployeeStatus } from '../types';
+import { SECTOR_POLICIES, getSectorPolicy } from '../services/sectorPolicies';
+import { normalizeEmployeeId, parseRosterCsv, upsertEmployees, validateEmployee } from '../services/rosterStore';
+
+interface RosterPanelProps {
+  roster: Employee[];
+  onChange: (roster: Employee[]) => void;
+}
+
+const EMPTY_EMPLOYEE: Employee = {
+  employee_id: '',
+  name: '',
+  sector: SECTOR_POLICIES[0].id,
+  pay_grade: 'G1',
+  status: EmployeeStatus.ACTIVE,
+  hire_date: new Date().toISOString().slice(0, 10)
+};
+
+const inputClass = "w-full px-2 py-1.5 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-xs text-slate-900 dark:text-white";
+
+const RosterPanel: React.FC<RosterPanelProps> = ({ roster, onChange }) => {
+  const [draft, setDraft] = useState<Employee>(EMPTY_EMPLOYEE);
+  const [messages, setMessages] = useState<{ ok: boolean; text: string }[]>([]);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const employee = { ...draft, employee_id: normalizeEmployeeId(draft.employee_id) };
+    const error = validateEmployee(employee);
+    if (error) {
+      setMessages([{ ok: false, text: error }]);
+      return;
+    }
+    onChange(upsertEmployees(roster, [employee]));
+    setMessages([{ ok: true, text: `${employee.employee_id} saved to roster.` }]);
+    setDraft(EMPTY_EMPLOYEE);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const { employees, errors } = parseRosterCsv(await file.text());
+    if (employees.length > 0) onChange(upsertEmployees(roster, employees));
+    setMessages([
+      { ok: employees.length > 0, text: `Imported ${employees.length} employee(s) from ${file.name}.` },
+      ...errors.map(text => ({ ok: false, text }))
+    ]);
+    e.target.value = '';
+  };
+
+  const toggleStatus = (employee: Employee) => {
+    const status = employee.status === EmployeeStatus.ACTIVE ? EmployeeStatus.TERMINATED : EmployeeStatus.ACTIVE;
+    onChange(upsertEmployees(roster, [{ ...employee, status }]));
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Workforce Roster</h3>
+        <div className="flex items-center space-x-3">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            {roster.filter(e => e.status === EmployeeStatus.ACTIVE).length} active / {roster.length}
+          </span>
+          <input ref={fileRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="text-[10px] text-primary-600 dark:text-primary-400 font-black tracking-widest border border-primary-200 dark:border-primary-900/40 px-3 py-1 rounded hover:bg-primary-50 dark:hover:bg-primary-950/20 transition-all"
+          >
+            IMPORT CSV
+          </button>
+        </div>
+      </div>
+
+      <form onSubmit={handleAdd} className="p-4 grid grid-cols-2 md:grid-cols-6 gap-2 border-b border-slate-100 dark:border-slate-700">
+        <input className={`${inputClass} font-mono`} placeholder="ID" value={draft.employee_id} onChange={e => setDraft({ ...draft, employee_id: e.target.value.toUpperCase() })} required />
+        <input className={inputClass} placeholder="Full name" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} required />
+        <select className={inputClass} value={draft.sector} onChange={e => setDraft({ ...draft, sector: e.target.value })}>
+          {SECTOR_POLICIES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+        </select>
+        <input className={inputClass} placeholder="Pay grade" value={draft.pay_grade} onChange={e => setDraft({ ...draft, pay_grade: e.target.value.toUpperCase() })} required />
+        <input className={inputClass} type="date" value={draft.hire_date} onChange={e => setDraft({ ...draft, hire_date: e.target.value })} required />
+        <button type="submit" className="py-1.5 bg-primary-600 hover:bg-primary-700 text-white text-[10px] font-black rounded-lg uppercase tracking-widest">
+          Save Employee
+        </button>
+      </form>
+
+      {messages.length > 0 && (
+        <div className="px-4 py-3 space-y-1 border-b border-slate-100 dark:border-slate-700 max-h-32 overflow-y-auto">
+          {messages.map((m, i) => (
+            <p key={i} className={`text-[11px] font-medium ${m.ok ? 'text-emerald-600' : 'text-red-500'}`}>{m.text}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50 dark:bg-slate-900/30 text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+              <th className="px-6 py-3">Employee</th>
+              <th className="px-6 py-3">Sector</th>
+              <th className="px-6 py-3">Grade</th>
+              <th className="px-6 py-3">Hired</th>
+              <th className="px-6 py-3 text-right">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {roster.length > 0 ? roster.map(e => (
+              <tr key={e.employee_id} className="text-sm hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-colors">
+                <td className="px-6 py-3">
+                  <div className="flex flex-col">
+                    <span className="font-black font-mono text-slate-900 dark:text-white">{e.employee_id}</span>
+                    <span className="text-[10px] text-slate-400 font-bold">{e.name}</span>
+                  </div>
+                </td>
+                <td className="px-6 py-3 text-xs font-bold text-slate-600 dark:text-slate-300">{getSectorPolicy(e.sector)?.label ?? e.sector}</td>
+                <td className="px-6 py-3 text-xs font-mono font-bold text-slate-600 dark:text-slate-300">{e.pay_grade}</td>
+                <td className="px-6 py-3 text-xs font-mono text-slate-500">{e.hire_date}</td>
+                <td className="px-6 py-3 text-right">
+                  <button
+                    onClick={() => toggleStatus(e)}
+                    title="Toggle employment status"
+                    className={`px-2 py-0.5 rounded-full text-[10px] font-black tracking-tighter ${
+                      e.status === EmployeeStatus.ACTIVE ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400' : 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                    }`}
+                  >
+                    {e.status.toUpperCase()}
+                  </button>
+                </td>
+              </tr>
+            )) : (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-slate-400 italic font-medium tracking-wide">Roster empty. Import a CSV to enable verification.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RosterPanel;
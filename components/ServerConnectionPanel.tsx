@@ -0,0 +1,97 @@
+
+import React, { useState } from 'react';
+import {
+  TerminalCredential,
+  loadTerminalCredential,
+  saveTerminalCredential,
+  validateTerminalCredential
+} from '../services/apiClient';
+
+interface ServerConnectionPanelProps {
+  onSaved?: () => void; // retry queued uploads with the new credential
+}
+
+const inputClass = "w-full px-2 py-1.5 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-xs text-slate-900 dark:text-white";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1";
+
+const ServerConnectionPanel: React.FC<ServerConnectionPanelProps> = ({ onSaved }) => {
+  const [saved, setSaved] = useState<TerminalCredential | null>(loadTerminalCredential);
+  const [draft, setDraft] = useState<TerminalCredential>({ terminal_id: saved?.terminal_id ?? '', secret: '' });
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const save = () => {
+    const next = { terminal_id: draft.terminal_id.trim(), secret: draft.secret.trim() };
+    const error = validateTerminalCredential(next);
+    if (error) {
+      setMessage({ text: error, error: true });
+      return;
+    }
+    saveTerminalCredential(next);
+    setSaved(next);
+    setDraft({ ...next, secret: '' });
+    setMessage({ text: `Credential saved. Verifications and uploads now authenticate as ${next.terminal_id}.` });
+    onSaved?.();
+  };
+
+  const remove = () => {
+    saveTerminalCredential(null);
+    setSaved(null);
+    setDraft({ terminal_id: '', secret: '' });
+    setMessage({ text: 'Credential removed. Gemini verifications and uploads stop until a new one is entered.' });
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <div>
+          <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Server Connection</h3>
+          <p className={`text-[10px] font-bold uppercase mt-1 ${saved ? 'text-slate-400' : 'text-amber-500'}`}>
+            {saved ? `Terminal ${saved.terminal_id}` : 'No credential: the API server refuses this terminal'}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          {saved && (
+            <button
+              onClick={remove}
+              className="text-[10px] text-red-500 hover:text-red-700 dark:hover:text-red-400 font-black tracking-widest border border-red-200 dark:border-red-900/40 px-3 py-1 rounded hover:bg-red-50 dark:hover:bg-red-950/20 transition-all"
+            >
+              REMOVE
+            </button>
+          )}
+          <button
+            onClick={save}
+            className="text-[10px] text-primary-600 dark:text-primary-400 font-black tracking-widest border border-primary-200 dark:border-primary-900/40 px-3 py-1 rounded hover:bg-primary-50 dark:hover:bg-primary-950/20 transition-all"
+          >
+            SAVE
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className="px-4 py-3 border-b border-slate-100 dark:border-slate-700">
+          <p className={`text-[11px] font-medium ${message.error ? 'text-red-500' : 'text-emerald-600'}`}>{message.text}</p>
+        </div>
+      )}
+
+      <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label>
+          <span className={labelClass}>Terminal ID</span>
+          <input className={`${inputClass} font-mono`} value={draft.terminal_id} onChange={e => setDraft({ ...draft, terminal_id: e.target.value })} />
+        </label>
+        <label>
+          <span className={labelClass}>Terminal secret</span>
+          <input
+            type="password"
+            autoComplete="off"
+            className={inputClass}
+            placeholder={saved ? 'Saved; enter again to replace' : ''}
+            value={draft.secret}
+            onChange={e => setDraft({ ...draft, secret: e.target.value })}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ServerConnectionPanel;
@@ -0,0 +1,80 @@
+
+import React, { useState } from 'react';
+import { ShiftSession, ShiftSessionStatus, ShiftUniquenessRule } from '../types';
+import { getUniquenessRule, setUniquenessRule } from '../services/shiftSessions';
+
+interface ShiftSessionsPanelProps {
+  sessions: ShiftSession[];
+}
+
+const RULE_LABELS: Record<ShiftUniquenessRule, string> = {
+  [ShiftUniquenessRule.PER_DAY]: 'One shift per day',
+  [ShiftUniquenessRule.PER_SHIFT]: 'One open shift at a time'
+};
+
+const VISIBLE_CLOSED = 20;
+
+const ShiftSessionsPanel: React.FC<ShiftSessionsPanelProps> = ({ sessions }) => {
+  const [rule, setRule] = useState<ShiftUniquenessRule>(getUniquenessRule);
+  const open = sessions.filter(s => s.status === ShiftSessionStatus.OPEN);
+  const closed = sessions.filter(s => s.status === ShiftSessionStatus.CLOSED).slice(0, VISIBLE_CLOSED);
+
+  const changeRule = (next: ShiftUniquenessRule) => {
+    setUniquenessRule(next);
+    setRule(next);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">Shift Sessions</h3>
+        <select
+          value={rule}
+          onChange={e => changeRule(e.target.value as ShiftUniquenessRule)}
+          className="px-2 py-1 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg outline-none text-[10px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-400"
+        >
+          {Object.values(ShiftUniquenessRule).map(r => <option key={r} value={r}>{RULE_LABELS[r]}</option>)}
+        </select>
+      </div>
+      <div className="overflow-x-auto max-h-80 overflow-y-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50 dark:bg-slate-900/30 text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+              <th className="px-6 py-3">Employee</th>
+              <th className="px-6 py-3">Checked In</th>
+              <th className="px-6 py-3">Checked Out</th>
+              <th className="px-6 py-3">Checks</th>
+              <th className="px-6 py-3 text-right">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {[...open, ...closed].length > 0 ? [...open, ...closed].map(s => (
+              <tr key={s.shift_id} className="text-sm hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-colors">
+                <td className="px-6 py-3">
+                  <span className="block font-black text-slate-900 dark:text-white">{s.employee_id}</span>
+                  <span className="text-[10px] text-slate-400 font-bold uppercase">{s.sector}</span>
+                </td>
+                <td className="px-6 py-3 text-xs font-mono text-slate-600 dark:text-slate-300">{s.check_in_time.replace('T', ' ')}</td>
+                <td className="px-6 py-3 text-xs font-mono text-slate-600 dark:text-slate-300">{s.check_out_time?.replace('T', ' ') ?? '—'}</td>
+                <td className="px-6 py-3 text-xs font-mono text-slate-500">{s.events.length}</td>
+                <td className="px-6 py-3 text-right">
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] font-black tracking-tighter ${
+                    s.status === ShiftSessionStatus.OPEN ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400' : 'bg-slate-100 text-slate-600 dark:bg-slate-700/50 dark:text-slate-400'
+                  }`}>
+                    {s.status.toUpperCase()}
+                  </span>
+                </td>
+              </tr>
+            )) : (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-slate-400 italic font-medium tracking-wide">No shifts recorded yet.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ShiftSessionsPanel;
@@ -0,0 +1,128 @@
+
+import React, { useState } from 'react';
+import { UserAccount, UserRole } from '../types';
+import {
+  AccountChanges,
+  ROLE_LABELS,
+  SESSION_TIMEOUT_MINUTES,
+  createAccount,
+  loadAccounts,
+  saveAccounts,
+  updateAccount
+} from '../services/accessControl';
+
+interface UsersPanelProps {
+  currentUserId: string;
+}
+
+const inputClass = "w-full px-2 py-1.5 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-xs text-slate-900 dark:text-white";
+
+const UsersPanel: React.FC<UsersPanelProps> = ({ currentUserId }) => {
+  const [accounts, setAccounts] = useState<UserAccount[]>(loadAccounts);
+  const [draft, setDraft] = useState({ name: '', role: UserRole.OPERATOR, pin: '' });
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const apply = (result: UserAccount[] | string, success: string) => {
+    if (typeof result === 'string') {
+      setMessage({ text: result, error: true });
+      return false;
+    }
+    saveAccounts(result);
+    setAccounts(result);
+    setMessage({ text: success });
+    return true;
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = apply(await createAccount(accounts, draft.name, draft.role, draft.pin), `${draft.name.trim()} added as ${ROLE_LABELS[draft.role]}.`);
+    if (added) setDraft({ name: '', role: draft.role, pin: '' });
+  };
+
+  const change = async (account: UserAccount, changes: AccountChanges, success: string) =>
+    apply(await updateAccount(accounts, account.user_id, changes), success);
+
+  const resetPin = (account: UserAccount) => {
+    const pin = prompt(`New PIN or password for ${account.name}:`);
+    if (pin !== null) change(account, { pin }, `${account.name}'s PIN was reset.`);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/20">
+        <div>
+          <h3 className="font-black text-slate-900 dark:text-white uppercase tracking-[0.2em] text-xs">User Accounts</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">Sessions end after {SESSION_TIMEOUT_MINUTES} min idle</p>
+        </div>
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{accounts.filter(a => a.active).length} active</span>
+      </div>
+
+      <form onSubmit={handleAdd} className="p-4 grid grid-cols-2 md:grid-cols-4 gap-2 border-b border-slate-100 dark:border-slate-700">
+        <input className={inputClass} placeholder="Name" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} required />
+        <select className={inputClass} value={draft.role} onChange={e => setDraft({ ...draft, role: e.target.value as UserRole })}>
+          {Object.values(UserRole).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+        </select>
+        <input className={inputClass} type="password" placeholder="PIN / password" value={draft.pin} onChange={e => setDraft({ ...draft, pin: e.target.value })} autoComplete="new-password" required />
+        <button type="submit" className="py-1.5 bg-primary-600 hover:bg-primary-700 text-white text-[10px] font-black rounded-lg uppercase tracking-widest">
+          Add User
+        </button>
+      </form>
+
+      {message && (
+        <div className="px-4 py-3 border-b border-slate-100 dark:border-slate-700">
+          <p className={`text-[11px] font-medium ${message.error ? 'text-red-500' : 'text-emerald-600'}`}>{message.text}</p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50 dark:bg-slate-900/30 text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+              <th className="px-6 py-3">Name</th>
+              <th className="px-6 py-3">Role</th>
+              <th className="px-6 py-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {accounts.map(account => (
+              <tr key={account.user_id} className={`text-sm hover:bg-slate-50 dark:hover:bg-slate-900/20 transition-colors ${account.active ? '' : 'opacity-50'}`}>
+                <td className="px-6 py-3">
+                  <span className="text-xs font-black text-slate-900 dark:text-white">{account.name}</span>
+                  {account.user_id === currentUserId && <span className="ml-2 text-[9px] font-black text-primary-500 uppercase">You</span>}
+                  {account.locked_until && Date.parse(account.locked_until) > Date.now() && (
+                    <span className="ml-2 px-1.5 py-0.5 rounded text-[9px] font-black bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400">LOCKED OUT</span>
+                  )}
+                </td>
+                <td className="px-6 py-3">
+                  <select
+                    className={inputClass}
+                    value={account.role}
+                    onChange={e => change(account, { role: e.target.value as UserRole }, `${account.name} is now ${ROLE_LABELS[e.target.value as UserRole]}.`)}
+                  >
+                    {Object.values(UserRole).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                  </select>
+                </td>
+                <td className="px-6 py-3 text-right space-x-2 whitespace-nowrap">
+                  <button
+                    onClick={() => resetPin(account)}
+                    className="text-[10px] text-primary-600 dark:text-primary-400 font-black tracking-widest border border-primary-200 dark:border-primary-900/40 px-3 py-1 rounded hover:bg-primary-50 dark:hover:bg-primary-950/20 transition-all"
+                  >
+                    RESET PIN
+                  </button>
+                  <button
+                    onClick={() => change(account, { active: !account.active }, `${account.name} ${account.active ? 'disabled' : 'enabled'}.`)}
+                    className="text-[10px] text-red-500 hover:text-red-700 font-black tracking-widest border border-red-200 dark:border-red-900/40 px-3 py-1 rounded hover:bg-red-50 dark:hover:bg-red-950/20 transition-all"
+                  >
+                    {account.active ? 'DISABLE' : 'ENABLE'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default UsersPanel;
@@ -0,0 +1,75 @@
+// Local webhook receiver for testing safety alerts.
+//
+//   npm run webhook-receiver
+//
+// Settings (environment):
+//   PORT            listening port, default 9090
+//   WEBHOOK_SECRET  when set, rejects bodies whose X-Phoenix-Signature does not match (401)
+//   FAIL_FIRST      answer 503 to the first N requests, to watch the terminal retry
+//
+// Prints every alert it receives. Any path accepts POSTs; CORS is open so the
+// terminal can call it from the browser.
+import { createServer } from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 9090;
+const SECRET = process.env.WEBHOOK_SECRET || '';
+let failuresLeft = Number(process.env.FAIL_FIRST) || 0;
+let received = 0;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, X-Phoenix-Signature'
+};
+
+function signatureMatches(body, header) {
+  const expected = Buffer.from(`sha256=${createHmac('sha256', SECRET).update(body).digest('hex')}`);
+  const given = Buffer.from(String(header || ''));
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    return res.end();
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405, CORS_HEADERS);
+    return res.end();
+  }
+
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const body = Buffer.concat(chunks).toString('utf8');
+  const at = new Date().toISOString();
+
+  if (failuresLeft > 0) {
+    failuresLeft--;
+    console.log(`${at} ${req.url} -> 503 (simulated failure, ${failuresLeft} left)`);
+    res.writeHead(503, CORS_HEADERS);
+    return res.end();
+  }
+  if (SECRET && !signatureMatches(body, req.headers['x-phoenix-signature'])) {
+    console.log(`${at} ${req.url} -> 401 (bad or missing signature)`);
+    res.writeHead(401, CORS_HEADERS);
+    return res.end();
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    console.log(`${at} ${req.url} -> 400 (not JSON)`);
+    res.writeHead(400, CORS_HEADERS);
+    return res.end();
+  }
+  received++;
+  const alert = payload.alert ?? {};
+  console.log(`${at} #${received} ${alert.rule_name}: ${alert.message}`);
+  console.log(JSON.stringify(payload, null, 2));
+  res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ received: true }));
+}).listen(PORT, () => {
+  console.log(`Webhook receiver on http://localhost:${PORT}/alerts${SECRET ? ' (checking signatures)' : ''}`);
+});
@@ -0,0 +1,190 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AnalysisRequest, AnalysisResponse, ViolationCode } from "../types";
+import {
+  buildRiskPrompt,
+  buildSectorRulesPrompt,
+  getTrackedPpeItems
+} from "../services/sectorPolicies";
+import { AnalysisError, AnalysisErrorKind } from "../services/analysisErrors";
+import { GEMINI_MODEL, PROMPT_VERSION } from "../services/geminiVersion";
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use so the server still starts (and serves history) without a key
+const getClient = (): GoogleGenAI => {
+  if (!process.env.GEMINI_API_KEY) {
+    throw new AnalysisError(
+      AnalysisErrorKind.CONFIGURATION,
+      "Gemini API key is not configured on the API server. Set GEMINI_API_KEY there or switch the terminal to the offline provider."
+    );
+  }
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  return client;
+};
+
+const TRACKED_PPE = getTrackedPpeItems();
+
+const SYSTEM_PROMPT = `You are Phoenix AI Workforce Monitoring System.
+
+IMPORTANT RULES:
+- Employee identity is NOT detected from image.
+- Employee ID is provided manually by user.
+- Sector is selected manually by user.
+- You ONLY analyze safety and activity from image.
+- Never guess identity.
+
+STEP 1 — Human detection
+- Detect real person in the image.
+- If none → human_detected = false, working_status = absent, efficiency = 0, detections = [].
+- List EVERY person visible in "detections", most prominent (largest, closest) first.
+- Each detection has box_2d = [ymin, xmin, ymax, xmax] on a 0-1000 grid and its own
+  activity_level, working_status, ppe, efficiency_percentage, risk_level, confidence and violations,
+  judged with steps 2-6 for that person alone.
+- The top-level fields describe the most prominent person (detections[0]).
+
+STEP 2 — Activity detection
+Classify activity level from image:
+- HIGH: Operating machines, drilling, digging, typing, lifting tools.
+- MEDIUM: Walking, preparing, monitoring.
+- LOW: Sitting idle, resting, using phone, not engaged.
+- NOT PRESENT: No worker visible.
+
+STEP 3 — Working status mapping
+- HIGH or MEDIUM → working
+- LOW → idle
+- NOT PRESENT → absent
+
+STEP 4 — Base efficiency
+- HIGH → 95
+- MEDIUM → 70
+- LOW → 30
+- ABSENT → 0
+
+STEP 5 — Sector safety rules
+${buildSectorRulesPrompt()}
+
+STEP 6 — Risk level (per sector)
+${buildRiskPrompt()}
+
+REFERENCE CALCULATIONS (Report your own figures; the payroll engine recomputes and audits them):
+STEP 7 — Working Hours: Decimal hours between shift_start and shift_end (UTC, may cross midnight or span days), minus break_minutes.
+STEP 8 — Salary Calculation:
+  - hourly_rate is given in INPUT DATA (from the site rate card). Report it unchanged.
+  - base_salary = hours_worked × hourly_rate.
+STEP 9 — Productivity Adjustment:
+  - efficiency_percentage >= 90 → +10% bonus
+  - 50–89 → normal (no change)
+  - < 50 → -10% penalty
+  - final_salary = base_salary adjusted by efficiency.
+STEP 10 — Work Status:
+  - hours_worked >= 6 → full_day
+  - hours_worked < 6 → half_day
+
+OUTPUT ONLY VALID JSON.`;
+
+const PPE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: Object.fromEntries(TRACKED_PPE.map(item => [item, { type: Type.BOOLEAN }])),
+  required: TRACKED_PPE
+};
+
+const VIOLATIONS_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      code: { type: Type.STRING, enum: Object.values(ViolationCode) },
+      item: { type: Type.STRING },
+      evidence: { type: Type.STRING }
+    },
+    required: ["code", "evidence"]
+  }
+};
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    employee_id: { type: Type.STRING },
+    sector: { type: Type.STRING },
+    human_detected: { type: Type.BOOLEAN },
+    working_status: { type: Type.STRING },
+    activity_level: { type: Type.STRING },
+    ppe: PPE_SCHEMA,
+    efficiency_percentage: { type: Type.NUMBER },
+    risk_level: { type: Type.STRING },
+    violations: VIOLATIONS_SCHEMA,
+    detections: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          box_2d: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+          working_status: { type: Type.STRING },
+          activity_level: { type: Type.STRING },
+          ppe: PPE_SCHEMA,
+          efficiency_percentage: { type: Type.NUMBER },
+          risk_level: { type: Type.STRING },
+          confidence: { type: Type.NUMBER },
+          violations: VIOLATIONS_SCHEMA
+        },
+        required: ["box_2d", "activity_level", "ppe", "efficiency_percentage", "risk_level", "confidence", "violations"]
+      }
+    },
+    hours_worked: { type: Type.NUMBER },
+    hourly_rate: { type: Type.NUMBER },
+    base_salary: { type: Type.NUMBER },
+    final_salary: { type: Type.NUMBER },
+    work_status: { type: Type.STRING },
+    confidence: { type: Type.NUMBER },
+    explanation: { type: Type.STRING }
+  },
+  required: [
+    "employee_id", "sector", "human_detected", 
+    "working_status", "activity_level", "ppe", 
+    "efficiency_percentage", "risk_level", "violations", "detections", "hours_worked", 
+    "hourly_rate", "base_salary", "final_salary", "work_status", 
+    "confidence", "explanation"
+  ]
+};
+
+export async function analyzeWithGemini(request: AnalysisRequest): Promise<AnalysisResponse> {
+  const parts: any[] = [
+    { text: `INPUT DATA: ${JSON.stringify({
+      employee_id: request.employee_id,
+      sector: request.sector,
+      ...request.shift,
+      hourly_rate: request.hourly_rate
+    })}` }
+  ];
+
+  if (request.worker_image) {
+    parts.push({
+      inlineData: {
+        mimeType: "image/jpeg",
+        data: request.worker_image
+      }
+    });
+  }
+
+  const response = await getClient().models.generateContent({
+    model: GEMINI_MODEL,
+    contents: { parts },
+    config: {
+      systemInstruction: SYSTEM_PROMPT,
+      responseMimeType: "application/json",
+      responseSchema: RESPONSE_SCHEMA
+    }
+  });
+
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+    throw new AnalysisError(AnalysisErrorKind.SAFETY_BLOCK, `Gemini blocked the request (${blockReason || finishReason}).`);
+  }
+
+  return {
+    text: response.text || '{}',
+    model: GEMINI_MODEL,
+    prompt_version: PROMPT_VERSION
+  };
+}
@@ -0,0 +1,239 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { timingSafeEqual } from "node:crypto";
+import { AnalysisRequest, PayrollOutput, RiskLevel, Sector } from "../types";
+import { AnalysisErrorKind, classifyError } from "../services/analysisErrors";
+import { getSectorPolicy } from "../services/sectorPolicies";
+import { formatExportCsv } from "../services/payrollExport";
+import { GEMINI_MODEL, PROMPT_VERSION } from "../services/geminiVersion";
+import { analyzeWithGemini } from "./geminiService";
+import { RateLimiter } from "./rateLimit";
+import { RecordQuery, RecordStore } from "./recordStore";
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_DIR = process.env.DATA_DIR || 'server-data';
+// Bearer token for the HR-facing history and export endpoints; the server will not start without it
+const HR_API_TOKEN = process.env.HR_API_TOKEN || '';
+// "terminal_id:secret" pairs, comma-separated; each terminal presents its secret as a bearer token
+const TERMINAL_CREDENTIALS = process.env.TERMINAL_CREDENTIALS || '';
+const VERIFY_LIMIT_PER_MINUTE = Number(process.env.VERIFY_RATE_LIMIT) || 30;
+const UPLOAD_LIMIT_PER_MINUTE = 120;
+const AUTH_FAILURES_PER_MINUTE = 10;
+// A worker frame is well under this; larger bodies are refused before parsing
+const MAX_BODY_BYTES = 8 * 1024 * 1024;
+const MAX_RECORDS_PER_UPLOAD = 100;
+
+const MINUTE_MS = 60 * 1000;
+const TERMINAL_HEADER = 'x-terminal-id';
+
+const ERROR_STATUS: Record<AnalysisErrorKind, number> = {
+  [AnalysisErrorKind.NETWORK]: 502,
+  [AnalysisErrorKind.QUOTA]: 429,
+  [AnalysisErrorKind.SCHEMA]: 502,
+  [AnalysisErrorKind.SAFETY_BLOCK]: 422,
+  [AnalysisErrorKind.CONFIGURATION]: 503,
+  [AnalysisErrorKind.REPLAY_MISS]: 404,
+  [AnalysisErrorKind.UNKNOWN]: 500
+};
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly kind = 'request', readonly headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const verifyLimiter = new RateLimiter(VERIFY_LIMIT_PER_MINUTE, MINUTE_MS);
+const uploadLimiter = new RateLimiter(UPLOAD_LIMIT_PER_MINUTE, MINUTE_MS);
+const authFailureLimiter = new RateLimiter(AUTH_FAILURES_PER_MINUTE, MINUTE_MS);
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+const sendError = (res: ServerResponse, status: number, kind: string, message: string, headers?: Record<string, string>) =>
+  sendJson(res, status, { error: { kind, message } }, headers);
+
+async function readJson<T>(req: IncomingMessage): Promise<T> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES / (1024 * 1024)} MB.`);
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+}
+
+function parseTerminalCredentials(value: string): Map<string, string> {
+  const credentials = new Map<string, string>();
+  value.split(',').map(pair => pair.trim()).filter(Boolean).forEach(pair => {
+    const separator = pair.indexOf(':');
+    const secret = pair.slice(separator + 1).trim();
+    // Not echoed: the entry holds a secret
+    if (separator < 1 || !secret) throw new Error('Every TERMINAL_CREDENTIALS entry must be terminal_id:secret.');
+    credentials.set(pair.slice(0, separator).trim(), secret);
+  });
+  return credentials;
+}
+
+const bearerToken = (req: IncomingMessage): string => String(req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+
+function secretMatches(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Failed credentials are limited per remote address so secrets and tokens cannot be guessed at full speed
+const rejectCredential = (req: IncomingMessage, error: HttpError): never => {
+  enforceRateLimit(authFailureLimiter, req.socket.remoteAddress || 'unknown');
+  throw error;
+};
+
+// The terminal whose secret the request carries; the id alone proves nothing
+function authenticateTerminal(req: IncomingMessage, terminals: Map<string, string>): string {
+  const id = String(req.headers[TERMINAL_HEADER] || '');
+  const secret = terminals.get(id);
+  if (secret && secretMatches(bearerToken(req), secret)) return id;
+  return rejectCredential(req, new HttpError(401, 'This terminal has no valid server credential.', AnalysisErrorKind.CONFIGURATION));
+}
+
+// Keyed on the authenticated terminal or the socket address, never on anything the client sends
+function enforceRateLimit(limiter: RateLimiter, key: string): void {
+  const decision = limiter.take(key);
+  if (!decision.allowed) {
+    throw new HttpError(429, `Too many requests from this terminal. Retry in ${decision.retry_after_seconds}s.`, AnalysisErrorKind.QUOTA, {
+      'Retry-After': String(decision.retry_after_seconds)
+    });
+  }
+}
+
+function requireHrToken(req: IncomingMessage): void {
+  if (!secretMatches(bearerToken(req), HR_API_TOKEN)) rejectCredential(req, new HttpError(401, 'A valid HR API token is required.'));
+}
+
+function validateAnalysisRequest(body: Partial<AnalysisRequest>): AnalysisRequest {
+  if (typeof body?.employee_id !== 'string' || !body.employee_id.trim()) throw new HttpError(400, 'employee_id is required.');
+  if (!body.sector || !getSectorPolicy(body.sector)) throw new HttpError(400, `Unknown sector "${body.sector}".`);
+  if (!body.shift?.shift_start || !body.shift?.shift_end) throw new HttpError(400, 'shift.shift_start and shift.shift_end are required.');
+  if (body.worker_image !== undefined && typeof body.worker_image !== 'string') throw new HttpError(400, 'worker_image must be base64 JPEG data.');
+  return body as AnalysisRequest;
+}
+
+function validateRecords(body: { records?: PayrollOutput[] }): PayrollOutput[] {
+  const records = body?.records;
+  if (!Array.isArray(records) || records.length === 0) throw new HttpError(400, 'records must be a non-empty array.');
+  if (records.length > MAX_RECORDS_PER_UPLOAD) throw new HttpError(413, `At most ${MAX_RECORDS_PER_UPLOAD} records per upload.`);
+  records.forEach((r, i) => {
+    if (typeof r?.record_id !== 'string' || typeof r.employee_id !== 'string' || typeof r.timestamp !== 'string') {
+      throw new HttpError(400, `Record ${i + 1} is missing record_id, employee_id or timestamp.`);
+    }
+  });
+  return records;
+}
+
+function parseQuery(params: URLSearchParams): RecordQuery {
+  const date = (name: string) => {
+    const value = params.get(name) || undefined;
+    if (value && !/^\d{4}-\d{2}-\d{2}$/.test(value)) throw new HttpError(400, `${name} must be a YYYY-MM-DD shift date.`);
+    return value;
+  };
+  const risk = params.get('risk_level') || undefined;
+  if (risk && !Object.values(RiskLevel).includes(risk as RiskLevel)) throw new HttpError(400, `Unknown risk_level "${risk}".`);
+  const limit = params.get('limit');
+  return {
+    employee_id: params.get('employee_id') || undefined,
+    sector: (params.get('sector') || undefined) as Sector | undefined,
+    risk_level: risk as RiskLevel | undefined,
+    from: date('from'),
+    to: date('to'),
+    limit: limit ? Math.max(1, Number(limit) || 0) : undefined
+  };
+}
+
+async function handle(store: RecordStore, terminals: Map<string, string>, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const route = `${req.method} ${url.pathname}`;
+
+  switch (route) {
+    case 'GET /api/health':
+      return sendJson(res, 200, {
+        status: 'ok',
+        model: GEMINI_MODEL,
+        prompt_version: PROMPT_VERSION,
+        gemini_configured: !!process.env.GEMINI_API_KEY,
+        records: store.size
+      });
+
+    case 'POST /api/verify': {
+      const terminal = authenticateTerminal(req, terminals);
+      enforceRateLimit(verifyLimiter, terminal);
+      const request = validateAnalysisRequest(await readJson(req));
+      try {
+        return sendJson(res, 200, await analyzeWithGemini(request));
+      } catch (err) {
+        const error = classifyError(err);
+        console.error(`verify ${terminal} ${request.employee_id}: ${error.kind}: ${error.message}`);
+        return sendError(res, ERROR_STATUS[error.kind], error.kind, error.message);
+      }
+    }
+
+    case 'POST /api/records': {
+      const terminal = authenticateTerminal(req, terminals);
+      enforceRateLimit(uploadLimiter, terminal);
+      // Stamped here, never taken from the body, so a terminal can only replace its own records
+      const records = validateRecords(await readJson(req)).map(r => ({ ...r, uploaded_by: terminal }));
+      const claimed = records.find(r => (store.ownerOf(r.record_id!) ?? terminal) !== terminal);
+      if (claimed) throw new HttpError(409, `Record ${claimed.record_id} was uploaded by another terminal.`);
+      await store.upsert(records);
+      return sendJson(res, 200, { stored: records.length });
+    }
+
+    case 'GET /api/records':
+      requireHrToken(req);
+      return sendJson(res, 200, { records: store.query(parseQuery(url.searchParams)) });
+
+    case 'GET /api/export.csv': {
+      requireHrToken(req);
+      const csv = formatExportCsv(store.query(parseQuery(url.searchParams)));
+      res.writeHead(200, {
+        'Content-Type': 'text/csv;charset=utf-8',
+        'Content-Disposition': `attachment; filename="payroll-${new Date().toISOString().slice(0, 10)}.csv"`
+      });
+      return void res.end(csv);
+    }
+
+    default:
+      throw new HttpError(404, `No route for ${route}.`);
+  }
+}
+
+async function main(): Promise<void> {
+  // Refused rather than served open: uploads and HR reads must never be unauthenticated
+  if (!HR_API_TOKEN) throw new Error('HR_API_TOKEN is not set; refusing to serve history and export unauthenticated.');
+  const terminals = parseTerminalCredentials(TERMINAL_CREDENTIALS);
+  if (terminals.size === 0) throw new Error('TERMINAL_CREDENTIALS is not set; no terminal could verify or upload records.');
+  const store = await RecordStore.open(DATA_DIR);
+  const server = createServer((req, res) => {
+    handle(store, terminals, req, res).catch(err => {
+      if (res.headersSent) return void res.end();
+      if (err instanceof HttpError) return sendError(res, err.status, err.kind, err.message, err.headers);
+      console.error(err);
+      sendError(res, 500, 'internal', 'The API server failed to handle the request.');
+    });
+  });
+  server.listen(PORT, () => {
+    console.log(`API server on :${PORT}, ${store.size} records in ${DATA_DIR}, ${terminals.size} terminal(s)`);
+    if (!process.env.GEMINI_API_KEY) console.warn('GEMINI_API_KEY is not set; /api/verify will answer 503.');
+  });
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,27 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  retry_after_seconds: number; // 0 when allowed
+}
+
+/**
+ * Fixed-window counter per key (a terminal id). Windows are dropped once
+ * they end, so memory stays bounded by the terminals active in one window.
+ */
+export class RateLimiter {
+  private readonly windows = new Map<string, { started: number; count: number }>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  take(key: string, now = Date.now()): RateLimitDecision {
+    this.windows.forEach((window, k) => {
+      if (now - window.started >= this.windowMs) this.windows.delete(k);
+    });
+    const window = this.windows.get(key) ?? { started: now, count: 0 };
+    if (window.count >= this.limit) {
+      return { allowed: false, retry_after_seconds: Math.ceil((window.started + this.windowMs - now) / 1000) };
+    }
+    window.count++;
+    this.windows.set(key, window);
+    return { allowed: true, retry_after_seconds: 0 };
+  }
+}
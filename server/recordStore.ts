@@ -0,0 +1,85 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { PayrollOutput, RiskLevel, Sector } from "../types";
+
+// One JSON record per line; a later line for the same record_id replaces the earlier one
+const RECORDS_FILE = 'records.jsonl';
+
+export interface RecordQuery {
+  employee_id?: string;
+  sector?: Sector;
+  risk_level?: RiskLevel;
+  from?: string; // shift dates, YYYY-MM-DD, inclusive
+  to?: string;
+  limit?: number;
+}
+
+/**
+ * The server's copy of every record the terminals have synced. Kept in memory
+ * and appended to a JSONL file, which is compacted on the next start.
+ */
+export class RecordStore {
+  private readonly records = new Map<string, PayrollOutput>();
+  private readonly file: string;
+  // Appends are chained so concurrent uploads never interleave lines
+  private writes: Promise<void> = Promise.resolve();
+
+  private constructor(dir: string) {
+    this.file = path.join(dir, RECORDS_FILE);
+  }
+
+  static async open(dir: string): Promise<RecordStore> {
+    const store = new RecordStore(dir);
+    await mkdir(dir, { recursive: true });
+    const text = await readFile(store.file, 'utf8').catch(err => (err.code === 'ENOENT' ? '' : Promise.reject(err)));
+    const lines = text.split('\n').filter(line => line.trim());
+    lines.forEach((line, i) => {
+      try {
+        const record: PayrollOutput = JSON.parse(line);
+        store.records.set(record.record_id!, record);
+      } catch {
+        // A torn final line from a crash mid-append; the terminal re-sends it
+        console.warn(`Skipping unreadable line ${i + 1} of ${store.file}`);
+      }
+    });
+    if (lines.length > store.records.size) await store.compact();
+    return store;
+  }
+
+  // Rewrites the file with one line per record, replacing it only once fully written
+  private async compact(): Promise<void> {
+    const temp = `${this.file}.tmp`;
+    await writeFile(temp, [...this.records.values()].map(r => `${JSON.stringify(r)}\n`).join(''), 'utf8');
+    await rename(temp, this.file);
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  // The terminal that first uploaded the record; records stored before uploads were stamped have none
+  ownerOf(record_id: string): string | undefined {
+    return this.records.get(record_id)?.uploaded_by;
+  }
+
+  upsert(records: PayrollOutput[]): Promise<void> {
+    records.forEach(r => this.records.set(r.record_id!, r));
+    const lines = records.map(r => `${JSON.stringify(r)}\n`).join('');
+    const write = this.writes.then(() => appendFile(this.file, lines, 'utf8'));
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  // Newest first, like the terminals' archive
+  query(query: RecordQuery): PayrollOutput[] {
+    const matches = [...this.records.values()].filter(r =>
+      (!query.employee_id || r.employee_id === query.employee_id) &&
+      (!query.sector || r.sector === query.sector) &&
+      (!query.risk_level || r.risk_level === query.risk_level) &&
+      (!query.from || (r.shift_date ?? '') >= query.from) &&
+      (!query.to || (r.shift_date ?? '') <= query.to)
+    );
+    matches.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+}
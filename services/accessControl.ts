@@ -0,0 +1,197 @@
+import { AppTab, UserAccount, UserRole, UserSession } from "../types";
+
+const ACCOUNTS_KEY = 'user_accounts_v1';
+// Per browser tab, so closing the tab signs out
+const SESSION_KEY = 'user_session';
+
+export const SESSION_TIMEOUT_MINUTES = 15;
+const MINUTE_MS = 60 * 1000;
+// Activity within this long of the last recorded touch is not written again
+const TOUCH_INTERVAL_MS = 30 * 1000;
+
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 5;
+const MIN_PIN_LENGTH = 4;
+const PBKDF2_ITERATIONS = 100_000;
+
+export type Permission =
+  | 'verify' // calculator and batch verification
+  | 'review' // Admin tab: archive, overrides, review queue, incidents, disputes, pay runs, exports
+  | 'administer'; // roster, rates, pay rules, providers, recordings, alerts, review thresholds, purges, accounts, server credential
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.OPERATOR]: ['verify'],
+  [UserRole.SUPERVISOR]: ['verify', 'review'],
+  [UserRole.ADMIN]: ['verify', 'review', 'administer']
+};
+
+const TAB_PERMISSIONS: Record<AppTab, Permission> = {
+  calculator: 'verify',
+  batch: 'verify',
+  admin: 'review'
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.OPERATOR]: 'Operator',
+  [UserRole.SUPERVISOR]: 'Supervisor',
+  [UserRole.ADMIN]: 'Admin'
+};
+
+export const roleCan = (role: UserRole, permission: Permission): boolean => ROLE_PERMISSIONS[role].includes(permission);
+
+export const can = (session: UserSession | null, permission: Permission): boolean =>
+  !!session && roleCan(session.role, permission);
+
+export const canOpenTab = (session: UserSession | null, tab: AppTab): boolean => can(session, TAB_PERMISSIONS[tab]);
+
+export function loadAccounts(): UserAccount[] {
+  const saved = localStorage.getItem(ACCOUNTS_KEY);
+  return saved ? JSON.parse(saved) : [];
+}
+
+export function saveAccounts(accounts: UserAccount[]): void {
+  localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array): string =>
+  Array.from(new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array => new Uint8Array((hex.match(/../g) ?? []).map(h => parseInt(h, 16)));
+
+async function hashPin(pin: string, saltHex: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(saltHex), iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(bits);
+}
+
+async function withPin(account: Omit<UserAccount, 'pin_salt' | 'pin_hash'>, pin: string): Promise<UserAccount> {
+  const pin_salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return { ...account, pin_salt, pin_hash: await hashPin(pin, pin_salt) };
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export function validatePin(pin: string): string | null {
+  return pin.length >= MIN_PIN_LENGTH ? null : `PINs and passwords need at least ${MIN_PIN_LENGTH} characters.`;
+}
+
+const activeAdmins = (accounts: UserAccount[]) => accounts.filter(a => a.active && a.role === UserRole.ADMIN);
+
+// Returns the new account list or the reason the account was refused
+export async function createAccount(accounts: UserAccount[], name: string, role: UserRole, pin: string): Promise<UserAccount[] | string> {
+  if (!name.trim()) return 'A name is required.';
+  if (accounts.some(a => sameName(a.name, name))) return `An account named "${name.trim()}" already exists.`;
+  const pinError = validatePin(pin);
+  if (pinError) return pinError;
+  if (accounts.length === 0 && role !== UserRole.ADMIN) return 'The first account must be an admin.';
+
+  const account = await withPin({
+    user_id: crypto.randomUUID(),
+    name: name.trim(),
+    role,
+    active: true,
+    created_at: new Date().toISOString()
+  }, pin);
+  return [...accounts, account];
+}
+
+export interface AccountChanges {
+  role?: UserRole;
+  active?: boolean;
+  pin?: string; // resets the PIN and clears any lockout
+}
+
+export async function updateAccount(accounts: UserAccount[], userId: string, changes: AccountChanges): Promise<UserAccount[] | string> {
+  const account = accounts.find(a => a.user_id === userId);
+  if (!account) return 'Account not found.';
+  let next: UserAccount = {
+    ...account,
+    role: changes.role ?? account.role,
+    active: changes.active ?? account.active
+  };
+  if (changes.pin !== undefined) {
+    const pinError = validatePin(changes.pin);
+    if (pinError) return pinError;
+    next = await withPin({ ...next, failed_attempts: undefined, locked_until: undefined }, changes.pin);
+  }
+  const updated = accounts.map(a => (a.user_id === userId ? next : a));
+  if (activeAdmins(updated).length === 0) return 'At least one active admin account must remain.';
+  return updated;
+}
+
+/**
+ * Checks the PIN and starts a session. Failed attempts are counted per
+ * account and lock it for a while after too many; the reason given never
+ * says whether the name exists.
+ */
+export async function signIn(name: string, pin: string, now = new Date()): Promise<UserSession | string> {
+  const accounts = loadAccounts();
+  const account = accounts.find(a => sameName(a.name, name));
+  const refused = 'Unknown name or wrong PIN.';
+  if (!account || !account.active) return refused;
+  if (account.locked_until && Date.parse(account.locked_until) > now.getTime()) {
+    return `Too many failed attempts. Try again after ${new Date(account.locked_until).toLocaleTimeString()}.`;
+  }
+
+  const save = (next: UserAccount) => saveAccounts(accounts.map(a => (a.user_id === next.user_id ? next : a)));
+  if (await hashPin(pin, account.pin_salt) !== account.pin_hash) {
+    const failed_attempts = (account.failed_attempts ?? 0) + 1;
+    const locked = failed_attempts >= MAX_FAILED_ATTEMPTS;
+    save({
+      ...account,
+      failed_attempts: locked ? 0 : failed_attempts,
+      locked_until: locked ? new Date(now.getTime() + LOCKOUT_MINUTES * MINUTE_MS).toISOString() : undefined
+    });
+    return locked ? `Too many failed attempts. ${account.name} is locked for ${LOCKOUT_MINUTES} minutes.` : refused;
+  }
+
+  save({ ...account, failed_attempts: undefined, locked_until: undefined });
+  const session: UserSession = {
+    user_id: account.user_id,
+    name: account.name,
+    role: account.role,
+    signed_in_at: now.toISOString(),
+    last_active_at: now.toISOString()
+  };
+  sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  return session;
+}
+
+export function signOut(): void {
+  sessionStorage.removeItem(SESSION_KEY);
+}
+
+export const isSessionExpired = (session: UserSession, now = new Date()): boolean =>
+  now.getTime() - Date.parse(session.last_active_at) > SESSION_TIMEOUT_MINUTES * MINUTE_MS;
+
+/**
+ * The tab's session with the account's current role, or null once it has
+ * been idle past the timeout or the account was disabled.
+ */
+export function loadSession(now = new Date()): UserSession | null {
+  const saved = sessionStorage.getItem(SESSION_KEY);
+  const session: UserSession | null = saved ? JSON.parse(saved) : null;
+  if (!session) return null;
+  const account = loadAccounts().find(a => a.user_id === session.user_id);
+  if (isSessionExpired(session, now) || !account?.active) {
+    signOut();
+    return null;
+  }
+  return { ...session, name: account.name, role: account.role };
+}
+
+// Records activity; returns the same session when it was touched recently
+export function touchSession(session: UserSession, now = new Date()): UserSession {
+  // An expired session is left for the timeout check to end, not revived
+  if (isSessionExpired(session, now) || now.getTime() - Date.parse(session.last_active_at) < TOUCH_INTERVAL_MS) return session;
+  const touched = { ...session, last_active_at: now.toISOString() };
+  sessionStorage.setItem(SESSION_KEY, JSON.stringify(touched));
+  return touched;
+}
+
+// The signed-in user stamped on audit envelopes; empty when nobody is
+export const currentOperator = (): string => loadSession()?.name ?? '';
@@ -0,0 +1,50 @@
+import { Alert } from "../types";
+
+// Two-tone siren: [frequency Hz, seconds] steps, repeated
+const ALARM_STEPS: [number, number][] = [[880, 0.25], [660, 0.25]];
+const ALARM_REPEATS = 4;
+
+let audio: AudioContext | null = null;
+
+/**
+ * Sounds the terminal alarm. Browsers only allow audio after the page has
+ * had a click or key press, which signing in always provides.
+ */
+export function playAlarm(): void {
+  audio ??= new AudioContext();
+  const oscillator = audio.createOscillator();
+  const gain = audio.createGain();
+  oscillator.type = 'square';
+  gain.gain.value = 0.15;
+  oscillator.connect(gain).connect(audio.destination);
+
+  let at = audio.currentTime;
+  for (let i = 0; i < ALARM_REPEATS; i++) {
+    ALARM_STEPS.forEach(([frequency, seconds]) => {
+      oscillator.frequency.setValueAtTime(frequency, at);
+      at += seconds;
+    });
+  }
+  oscillator.start();
+  oscillator.stop(at);
+}
+
+export const notificationsSupported = (): boolean => typeof Notification !== 'undefined';
+
+export function notificationPermission(): NotificationPermission | 'unsupported' {
+  return notificationsSupported() ? Notification.permission : 'unsupported';
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  return notificationsSupported() ? Notification.requestPermission() : 'unsupported';
+}
+
+// Silently skipped until the admin has granted permission on this terminal
+export function showAlertNotification(alert: Alert): void {
+  if (notificationPermission() !== 'granted') return;
+  new Notification(`Safety alert: ${alert.rule_name}`, {
+    body: alert.provisional ? `${alert.message} (held for manual review)` : alert.message,
+    tag: alert.alert_id,
+    requireInteraction: true
+  });
+}
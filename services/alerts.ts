@@ -0,0 +1,184 @@
+import {
+  Alert,
+  AlertRule,
+  AlertRuleKind,
+  AlertSettings,
+  DeliveryStatus,
+  PayrollOutput,
+  RiskLevel,
+  WebhookDelivery
+} from "../types";
+import { RISK_ORDER } from "./monitoring";
+import { PPE_LABELS, getMissingPpe, getRecordPpe } from "./sectorPolicies";
+import { addAlert, lastAlertForRule, queryRecords } from "./historyStore";
+
+const STORAGE_KEY = 'alert_settings_v1';
+const MINUTE_MS = 60 * 1000;
+// Newest records read when counting denials in a rule's window
+const DENIAL_SCAN_LIMIT = 500;
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  rules: [
+    {
+      rule_id: 'default-high-risk',
+      name: 'High risk on site',
+      enabled: true,
+      kind: AlertRuleKind.RISK,
+      sectors: [],
+      min_risk: RiskLevel.HIGH,
+      notify: true,
+      alarm: true,
+      webhook: true
+    },
+    {
+      rule_id: 'default-denials',
+      name: 'Repeated gate denials',
+      enabled: true,
+      kind: AlertRuleKind.DENIALS,
+      sectors: [],
+      count: 3,
+      window_minutes: 10,
+      notify: true,
+      alarm: false,
+      webhook: true
+    }
+  ],
+  webhooks: []
+};
+
+export function loadAlertSettings(): AlertSettings {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return saved ? { ...DEFAULT_ALERT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_ALERT_SETTINGS;
+}
+
+export function saveAlertSettings(settings: AlertSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function validateAlertSettings(settings: AlertSettings): string | null {
+  for (const rule of settings.rules) {
+    if (!rule.name.trim()) return 'Every alert rule needs a name.';
+    if (rule.kind === AlertRuleKind.RISK && !rule.min_risk) return `"${rule.name}" needs a minimum risk level.`;
+    if (rule.kind === AlertRuleKind.DENIALS && !(Number.isInteger(rule.count) && rule.count! >= 1)) return `"${rule.name}" needs a denial count of at least 1.`;
+    if (rule.kind === AlertRuleKind.DENIALS && !(rule.window_minutes! > 0)) return `"${rule.name}" needs a window longer than 0 minutes.`;
+  }
+  for (const webhook of settings.webhooks) {
+    try {
+      if (!/^https?:$/.test(new URL(webhook.url).protocol)) return `Webhook ${webhook.url} must use http or https.`;
+    } catch {
+      return `"${webhook.url}" is not a valid webhook URL.`;
+    }
+  }
+  return null;
+}
+
+const isDenial = (record: PayrollOutput) => !record.authorized;
+
+const inSectors = (rule: AlertRule, record: PayrollOutput) => rule.sectors.length === 0 || rule.sectors.includes(record.sector);
+
+function describeRecord(record: PayrollOutput): string {
+  const who = record.employee_name ? `${record.employee_name} (${record.employee_id})` : record.employee_id;
+  const missing = getMissingPpe(record.sector, getRecordPpe(record)).map(item => PPE_LABELS[item]);
+  return `${who} in ${record.sector}: ${record.risk_level} risk${missing.length > 0 ? `, missing ${missing.join(', ')}` : ''}`;
+}
+
+/**
+ * The records that make the rule fire for this one, or null. Denial rules
+ * count the window ending at this record and stay quiet for a window after
+ * they fire, so a queue of denied workers raises one alert, not one each.
+ */
+async function matchRule(rule: AlertRule, record: PayrollOutput): Promise<PayrollOutput[] | null> {
+  if (!rule.enabled || !inSectors(rule, record)) return null;
+  if (rule.kind === AlertRuleKind.RISK) {
+    return RISK_ORDER.indexOf(record.risk_level) >= RISK_ORDER.indexOf(rule.min_risk!) ? [record] : null;
+  }
+
+  if (!isDenial(record)) return null;
+  const windowStart = new Date(Date.parse(record.timestamp) - rule.window_minutes! * MINUTE_MS).toISOString();
+  const last = await lastAlertForRule(rule.rule_id);
+  if (last && last.triggered_at > windowStart) return null;
+  const denials = (await queryRecords({ limit: DENIAL_SCAN_LIMIT }))
+    .filter(r => isDenial(r) && inSectors(rule, r) && r.timestamp >= windowStart && r.timestamp <= record.timestamp);
+  return denials.length >= rule.count! ? denials : null;
+}
+
+function buildAlert(rule: AlertRule, record: PayrollOutput, matched: PayrollOutput[], provisional: boolean, now: Date): Alert {
+  const message = rule.kind === AlertRuleKind.DENIALS
+    ? `${matched.length} denials in ${rule.window_minutes} min${rule.sectors.length > 0 ? ` in ${rule.sectors.join(', ')}` : ''}; latest ${record.employee_id}`
+    : describeRecord(record);
+  return {
+    alert_id: crypto.randomUUID(),
+    rule_id: rule.rule_id,
+    rule_name: rule.name,
+    triggered_at: now.toISOString(),
+    message,
+    record_id: record.record_id!,
+    employee_id: record.employee_id,
+    sector: record.sector,
+    risk_level: record.risk_level,
+    record_ids: matched.map(r => r.record_id!),
+    provisional: provisional || undefined
+  };
+}
+
+// The JSON every webhook receives; no images, so payloads stay small
+export function buildWebhookBody(alert: Alert, record?: PayrollOutput): string {
+  return JSON.stringify({
+    event: 'safety_alert',
+    alert,
+    record: record && {
+      record_id: record.record_id,
+      employee_id: record.employee_id,
+      employee_name: record.employee_name,
+      sector: record.sector,
+      risk_level: record.risk_level,
+      authorized: record.authorized,
+      missing_ppe: getMissingPpe(record.sector, getRecordPpe(record)),
+      explanation: record.explanation,
+      timestamp: record.timestamp
+    }
+  });
+}
+
+export function queueDelivery(url: string, webhookId: string, alert: Alert, body: string, now = new Date()): WebhookDelivery {
+  return {
+    delivery_id: crypto.randomUUID(),
+    webhook_id: webhookId,
+    url,
+    alert_id: alert.alert_id,
+    rule_name: alert.rule_name,
+    body,
+    created_at: now.toISOString(),
+    status: DeliveryStatus.PENDING,
+    next_attempt_at: now.toISOString(),
+    attempts: []
+  };
+}
+
+export interface RaisedAlert {
+  alert: Alert;
+  rule: AlertRule;
+}
+
+/**
+ * Checks a stored verification against every rule. Each alert that fires
+ * is stored with a pending delivery per enabled webhook if the rule posts
+ * to webhooks; notifying the terminal is left to the caller. A verification
+ * held for manual review raises provisional alerts under its review_id.
+ */
+export async function raiseAlerts(record: PayrollOutput, settings = loadAlertSettings(), provisional = false, now = new Date()): Promise<RaisedAlert[]> {
+  if (!record.record_id) return [];
+  const raised: RaisedAlert[] = [];
+  for (const rule of settings.rules) {
+    const matched = await matchRule(rule, record);
+    if (!matched) continue;
+    const alert = buildAlert(rule, record, matched, provisional, now);
+    const body = buildWebhookBody(alert, record);
+    const deliveries = rule.webhook
+      ? settings.webhooks.filter(w => w.enabled).map(w => queueDelivery(w.url, w.webhook_id, alert, body, now))
+      : [];
+    await addAlert(alert, deliveries);
+    raised.push({ alert, rule });
+  }
+  return raised;
+}
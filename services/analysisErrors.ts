@@ -0,0 +1,63 @@
+export enum AnalysisErrorKind {
+  NETWORK = 'network',
+  QUOTA = 'quota',
+  SCHEMA = 'schema',
+  SAFETY_BLOCK = 'safety_block',
+  CONFIGURATION = 'configuration',
+  REPLAY_MISS = 'replay_miss',
+  UNKNOWN = 'unknown'
+}
+
+const RETRYABLE = new Set([AnalysisErrorKind.NETWORK, AnalysisErrorKind.QUOTA, AnalysisErrorKind.SCHEMA]);
+
+// Operator-facing headline per failure class, shown above the detail message
+export const ANALYSIS_ERROR_TITLES: Record<AnalysisErrorKind, string> = {
+  [AnalysisErrorKind.NETWORK]: 'ANALYSIS OFFLINE: The vision service could not be reached. Check the site uplink and retry.',
+  [AnalysisErrorKind.QUOTA]: 'ANALYSIS THROTTLED: The vision service quota is exhausted. Wait a minute or switch to the offline provider.',
+  [AnalysisErrorKind.SCHEMA]: 'ANALYSIS UNREADABLE: The vision service answered with malformed data. Retry the scan.',
+  [AnalysisErrorKind.SAFETY_BLOCK]: 'ANALYSIS BLOCKED: The vision service refused this frame. Re-frame the worker and retry.',
+  [AnalysisErrorKind.CONFIGURATION]: 'ANALYSIS NOT CONFIGURED: This terminal has no usable analysis backend.',
+  [AnalysisErrorKind.REPLAY_MISS]: 'REPLAY MISS: No recording matches this request. Switch recording mode off or record it first.',
+  [AnalysisErrorKind.UNKNOWN]: 'ANALYSIS FAILED: Unexpected error from the vision service.'
+};
+
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(kind: AnalysisErrorKind, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.kind = kind;
+    this.retryable = RETRYABLE.has(kind);
+    this.cause = cause;
+  }
+
+  get title(): string {
+    return ANALYSIS_ERROR_TITLES[this.kind];
+  }
+}
+
+// Maps whatever a provider threw (SDK ApiError, fetch TypeError, ...) onto the taxonomy.
+export function classifyError(error: unknown): AnalysisError {
+  if (error instanceof AnalysisError) return error;
+
+  const message = (error as Error)?.message || String(error);
+  const status = Number((error as { status?: unknown })?.status) ||
+    Number(message.match(/\b(4\d\d|5\d\d)\b/)?.[1]) || 0;
+
+  if (status === 429 || /quota|rate limit|resource.?exhausted/i.test(message)) {
+    return new AnalysisError(AnalysisErrorKind.QUOTA, message, error);
+  }
+  if (status >= 500 || error instanceof TypeError || /network|fetch|timeout|ECONN|offline/i.test(message)) {
+    return new AnalysisError(AnalysisErrorKind.NETWORK, message, error);
+  }
+  if (status === 401 || status === 403 || /api key/i.test(message)) {
+    return new AnalysisError(AnalysisErrorKind.CONFIGURATION, message, error);
+  }
+  if (/safety|blocked/i.test(message)) {
+    return new AnalysisError(AnalysisErrorKind.SAFETY_BLOCK, message, error);
+  }
+  return new AnalysisError(AnalysisErrorKind.UNKNOWN, message, error);
+}
@@ -0,0 +1,40 @@
+import { AnalysisProvider } from "../types";
+import { serverAnalysisProvider } from "./serverAnalysisProvider";
+import { mockAnalysisProvider } from "./mockAnalysisProvider";
+
+const STORAGE_KEY = 'analysis_provider';
+
+const providers = new Map<string, AnalysisProvider>();
+
+export function registerAnalysisProvider(provider: AnalysisProvider): void {
+  providers.set(provider.id, provider);
+}
+
+registerAnalysisProvider(serverAnalysisProvider);
+registerAnalysisProvider(mockAnalysisProvider);
+
+export function getAnalysisProviders(): AnalysisProvider[] {
+  return [...providers.values()];
+}
+
+export function getAnalysisProvider(id: string): AnalysisProvider | undefined {
+  return providers.get(id);
+}
+
+// Operator choice, then ANALYSIS_PROVIDER from the build env, then Gemini via the API server
+export function getActiveProviderId(): string {
+  const chosen = localStorage.getItem(STORAGE_KEY);
+  if (chosen && providers.has(chosen)) return chosen;
+  const configured = process.env.ANALYSIS_PROVIDER;
+  if (configured && providers.has(configured)) return configured;
+  return serverAnalysisProvider.id;
+}
+
+export function setActiveProviderId(id: string): void {
+  if (!providers.has(id)) throw new Error(`Unknown analysis provider "${id}"`);
+  localStorage.setItem(STORAGE_KEY, id);
+}
+
+export function getActiveProvider(): AnalysisProvider {
+  return providers.get(getActiveProviderId())!;
+}
@@ -0,0 +1,77 @@
+import { AnalysisRequest, AnalysisResponse, PayrollOutput } from "../types";
+import { AnalysisError, AnalysisErrorKind } from "./analysisErrors";
+
+// Same origin: the Vite dev server proxies /api, production serves both from one host
+const API_BASE = '/api';
+const CREDENTIAL_KEY = 'terminal_credential_v1';
+export const TERMINAL_HEADER = 'X-Terminal-Id';
+
+// Issued per terminal by whoever runs the API server (its TERMINAL_CREDENTIALS), entered by an admin
+export interface TerminalCredential {
+  terminal_id: string;
+  secret: string;
+}
+
+export function loadTerminalCredential(): TerminalCredential | null {
+  const saved = localStorage.getItem(CREDENTIAL_KEY);
+  return saved ? JSON.parse(saved) : null;
+}
+
+export function saveTerminalCredential(credential: TerminalCredential | null): void {
+  if (credential) localStorage.setItem(CREDENTIAL_KEY, JSON.stringify(credential));
+  else localStorage.removeItem(CREDENTIAL_KEY);
+}
+
+export function validateTerminalCredential(credential: TerminalCredential): string | null {
+  if (!credential.terminal_id.trim()) return 'Enter the terminal ID the server knows this terminal by.';
+  if (/[:,]/.test(credential.terminal_id)) return 'The terminal ID cannot contain ":" or ",".';
+  if (!credential.secret.trim()) return 'Enter the terminal secret.';
+  return null;
+}
+
+// Error body every API endpoint answers with: { error: { kind, message } }
+export interface ApiErrorBody {
+  error: { kind: string; message: string };
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+async function apiFetch<T>(path: string, body: unknown): Promise<T> {
+  const credential = loadTerminalCredential();
+  if (!credential) {
+    throw new AnalysisError(AnalysisErrorKind.CONFIGURATION, 'This terminal has no server credential. An admin enters it on the Admin tab.');
+  }
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [TERMINAL_HEADER]: credential.terminal_id,
+      Authorization: `Bearer ${credential.secret}`
+    },
+    body: JSON.stringify(body)
+  });
+  const payload = await response.json().catch(() => null);
+  if (response.ok) return payload as T;
+
+  const error = (payload as ApiErrorBody | null)?.error;
+  const message = error?.message || `API server answered ${response.status} ${response.statusText}`.trim();
+  // Analysis failures keep the kind the server classified them as
+  if (error && Object.values(AnalysisErrorKind).includes(error.kind as AnalysisErrorKind)) {
+    throw new AnalysisError(error.kind as AnalysisErrorKind, message);
+  }
+  throw new ApiError(response.status, message);
+}
+
+export const verifyFrame = (request: AnalysisRequest): Promise<AnalysisResponse> =>
+  apiFetch<AnalysisResponse>('/verify', request);
+
+export const uploadRecords = (records: PayrollOutput[]): Promise<{ stored: number }> =>
+  apiFetch<{ stored: number }>('/records', { records });
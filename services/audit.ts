@@ -0,0 +1,135 @@
+import {
+  AnalysisResponse,
+  AuditAction,
+  AuditEntry,
+  AuditEnvelope,
+  IntegrityIssue,
+  IntegrityReport,
+  PayrollOutput
+} from "../types";
+import { canonicalJson, sha256Hex } from "./hash";
+
+const ANCHOR_KEY = 'audit_chain_head';
+
+// Stamped when a verification runs without a signed-in user
+const UNKNOWN_OPERATOR = 'unidentified';
+
+// Hashes the decoded JPEG bytes, so the digest matches the file an auditor is handed
+export async function hashImage(base64: string): Promise<string> {
+  return sha256Hex(Uint8Array.from(atob(base64), c => c.charCodeAt(0)));
+}
+
+export async function buildAuditEnvelope(operator: string, image?: string, response?: AnalysisResponse): Promise<AuditEnvelope> {
+  return {
+    operator: operator.trim() || UNKNOWN_OPERATOR,
+    image_sha256: image ? await hashImage(image) : undefined,
+    model: response?.model,
+    prompt_version: response?.prompt_version,
+    raw_response: response?.text
+  };
+}
+
+/**
+ * The digest a chain entry commits to. pay_run_id is left out: approving and
+ * reopening runs stamps it in bulk, and the run's own history records that.
+ */
+export async function hashRecord(record: PayrollOutput): Promise<string> {
+  const { pay_run_id, ...content } = record;
+  return sha256Hex(canonicalJson(content));
+}
+
+const hashEntry = (entry: Omit<AuditEntry, 'hash'>): Promise<string> => sha256Hex(canonicalJson(entry));
+
+export interface AuditChange {
+  record_id: string;
+  action: AuditAction;
+  record?: PayrollOutput; // absent for purges
+}
+
+// Chains new entries onto the current head, in order
+export async function linkEntries(head: AuditEntry | undefined, changes: AuditChange[]): Promise<AuditEntry[]> {
+  const entries: AuditEntry[] = [];
+  let previous = head;
+  const at = new Date().toISOString();
+  for (const change of changes) {
+    const entry: Omit<AuditEntry, 'hash'> = {
+      seq: (previous?.seq ?? 0) + 1,
+      record_id: change.record_id,
+      action: change.action,
+      at,
+      record_hash: change.record ? await hashRecord(change.record) : '',
+      prev_hash: previous?.hash ?? ''
+    };
+    previous = { ...entry, hash: await hashEntry(entry) };
+    entries.push(previous);
+  }
+  return entries;
+}
+
+/**
+ * A copy of the newest entry kept outside the database, so removing entries
+ * from the end of the chain is also detected.
+ */
+export function loadChainAnchor(): Pick<AuditEntry, 'seq' | 'hash'> | null {
+  const saved = localStorage.getItem(ANCHOR_KEY);
+  return saved ? JSON.parse(saved) : null;
+}
+
+export function saveChainAnchor(head: AuditEntry): void {
+  localStorage.setItem(ANCHOR_KEY, JSON.stringify({ seq: head.seq, hash: head.hash }));
+}
+
+/**
+ * Walks the chain and compares each record with the entry that last wrote
+ * it. Reports altered or missing entries, records changed or deleted without
+ * an entry, records that were never chained, and a truncated chain.
+ */
+export async function verifyChain(entries: AuditEntry[], records: PayrollOutput[]): Promise<IntegrityReport> {
+  const issues: IntegrityIssue[] = [];
+  const latest = new Map<string, AuditEntry>();
+  let previous: AuditEntry | undefined;
+
+  for (const entry of [...entries].sort((a, b) => a.seq - b.seq)) {
+    const expectedSeq = (previous?.seq ?? 0) + 1;
+    if (entry.seq !== expectedSeq) {
+      const gap = entry.seq - 1 === expectedSeq ? `Entry #${expectedSeq} is` : `Entries #${expectedSeq} to #${entry.seq - 1} are`;
+      issues.push({ seq: entry.seq, problem: `${gap} missing.` });
+    } else if (entry.prev_hash !== (previous?.hash ?? '')) {
+      issues.push({ seq: entry.seq, record_id: entry.record_id, problem: 'Does not link to the previous entry.' });
+    }
+    const { hash, ...content } = entry;
+    if (await hashEntry(content) !== hash) {
+      issues.push({ seq: entry.seq, record_id: entry.record_id, problem: 'Entry was altered after it was written.' });
+    }
+    latest.set(entry.record_id, entry);
+    previous = entry;
+  }
+
+  const anchor = loadChainAnchor();
+  if (anchor && (!previous || previous.seq < anchor.seq)) {
+    issues.push({ seq: anchor.seq, problem: `The chain ends at #${previous?.seq ?? 0} but #${anchor.seq} was written.` });
+  } else if (anchor && entries.find(e => e.seq === anchor.seq)?.hash !== anchor.hash) {
+    issues.push({ seq: anchor.seq, problem: 'Entry does not match the chain head recorded on this device.' });
+  }
+
+  const stored = new Set<string>();
+  for (const record of records) {
+    const id = record.record_id!;
+    stored.add(id);
+    const entry = latest.get(id);
+    if (!entry) {
+      issues.push({ record_id: id, problem: 'Record is not in the audit chain.' });
+    } else if (entry.action === AuditAction.PURGED) {
+      issues.push({ seq: entry.seq, record_id: id, problem: 'Record was purged but is back in history.' });
+    } else if (await hashRecord(record) !== entry.record_hash) {
+      issues.push({ seq: entry.seq, record_id: id, problem: 'Record was changed outside the audit trail.' });
+    }
+  }
+  latest.forEach(entry => {
+    if (entry.action !== AuditAction.PURGED && !stored.has(entry.record_id)) {
+      issues.push({ seq: entry.seq, record_id: entry.record_id, problem: 'Record was deleted outside the audit trail.' });
+    }
+  });
+
+  return { checked_at: new Date().toISOString(), entry_count: entries.length, record_count: records.length, issues };
+}
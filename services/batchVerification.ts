@@ -0,0 +1,268 @@
+import {
+  BatchItemStatus,
+  Employee,
+  PayrollInput,
+  PayrollOutput,
+  ShiftEvent,
+  ShiftSession,
+  ShiftSessionStatus
+} from "../types";
+import { parseCsvRecords } from "./csv";
+import { SECTOR_POLICIES } from "./sectorPolicies";
+import { checkRoster, normalizeEmployeeId } from "./rosterStore";
+import { resolveShift } from "./shiftTime";
+import { applyCompletedShift, planShiftEvent, planShiftEventWithArchive } from "./shiftSessions";
+import { buildDeniedRecord } from "./payrollEngine";
+import { calculatePayroll } from "./payrollService";
+import { AnalysisError } from "./analysisErrors";
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 8;
+
+// Site photos are often full-resolution; the model does not need more than the webcam gives it
+const MAX_IMAGE_DIMENSION = 1280;
+
+const DATE_TIME = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2})$/;
+const CLOCK_TIME = /^\d{2}:\d{2}$/;
+
+export interface ShiftSheetRow {
+  row: number; // line in the sheet, header included
+  input: PayrollInput;
+  image?: string; // file name given by the sheet, if any
+}
+
+export interface BatchItem {
+  row: number;
+  input: PayrollInput;
+  file?: File;
+  status: BatchItemStatus;
+  message?: string;
+  record?: PayrollOutput;
+  session?: ShiftSession; // the closed shift to store alongside a successful record
+}
+
+export interface BatchOptions {
+  roster: Employee[];
+  sessions: ShiftSession[];
+  concurrency?: number;
+  signal?: AbortSignal;
+  onUpdate: (index: number, item: BatchItem) => void;
+}
+
+const isTimeZone = (zone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const nextDay = (date: string): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/**
+ * Parses a shift log with the header
+ * employee_id,sector,check_in,check_out[,time_zone,break_minutes,image]
+ * Check-in needs a date ("2026-10-19 06:00"); check-out may be a bare time,
+ * taken on the check-in day or the next one if it is earlier.
+ */
+export function parseShiftSheet(text: string, defaultTimeZone: string): { rows: ShiftSheetRow[]; errors: string[] } {
+  const rows: ShiftSheetRow[] = [];
+  const errors: string[] = [];
+
+  parseCsvRecords(text).forEach((record, i) => {
+    const line = i + 2;
+    const employee_id = normalizeEmployeeId(record.employee_id ?? '');
+    const sector = SECTOR_POLICIES.find(p => p.id.toLowerCase() === (record.sector ?? '').toLowerCase())?.id;
+    const checkIn = (record.check_in ?? record.check_in_time ?? '').match(DATE_TIME);
+    const checkOutText = record.check_out ?? record.check_out_time ?? '';
+    const time_zone = record.time_zone || defaultTimeZone;
+    const breakText = record.break_minutes ?? '';
+
+    let error: string | null = null;
+    if (!employee_id) error = 'employee_id is required';
+    else if (!sector) error = `unknown sector "${record.sector ?? ''}"`;
+    else if (!checkIn) error = 'check_in must be YYYY-MM-DD HH:MM';
+    else if (!DATE_TIME.test(checkOutText) && !CLOCK_TIME.test(checkOutText)) error = 'check_out must be YYYY-MM-DD HH:MM or HH:MM';
+    else if (!isTimeZone(time_zone)) error = `unknown time zone "${time_zone}"`;
+    else if (breakText && !/^\d+$/.test(breakText)) error = 'break_minutes must be a whole number';
+    if (error) {
+      errors.push(`Row ${line}: ${error}`);
+      return;
+    }
+
+    const check_in_time = `${checkIn![1]}T${checkIn![2]}`;
+    let current_time = checkOutText.replace(' ', 'T');
+    if (CLOCK_TIME.test(checkOutText)) {
+      current_time = `${checkIn![1]}T${checkOutText}`;
+      if (current_time <= check_in_time) current_time = `${nextDay(checkIn![1])}T${checkOutText}`;
+    }
+
+    const input: PayrollInput = {
+      employee_id,
+      sector: sector!,
+      check_in_time,
+      current_time,
+      time_zone,
+      break_minutes: breakText ? Number(breakText) : undefined
+    };
+    try {
+      resolveShift(input);
+    } catch (err: any) {
+      errors.push(`Row ${line}: ${err.message}`);
+      return;
+    }
+    rows.push({ row: line, input, image: record.image || undefined });
+  });
+
+  return { rows, errors };
+}
+
+const stem = (name: string) => name.replace(/\.[^.]+$/, '').toLowerCase();
+
+const mentionsId = (fileName: string, employeeId: string): boolean => {
+  const id = employeeId.toLowerCase().replace(/[-]/g, '\\-');
+  return new RegExp(`(^|[^a-z0-9])${id}($|[^a-z0-9])`).test(stem(fileName));
+};
+
+/**
+ * Pairs sheet rows with uploaded photos. Rows naming a file get it first;
+ * the rest take the next unused photo whose name contains their employee ID
+ * (e.g. "EM004_0615.jpg"), in file name order.
+ */
+export function matchPhotos(rows: ShiftSheetRow[], files: File[]): { items: BatchItem[]; unused: File[] } {
+  const remaining = [...files].sort((a, b) => a.name.localeCompare(b.name));
+  const take = (predicate: (file: File) => boolean): File | undefined => {
+    const index = remaining.findIndex(predicate);
+    return index === -1 ? undefined : remaining.splice(index, 1)[0];
+  };
+
+  const named = rows.map(r => r.image
+    ? take(f => f.name.toLowerCase() === r.image!.toLowerCase() || stem(f.name) === stem(r.image!))
+    : undefined);
+  const items = rows.map((r, i) => {
+    const file = r.image ? named[i] : take(f => mentionsId(f.name, r.input.employee_id));
+    return {
+      row: r.row,
+      input: r.input,
+      file,
+      status: file ? BatchItemStatus.PENDING : BatchItemStatus.DENIED,
+      message: file ? undefined : r.image ? `Photo "${r.image}" was not uploaded.` : `No photo mentions ${r.input.employee_id}.`
+    };
+  });
+
+  return { items, unused: remaining };
+}
+
+// Decodes an uploaded photo and re-encodes it as the JPEG the providers expect
+export async function loadImageFile(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available to decode photos.');
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
+}
+
+/**
+ * Verifies pending items with at most `concurrency` analyses in flight.
+ * Each employee's rows run one after another in shift order, so a row's
+ * weekly overtime counts the shifts computed before it in the same batch
+ * even while they are still on their way to history. Rows are checked
+ * against the roster and the shift rules, including shifts accepted earlier
+ * in the batch. Aborting stops new rows from starting; analyses already in
+ * flight are allowed to finish.
+ */
+export async function runBatch(items: BatchItem[], options: BatchOptions): Promise<void> {
+  const { roster, signal, onUpdate } = options;
+  const concurrency = Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, options.concurrency ?? DEFAULT_BATCH_CONCURRENCY));
+  const known = [...options.sessions];
+  const queue = items.map((item, index) => ({ item, index })).filter(({ item }) => item.status === BatchItemStatus.PENDING);
+  const started = new Set<number>();
+
+  // One chain per employee, earliest shift first; ties keep sheet order
+  const chains = new Map<string, typeof queue>();
+  queue.forEach(entry => chains.set(entry.item.input.employee_id, [...(chains.get(entry.item.input.employee_id) ?? []), entry]));
+  const pendingChains = [...chains.values()].map(chain => chain
+    .map(entry => ({ entry, start: resolveShift(entry.item.input).start.getTime() }))
+    .sort((a, b) => a.start - b.start)
+    .map(({ entry }) => entry));
+  let next = 0;
+
+  const update = (index: number, item: BatchItem) => {
+    items[index] = item;
+    onUpdate(index, item);
+  };
+
+  // The verified record, still to be stored by the caller
+  const verify = async (item: BatchItem, index: number, earlier: PayrollOutput[]): Promise<PayrollOutput | undefined> => {
+    const rosterCheck = checkRoster(roster, item.input.employee_id, item.input.sector);
+    if (!rosterCheck.employee) {
+      update(index, { ...item, status: BatchItemStatus.DENIED, message: rosterCheck.reason, record: buildDeniedRecord(item.input, rosterCheck.reason) });
+      return;
+    }
+    const plan = planShiftEvent(known, item.input, ShiftEvent.CHECK_IN);
+    if (typeof plan === 'string') {
+      update(index, { ...item, status: BatchItemStatus.DENIED, message: plan });
+      return;
+    }
+
+    // Hold the day for this row so later rows for the same employee see it
+    const reservation: ShiftSession = {
+      shift_id: `batch-row-${item.row}`,
+      employee_id: item.input.employee_id,
+      sector: item.input.sector,
+      time_zone: item.input.time_zone,
+      shift_date: item.input.check_in_time.slice(0, 10),
+      check_in_time: item.input.check_in_time,
+      check_out_time: item.input.current_time,
+      status: ShiftSessionStatus.CLOSED,
+      events: []
+    };
+    known.push(reservation);
+
+    try {
+      // Sessions were checked above; with none passed this only consults the archive
+      const archived = await planShiftEventWithArchive([], item.input, ShiftEvent.CHECK_IN);
+      if (typeof archived === 'string') {
+        known.splice(known.indexOf(reservation), 1);
+        update(index, { ...item, status: BatchItemStatus.DENIED, message: archived });
+        return;
+      }
+
+      update(index, { ...item, status: BatchItemStatus.RUNNING, message: undefined });
+      const worker_image = await loadImageFile(item.file!);
+      const result = await calculatePayroll({ ...item.input, worker_image }, rosterCheck.employee, { pending_records: [...earlier] });
+      const applied = applyCompletedShift([], item.input, result);
+      update(index, { ...item, status: BatchItemStatus.DONE, record: applied.record, session: applied.sessions[0] });
+      return applied.record;
+    } catch (err: any) {
+      known.splice(known.indexOf(reservation), 1);
+      const message = err instanceof AnalysisError ? `${err.title} (${err.message})` : err.message || 'Verification failed.';
+      update(index, { ...item, status: BatchItemStatus.FAILED, message });
+    }
+  };
+
+  const lanes = Array.from({ length: Math.min(concurrency, pendingChains.length) }, async () => {
+    while (next < pendingChains.length && !signal?.aborted) {
+      const chain = pendingChains[next++];
+      const verified: PayrollOutput[] = [];
+      for (const { item, index } of chain) {
+        if (signal?.aborted) break;
+        started.add(index);
+        const record = await verify(item, index, verified);
+        if (record) verified.push(record);
+      }
+    }
+  });
+  await Promise.all(lanes);
+
+  queue.filter(({ index }) => !started.has(index)).forEach(({ item, index }) => {
+    update(index, { ...item, status: BatchItemStatus.CANCELLED, message: 'Cancelled before it started.' });
+  });
+}
@@ -0,0 +1,57 @@
+// Minimal RFC 4180 reader: quoted fields, escaped quotes, CRLF or LF rows.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// Reads a CSV with a header row into objects keyed by lower-cased header names.
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map(h => h.trim().toLowerCase());
+  return rows.map(cells =>
+    Object.fromEntries(keys.map((key, i) => [key, (cells[i] ?? '').trim()]))
+  );
+}
+
+const quoteField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Writes rows as RFC 4180 CSV with CRLF line endings.
+export function formatCsv(rows: (string | number | boolean | null | undefined)[][]): string {
+  return rows.map(row => row.map(cell => quoteField(cell === null || cell === undefined ? '' : String(cell))).join(',')).join('\r\n');
+}
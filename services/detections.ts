@@ -0,0 +1,33 @@
+import { BoundingBox, Detection, VisionAnalysis } from "../types";
+
+// Models report boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid
+const BOX_SCALE = 1000;
+
+export function toBoundingBox(box2d: number[]): BoundingBox {
+  const [y1, x1, y2, x2] = box2d.map(v => Math.min(BOX_SCALE, Math.max(0, v)) / BOX_SCALE);
+  return {
+    x: Math.min(x1, x2),
+    y: Math.min(y1, y2),
+    width: Math.abs(x2 - x1),
+    height: Math.abs(y2 - y1)
+  };
+}
+
+export function toBox2d(box: BoundingBox): number[] {
+  return [box.y, box.x, box.y + box.height, box.x + box.width].map(v => Math.round(v * BOX_SCALE));
+}
+
+// Replaces the frame-level verdict with the chosen person's own findings
+export function applyDetection(analysis: VisionAnalysis, detection: Detection): VisionAnalysis {
+  return {
+    ...analysis,
+    human_detected: true,
+    working_status: detection.working_status,
+    activity_level: detection.activity_level,
+    ppe: detection.ppe,
+    efficiency_percentage: detection.efficiency_percentage,
+    risk_level: detection.risk_level,
+    confidence: detection.confidence,
+    violations: detection.violations
+  };
+}
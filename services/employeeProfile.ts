@@ -0,0 +1,60 @@
+import { PayrollOutput } from "../types";
+import { isPayable } from "./shiftSessions";
+import { getRecordViolations } from "./violations";
+
+export interface EmployeeTotals {
+  verifications: number;
+  denials: number;
+  completed_shifts: number; // authorized, payable records: check-outs and single-frame shifts
+  payable_total: number;
+  hours_paid: number;
+  average_efficiency: number | null; // over authorized frames with the worker in them
+  violations: number;
+  compliance_percentage: number | null; // of those frames, the share that broke no rule
+}
+
+// One point per shift day with a judged frame, oldest first
+export interface EmployeeTrendPoint {
+  date: string;
+  efficiency: number; // mean over the day's frames
+  compliance: number; // percentage of the day's frames that broke no rule
+}
+
+// Verifications that judged the worker: denials and empty frames carry no findings
+const judged = (record: PayrollOutput) => record.authorized && record.human_detected;
+
+const mean = (values: number[]): number | null => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+
+const compliance = (records: PayrollOutput[]): number | null =>
+  records.length > 0 ? (records.filter(r => getRecordViolations(r).length === 0).length / records.length) * 100 : null;
+
+export function summarizeEmployee(records: PayrollOutput[]): EmployeeTotals {
+  // Denials keep their hours and no pay_final, so they are excluded as pay runs and payslips do
+  const payable = records.filter(r => r.authorized && isPayable(r));
+  const frames = records.filter(judged);
+  return {
+    verifications: records.length,
+    denials: records.filter(r => !r.authorized).length,
+    completed_shifts: payable.length,
+    payable_total: payable.reduce((sum, r) => sum + r.final_salary, 0),
+    hours_paid: payable.reduce((sum, r) => sum + r.hours_worked, 0),
+    average_efficiency: mean(frames.map(r => r.efficiency_percentage)),
+    violations: frames.reduce((sum, r) => sum + getRecordViolations(r).length, 0),
+    compliance_percentage: compliance(frames)
+  };
+}
+
+export function employeeTrend(records: PayrollOutput[]): EmployeeTrendPoint[] {
+  const byDay = new Map<string, PayrollOutput[]>();
+  records.filter(judged).forEach(r => {
+    const day = r.shift_date ?? r.timestamp.slice(0, 10);
+    byDay.set(day, [...(byDay.get(day) ?? []), r]);
+  });
+  return [...byDay.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => ({
+      date,
+      efficiency: Math.round(mean(day.map(r => r.efficiency_percentage))!),
+      compliance: Math.round(compliance(day)!)
+    }));
+}
@@ -0,0 +1,4 @@
+// Shared by the API server, which owns the prompt, and the terminals, which key recordings on them
+export const GEMINI_MODEL = 'gemini-2.5-flash-preview-09-2025';
+// Bump whenever the server's SYSTEM_PROMPT or response schema changes meaning
+export const PROMPT_VERSION = 'phoenix-2026.13';
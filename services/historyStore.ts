@@ -0,0 +1,637 @@
+import {
+  Alert,
+  AuditAction,
+  AuditEntry,
+  DeliveryStatus,
+  Dispute,
+  DisputeStatus,
+  Incident,
+  IncidentStatus,
+  IntegrityReport,
+  PayRun,
+  PayRunStatus,
+  PayrollOutput,
+  ReviewItem,
+  ReviewStatus,
+  RiskLevel,
+  Sector,
+  WebhookDelivery,
+  WorkStatus
+} from "../types";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import { formatZonedDateTime } from "./shiftTime";
+import { isPayable } from "./shiftSessions";
+import { getRecordViolations, violationKey } from "./violations";
+import { linkEntries, saveChainAnchor, verifyChain } from "./audit";
+
+const DB_NAME = 'phoenix_history';
+const STORE = 'records';
+const RUN_STORE = 'pay_runs';
+const DISPUTE_STORE = 'disputes';
+const AUDIT_STORE = 'audit_log';
+const OUTBOX_STORE = 'sync_outbox';
+const INCIDENT_STORE = 'incidents';
+const ALERT_STORE = 'alerts';
+const DELIVERY_STORE = 'webhook_deliveries';
+const REVIEW_STORE = 'review_queue';
+// Where history lived before this store: a single JSON array, newest first
+const LEGACY_KEY = 'payroll_history_v3';
+
+// Upper bound for the second half of compound [field, timestamp] ranges
+const MAX_TIMESTAMP = '\uffff';
+
+// Tries at an audited write while other tabs keep extending the chain under it
+const AUDIT_WRITE_ATTEMPTS = 3;
+
+export interface HistoryQuery {
+  employee_id?: string;
+  sector?: Sector;
+  risk_level?: RiskLevel;
+  from?: string; // shift date YYYY-MM-DD, inclusive
+  to?: string; // shift date YYYY-MM-DD, inclusive
+  work_status?: WorkStatus;
+  authorized?: boolean;
+  limit?: number;
+}
+
+export type ArchiveSortField = 'timestamp' | 'employee_id' | 'risk_level' | 'efficiency_percentage' | 'final_salary';
+
+export interface ArchiveSort {
+  field: ArchiveSortField;
+  descending: boolean;
+}
+
+export interface RecordPage {
+  records: PayrollOutput[];
+  total: number; // records matching the query across all pages
+}
+
+export interface HistorySummary {
+  count: number;
+  payable_total: number;
+  average_efficiency: number;
+  high_risk_count: number;
+  denied_count: number;
+  payable_by_sector: Record<Sector, number>;
+  risk_counts: Record<RiskLevel, number>;
+  violation_counts: Record<string, number>; // by violationKey, e.g. "missing_ppe:helmet"
+}
+
+// The local calendar day the shift started on; pre-shift records fall back to their timestamp
+export const recordShiftDate = (record: PayrollOutput): string =>
+  record.shift_start && record.time_zone
+    ? formatZonedDateTime(new Date(record.shift_start), record.time_zone).slice(0, 10)
+    : record.timestamp.slice(0, 10);
+
+const prepareRecord = (record: PayrollOutput): PayrollOutput => ({
+  ...record,
+  record_id: record.record_id ?? crypto.randomUUID(),
+  shift_date: record.shift_date ?? recordShiftDate(record)
+});
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+let legacyImported = false;
+
+// One entry per schema version, applied in order from the version on disk.
+// Never edit an entry that has shipped; append a new one instead.
+const MIGRATIONS: Migration[] = [
+  // v1: record store with query indexes, seeded from the localStorage archive
+  (db, tx) => {
+    const store = db.createObjectStore(STORE, { keyPath: 'record_id' });
+    store.createIndex('timestamp', 'timestamp');
+    store.createIndex('employee', ['employee_id', 'timestamp']);
+    store.createIndex('sector', ['sector', 'timestamp']);
+    store.createIndex('risk_level', ['risk_level', 'timestamp']);
+    store.createIndex('shift_date', 'shift_date');
+    store.createIndex('employee_day', ['employee_id', 'shift_date']);
+
+    const legacy = localStorage.getItem(LEGACY_KEY);
+    if (legacy) {
+      (JSON.parse(legacy) as PayrollOutput[]).forEach(record => tx.objectStore(STORE).put(prepareRecord(record)));
+      legacyImported = true;
+    }
+  },
+  // v2: pay runs
+  db => {
+    const store = db.createObjectStore(RUN_STORE, { keyPath: 'run_id' });
+    store.createIndex('period_start', 'period_start');
+  },
+  // v3: worker disputes and their review queue
+  db => {
+    const store = db.createObjectStore(DISPUTE_STORE, { keyPath: 'dispute_id' });
+    store.createIndex('status', ['status', 'raised_at']);
+    store.createIndex('record_id', 'record_id');
+  },
+  // v4: hash chain over record writes; records already stored are left unchained
+  db => {
+    const store = db.createObjectStore(AUDIT_STORE, { keyPath: 'seq' });
+    store.createIndex('record_id', 'record_id');
+  },
+  // v5: record writes waiting to reach the API server; earlier history is not queued
+  db => {
+    db.createObjectStore(OUTBOX_STORE, { keyPath: 'record_id' });
+  },
+  // v6: safety incidents raised from high and critical risk verifications
+  db => {
+    const store = db.createObjectStore(INCIDENT_STORE, { keyPath: 'incident_id' });
+    store.createIndex('status', ['status', 'opened_at']);
+    store.createIndex('record_id', 'record_id', { unique: true });
+  },
+  // v7: fired safety alerts and the webhook delivery log
+  db => {
+    db.createObjectStore(ALERT_STORE, { keyPath: 'alert_id' }).createIndex('rule', ['rule_id', 'triggered_at']);
+    const deliveries = db.createObjectStore(DELIVERY_STORE, { keyPath: 'delivery_id' });
+    deliveries.createIndex('status', ['status', 'next_attempt_at']);
+    deliveries.createIndex('created_at', 'created_at');
+  },
+  // v8: low-confidence verifications held for supervisor review
+  db => {
+    db.createObjectStore(REVIEW_STORE, { keyPath: 'review_id' }).createIndex('status', ['status', 'queued_at']);
+  }
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, MIGRATIONS.length, (db, oldVersion, tx) => {
+      MIGRATIONS.slice(oldVersion).forEach(migrate => migrate(db, tx));
+    }).then(db => {
+      // Only dropped once the upgrade that copied it has committed
+      if (legacyImported) localStorage.removeItem(LEGACY_KEY);
+      return db;
+    });
+  }
+  return dbPromise;
+};
+
+export class LockedRecordError extends Error {
+  readonly record: PayrollOutput;
+
+  constructor(record: PayrollOutput) {
+    super(`Record ${record.record_id} is locked in an approved pay run. Reopen the run to change it.`);
+    this.name = 'LockedRecordError';
+    this.record = record;
+  }
+}
+
+const chainHead = async (): Promise<AuditEntry | undefined> => {
+  const tx = (await getDb()).transaction(AUDIT_STORE, 'readonly');
+  const cursor = await requestToPromise(tx.objectStore(AUDIT_STORE).openCursor(null, 'prev'));
+  return cursor?.value;
+};
+
+/**
+ * Adds entries under their sequence numbers. If another tab extended the
+ * chain since the entries were linked, the add fails, the transaction aborts
+ * and `onConflict` is called so the write can be retried on the new head.
+ */
+function appendEntries(tx: IDBTransaction, entries: AuditEntry[], onConflict: () => void): void {
+  const log = tx.objectStore(AUDIT_STORE);
+  entries.forEach(entry => {
+    const request = log.add(entry);
+    request.onerror = () => {
+      if (request.error?.name === 'ConstraintError') onConflict();
+    };
+  });
+}
+
+/**
+ * Stores new records and replaces existing ones by record_id, chaining an
+ * audit entry for each and queueing it for the API server in the same
+ * transaction. Nothing is written if any of them would replace a record
+ * locked in a pay run.
+ */
+export async function addRecords(records: PayrollOutput[]): Promise<PayrollOutput[]> {
+  const prepared = records.map(prepareRecord);
+  for (let attempt = 1; ; attempt++) {
+    const head = await chainHead();
+    const existing = await Promise.all(prepared.map(r => getRecord(r.record_id!)));
+    const entries = await linkEntries(head, prepared.map((record, i) => ({
+      record_id: record.record_id!,
+      action: existing[i] ? AuditAction.UPDATED : AuditAction.CREATED,
+      record
+    })));
+
+    const queuedAt = new Date().toISOString();
+    const tx = (await getDb()).transaction([STORE, AUDIT_STORE, OUTBOX_STORE], 'readwrite');
+    const store = tx.objectStore(STORE);
+    const outbox = tx.objectStore(OUTBOX_STORE);
+    let locked: PayrollOutput | undefined;
+    let conflict = false;
+    prepared.forEach(r => {
+      const request = store.get(r.record_id!);
+      request.onsuccess = () => {
+        const existing: PayrollOutput | undefined = request.result;
+        if (locked) return;
+        if (existing?.pay_run_id) {
+          locked = existing;
+          tx.abort();
+          return;
+        }
+        store.put(r);
+        outbox.put({ record_id: r.record_id, queued_at: queuedAt });
+      };
+    });
+    appendEntries(tx, entries, () => { conflict = true; });
+    try {
+      await transactionDone(tx);
+    } catch (err) {
+      if (locked) throw new LockedRecordError(locked);
+      if (conflict && attempt < AUDIT_WRITE_ATTEMPTS) continue;
+      throw err;
+    }
+    if (entries.length > 0) saveChainAnchor(entries[entries.length - 1]);
+    return prepared;
+  }
+}
+
+// Returns the record as stored, with its record_id and shift_date
+export async function addRecord(record: PayrollOutput): Promise<PayrollOutput> {
+  const [stored] = await addRecords([record]);
+  return stored;
+}
+
+export async function getRecord(recordId: string): Promise<PayrollOutput | undefined> {
+  const tx = (await getDb()).transaction(STORE, 'readonly');
+  return requestToPromise(tx.objectStore(STORE).get(recordId));
+}
+
+export async function countRecords(): Promise<number> {
+  const tx = (await getDb()).transaction(STORE, 'readonly');
+  return requestToPromise(tx.objectStore(STORE).count());
+}
+
+// Records locked in approved pay runs survive a purge; returns how many were kept
+export async function clearHistory(): Promise<number> {
+  for (let attempt = 1; ; attempt++) {
+    const head = await chainHead();
+    const all: PayrollOutput[] = await requestToPromise((await getDb()).transaction(STORE, 'readonly').objectStore(STORE).getAll());
+    const purged = all.filter(r => !r.pay_run_id);
+    const entries = await linkEntries(head, purged.map(r => ({ record_id: r.record_id!, action: AuditAction.PURGED })));
+
+    const tx = (await getDb()).transaction([STORE, AUDIT_STORE], 'readwrite');
+    const store = tx.objectStore(STORE);
+    let conflict = false;
+    purged.forEach(r => {
+      const request = store.get(r.record_id!);
+      request.onsuccess = () => {
+        // Locked by a pay run approved since the records were read
+        if ((request.result as PayrollOutput | undefined)?.pay_run_id) {
+          conflict = true;
+          tx.abort();
+          return;
+        }
+        store.delete(r.record_id!);
+      };
+    });
+    appendEntries(tx, entries, () => { conflict = true; });
+    try {
+      await transactionDone(tx);
+    } catch (err) {
+      if (conflict && attempt < AUDIT_WRITE_ATTEMPTS) continue;
+      throw err;
+    }
+    if (entries.length > 0) saveChainAnchor(entries[entries.length - 1]);
+    return all.length - purged.length;
+  }
+}
+
+/**
+ * Walks the records matching the query, newest first within the index used.
+ * The most selective of employee, sector and risk level picks the index; any
+ * other filters are applied while walking it. `visit` returns false to stop.
+ */
+async function scanRecords(query: HistoryQuery, visit: (record: PayrollOutput) => boolean): Promise<void> {
+  const store = (await getDb()).transaction(STORE, 'readonly').objectStore(STORE);
+
+  let source: IDBIndex;
+  let range: IDBKeyRange | undefined;
+  const byField = (index: string, value: string) => {
+    source = store.index(index);
+    range = IDBKeyRange.bound([value, ''], [value, MAX_TIMESTAMP]);
+  };
+  if (query.employee_id) byField('employee', query.employee_id);
+  else if (query.sector) byField('sector', query.sector);
+  else if (query.risk_level) byField('risk_level', query.risk_level);
+  else if (query.from || query.to) {
+    source = store.index('shift_date');
+    range = query.from && query.to
+      ? IDBKeyRange.bound(query.from, query.to)
+      : query.from ? IDBKeyRange.lowerBound(query.from) : IDBKeyRange.upperBound(query.to!);
+  } else {
+    source = store.index('timestamp');
+  }
+
+  const matches = (r: PayrollOutput) =>
+    (!query.employee_id || r.employee_id === query.employee_id) &&
+    (!query.sector || r.sector === query.sector) &&
+    (!query.risk_level || r.risk_level === query.risk_level) &&
+    (!query.from || r.shift_date! >= query.from) &&
+    (!query.to || r.shift_date! <= query.to) &&
+    (!query.work_status || r.work_status === query.work_status) &&
+    (query.authorized === undefined || r.authorized === query.authorized);
+
+  return new Promise((resolve, reject) => {
+    const request = source!.openCursor(range, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      if (matches(cursor.value) && !visit(cursor.value)) {
+        resolve();
+        return;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Only the date index is not ordered by time within a key
+const orderedByDay = (query: HistoryQuery) => (query.from || query.to) && !query.employee_id && !query.sector && !query.risk_level;
+
+// Newest first
+export async function queryRecords(query: HistoryQuery = {}): Promise<PayrollOutput[]> {
+  const results: PayrollOutput[] = [];
+  await scanRecords(query, record => {
+    results.push(record);
+    return query.limit === undefined || results.length < query.limit;
+  });
+  return orderedByDay(query) ? results.sort((a, b) => b.timestamp.localeCompare(a.timestamp)) : results;
+}
+
+const RISK_RANK = Object.values(RiskLevel);
+
+const sortValue = (record: PayrollOutput, field: ArchiveSortField): string | number =>
+  field === 'risk_level' ? RISK_RANK.indexOf(record.risk_level) : record[field];
+
+/**
+ * One page of the matching records in the given order, ties broken newest
+ * first. Only the sort value of each match is held while sorting, so large
+ * archives are not loaded whole.
+ */
+export async function pageRecords(query: HistoryQuery, sort: ArchiveSort, offset: number, limit: number): Promise<RecordPage> {
+  const keys: { record_id: string; value: string | number; timestamp: string }[] = [];
+  await scanRecords({ ...query, limit: undefined }, record => {
+    keys.push({ record_id: record.record_id!, value: sortValue(record, sort.field), timestamp: record.timestamp });
+    return true;
+  });
+  const direction = sort.descending ? -1 : 1;
+  keys.sort((a, b) =>
+    (a.value < b.value ? -direction : a.value > b.value ? direction : 0) || b.timestamp.localeCompare(a.timestamp)
+  );
+
+  const store = (await getDb()).transaction(STORE, 'readonly').objectStore(STORE);
+  const records = await Promise.all(keys.slice(offset, offset + limit).map(k => requestToPromise(store.get(k.record_id))));
+  return { records: records.filter(Boolean) as PayrollOutput[], total: keys.length };
+}
+
+// A verified (authorized) record for this employee on this shift day, if any
+export async function findVerifiedShift(employeeId: string, shiftDate: string): Promise<PayrollOutput | undefined> {
+  const tx = (await getDb()).transaction(STORE, 'readonly');
+  const records = await requestToPromise(tx.objectStore(STORE).index('employee_day').getAll([employeeId, shiftDate]));
+  return (records as PayrollOutput[]).find(r => r.authorized);
+}
+
+// Dashboard figures, computed by walking the store rather than loading it
+export async function summarizeHistory(): Promise<HistorySummary> {
+  const store = (await getDb()).transaction(STORE, 'readonly').objectStore(STORE);
+  const summary: HistorySummary = {
+    count: 0,
+    payable_total: 0,
+    average_efficiency: 0,
+    high_risk_count: 0,
+    denied_count: 0,
+    payable_by_sector: {},
+    risk_counts: Object.fromEntries(Object.values(RiskLevel).map(level => [level, 0])) as Record<RiskLevel, number>,
+    violation_counts: {}
+  };
+  let efficiencyTotal = 0;
+
+  return new Promise((resolve, reject) => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        summary.average_efficiency = summary.count ? efficiencyTotal / summary.count : 0;
+        resolve(summary);
+        return;
+      }
+      const r: PayrollOutput = cursor.value;
+      summary.count++;
+      efficiencyTotal += r.efficiency_percentage || 0;
+      summary.risk_counts[r.risk_level] = (summary.risk_counts[r.risk_level] ?? 0) + 1;
+      if (r.risk_level === RiskLevel.HIGH || r.risk_level === RiskLevel.CRITICAL) summary.high_risk_count++;
+      if (!r.authorized) summary.denied_count++;
+      getRecordViolations(r).forEach(v => {
+        const key = violationKey(v);
+        summary.violation_counts[key] = (summary.violation_counts[key] ?? 0) + 1;
+      });
+      if (isPayable(r)) {
+        summary.payable_total += r.final_salary;
+        summary.payable_by_sector[r.sector] = (summary.payable_by_sector[r.sector] ?? 0) + r.final_salary;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Newest period first
+export async function listPayRuns(): Promise<PayRun[]> {
+  const tx = (await getDb()).transaction(RUN_STORE, 'readonly');
+  const runs = await requestToPromise(tx.objectStore(RUN_STORE).index('period_start').getAll());
+  return (runs as PayRun[]).reverse();
+}
+
+export async function deletePayRun(runId: string): Promise<void> {
+  const tx = (await getDb()).transaction(RUN_STORE, 'readwrite');
+  tx.objectStore(RUN_STORE).delete(runId);
+  await transactionDone(tx);
+}
+
+/**
+ * Saves the run and, in the same transaction, locks its records to it when
+ * the run is locked or releases them when it is not.
+ */
+export async function savePayRun(run: PayRun): Promise<void> {
+  const tx = (await getDb()).transaction([RUN_STORE, STORE], 'readwrite');
+  tx.objectStore(RUN_STORE).put(run);
+  const records = tx.objectStore(STORE);
+  const lock = run.status === PayRunStatus.LOCKED;
+  run.lines.flatMap(line => line.record_ids).forEach(id => {
+    const request = records.get(id);
+    request.onsuccess = () => {
+      const record: PayrollOutput | undefined = request.result;
+      if (!record) return;
+      if (lock && record.pay_run_id !== run.run_id) records.put({ ...record, pay_run_id: run.run_id });
+      if (!lock && record.pay_run_id === run.run_id) {
+        const { pay_run_id, ...released } = record;
+        records.put(released);
+      }
+    };
+  });
+  await transactionDone(tx);
+}
+
+export async function putDispute(dispute: Dispute): Promise<void> {
+  const tx = (await getDb()).transaction(DISPUTE_STORE, 'readwrite');
+  tx.objectStore(DISPUTE_STORE).put(dispute);
+  await transactionDone(tx);
+}
+
+// Oldest first, so the review queue is worked in the order disputes were raised
+export async function listDisputes(status?: DisputeStatus): Promise<Dispute[]> {
+  const store = (await getDb()).transaction(DISPUTE_STORE, 'readonly').objectStore(DISPUTE_STORE);
+  const disputes = status
+    ? await requestToPromise(store.index('status').getAll(IDBKeyRange.bound([status, ''], [status, MAX_TIMESTAMP])))
+    : await requestToPromise(store.getAll());
+  return (disputes as Dispute[]).sort((a, b) => a.raised_at.localeCompare(b.raised_at));
+}
+
+export async function listRecordDisputes(recordId: string): Promise<Dispute[]> {
+  const tx = (await getDb()).transaction(DISPUTE_STORE, 'readonly');
+  const disputes = await requestToPromise(tx.objectStore(DISPUTE_STORE).index('record_id').getAll(recordId));
+  return (disputes as Dispute[]).sort((a, b) => a.raised_at.localeCompare(b.raised_at));
+}
+
+export async function putIncident(incident: Incident): Promise<void> {
+  const tx = (await getDb()).transaction(INCIDENT_STORE, 'readwrite');
+  tx.objectStore(INCIDENT_STORE).put(incident);
+  await transactionDone(tx);
+}
+
+export async function getIncident(incidentId: string): Promise<Incident | undefined> {
+  const tx = (await getDb()).transaction(INCIDENT_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(INCIDENT_STORE).get(incidentId));
+}
+
+export async function findRecordIncident(recordId: string): Promise<Incident | undefined> {
+  const tx = (await getDb()).transaction(INCIDENT_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(INCIDENT_STORE).index('record_id').get(recordId));
+}
+
+// Oldest first within the given statuses, or across all of them
+export async function listIncidents(statuses?: IncidentStatus[]): Promise<Incident[]> {
+  const store = (await getDb()).transaction(INCIDENT_STORE, 'readonly').objectStore(INCIDENT_STORE);
+  const incidents = statuses
+    ? (await Promise.all(statuses.map(status =>
+        requestToPromise(store.index('status').getAll(IDBKeyRange.bound([status, ''], [status, MAX_TIMESTAMP])))
+      ))).flat()
+    : await requestToPromise(store.getAll());
+  return (incidents as Incident[]).sort((a, b) => a.opened_at.localeCompare(b.opened_at));
+}
+
+// Stores the alert and queues its webhook deliveries together
+export async function addAlert(alert: Alert, deliveries: WebhookDelivery[]): Promise<void> {
+  const tx = (await getDb()).transaction([ALERT_STORE, DELIVERY_STORE], 'readwrite');
+  tx.objectStore(ALERT_STORE).add(alert);
+  deliveries.forEach(d => tx.objectStore(DELIVERY_STORE).add(d));
+  await transactionDone(tx);
+}
+
+export async function lastAlertForRule(ruleId: string): Promise<Alert | undefined> {
+  const tx = (await getDb()).transaction(ALERT_STORE, 'readonly');
+  const range = IDBKeyRange.bound([ruleId, ''], [ruleId, MAX_TIMESTAMP]);
+  const cursor = await requestToPromise(tx.objectStore(ALERT_STORE).index('rule').openCursor(range, 'prev'));
+  return cursor?.value;
+}
+
+export async function putDelivery(delivery: WebhookDelivery): Promise<void> {
+  const tx = (await getDb()).transaction(DELIVERY_STORE, 'readwrite');
+  tx.objectStore(DELIVERY_STORE).put(delivery);
+  await transactionDone(tx);
+}
+
+// Pending deliveries whose next attempt is due, earliest first
+export async function listDueDeliveries(now: Date): Promise<WebhookDelivery[]> {
+  const tx = (await getDb()).transaction(DELIVERY_STORE, 'readonly');
+  const range = IDBKeyRange.bound([DeliveryStatus.PENDING, ''], [DeliveryStatus.PENDING, now.toISOString()]);
+  return requestToPromise(tx.objectStore(DELIVERY_STORE).index('status').getAll(range));
+}
+
+// Newest first
+export async function listDeliveries(limit: number): Promise<WebhookDelivery[]> {
+  const index = (await getDb()).transaction(DELIVERY_STORE, 'readonly').objectStore(DELIVERY_STORE).index('created_at');
+  const deliveries: WebhookDelivery[] = [];
+  return new Promise((resolve, reject) => {
+    const request = index.openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || deliveries.length >= limit) {
+        resolve(deliveries);
+        return;
+      }
+      deliveries.push(cursor.value);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function putReview(item: ReviewItem): Promise<void> {
+  const tx = (await getDb()).transaction(REVIEW_STORE, 'readwrite');
+  tx.objectStore(REVIEW_STORE).put(item);
+  await transactionDone(tx);
+}
+
+// Oldest first, so held verifications are reviewed in the order they were captured
+export async function listReviews(status?: ReviewStatus): Promise<ReviewItem[]> {
+  const store = (await getDb()).transaction(REVIEW_STORE, 'readonly').objectStore(REVIEW_STORE);
+  const items = status
+    ? await requestToPromise(store.index('status').getAll(IDBKeyRange.bound([status, ''], [status, MAX_TIMESTAMP])))
+    : await requestToPromise(store.getAll());
+  return (items as ReviewItem[]).sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+}
+
+export async function countReviews(status: ReviewStatus): Promise<number> {
+  const tx = (await getDb()).transaction(REVIEW_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(REVIEW_STORE).index('status').count(IDBKeyRange.bound([status, ''], [status, MAX_TIMESTAMP])));
+}
+
+// Verifies the whole audit chain against every stored record
+export async function checkIntegrity(): Promise<IntegrityReport> {
+  const tx = (await getDb()).transaction([STORE, AUDIT_STORE], 'readonly');
+  const [entries, records] = await Promise.all([
+    requestToPromise(tx.objectStore(AUDIT_STORE).getAll()),
+    requestToPromise(tx.objectStore(STORE).getAll())
+  ]);
+  return verifyChain(entries as AuditEntry[], records as PayrollOutput[]);
+}
+
+export interface OutboxEntry {
+  record_id: string;
+  queued_at: string; // the write that queued it; a newer write re-queues the record
+}
+
+// Records queued for the API server; queue entries for records purged since are dropped
+export async function listUnsynced(limit: number): Promise<{ entry: OutboxEntry; record: PayrollOutput }[]> {
+  const tx = (await getDb()).transaction([OUTBOX_STORE, STORE], 'readonly');
+  const entries: OutboxEntry[] = await requestToPromise(tx.objectStore(OUTBOX_STORE).getAll(null, limit));
+  const records = await Promise.all(entries.map(e => requestToPromise<PayrollOutput | undefined>(tx.objectStore(STORE).get(e.record_id))));
+  const purged = entries.filter((_, i) => !records[i]);
+  if (purged.length > 0) await markSynced(purged);
+  return entries.flatMap((entry, i) => (records[i] ? [{ entry, record: records[i]! }] : []));
+}
+
+export async function countUnsynced(): Promise<number> {
+  const tx = (await getDb()).transaction(OUTBOX_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(OUTBOX_STORE).count());
+}
+
+// Leaves records that were written again while their upload was in flight queued
+export async function markSynced(entries: OutboxEntry[]): Promise<void> {
+  const tx = (await getDb()).transaction(OUTBOX_STORE, 'readwrite');
+  const outbox = tx.objectStore(OUTBOX_STORE);
+  entries.forEach(entry => {
+    const request = outbox.get(entry.record_id);
+    request.onsuccess = () => {
+      if ((request.result as OutboxEntry | undefined)?.queued_at === entry.queued_at) outbox.delete(entry.record_id);
+    };
+  });
+  await transactionDone(tx);
+}
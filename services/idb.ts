@@ -0,0 +1,30 @@
+// Promise wrappers over the bits of IndexedDB the local stores use.
+
+export type UpgradeHandler = (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => void;
+
+export function openDatabase(name: string, version: number, upgrade: UpgradeHandler): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = event => {
+      upgrade(request.result, event.oldVersion, request.transaction!);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`Database "${name}" is open in another tab. Close it and reload.`));
+  });
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+}
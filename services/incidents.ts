@@ -0,0 +1,196 @@
+import { Incident, IncidentEvent, IncidentStatus, PayrollOutput, RiskLevel } from "../types";
+import { formatViolation, getRecordViolations } from "./violations";
+import { findRecordIncident, listIncidents, putIncident } from "./historyStore";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hours an incident may sit before it is escalated, per risk level that raises one
+export const ESCALATION_HOURS: Partial<Record<RiskLevel, { acknowledge: number; close: number }>> = {
+  [RiskLevel.CRITICAL]: { acknowledge: 1, close: 24 },
+  [RiskLevel.HIGH]: { acknowledge: 4, close: 72 }
+};
+
+export const INCIDENT_STATUS_LABELS: Record<IncidentStatus, string> = {
+  [IncidentStatus.OPEN]: 'Open',
+  [IncidentStatus.ACKNOWLEDGED]: 'Acknowledged',
+  [IncidentStatus.CORRECTIVE_ACTION]: 'Corrective Action',
+  [IncidentStatus.CLOSED]: 'Closed'
+};
+
+export const ACTIVE_INCIDENT_STATUSES = [IncidentStatus.OPEN, IncidentStatus.ACKNOWLEDGED, IncidentStatus.CORRECTIVE_ACTION];
+
+const NEXT_STATUS: Partial<Record<IncidentStatus, IncidentStatus>> = {
+  [IncidentStatus.OPEN]: IncidentStatus.ACKNOWLEDGED,
+  [IncidentStatus.ACKNOWLEDGED]: IncidentStatus.CORRECTIVE_ACTION,
+  [IncidentStatus.CORRECTIVE_ACTION]: IncidentStatus.CLOSED
+};
+
+export const nextIncidentStatus = (incident: Incident): IncidentStatus | undefined => NEXT_STATUS[incident.status];
+
+export const raisesIncident = (record: PayrollOutput): boolean => !!ESCALATION_HOURS[record.risk_level];
+
+// The sector rules behind the risk rating, with the model's evidence, or its reasoning when no rule was broken
+export function describeViolations(record: PayrollOutput): string[] {
+  const violations = getRecordViolations(record);
+  if (violations.length > 0) return violations.map(v => `${formatViolation(v)}${v.evidence ? `: ${v.evidence}` : ''}`);
+  return [`Rated ${record.risk_level} risk: ${record.explanation}`];
+}
+
+/**
+ * Opens an incident for a stored high or critical risk record, with the
+ * frame it was verified on. Returns null when the record raises none or
+ * already has one, e.g. when an override rewrites it. A verification held
+ * for manual review opens a provisional one under its review_id, which is
+ * the record_id it is later stored under.
+ */
+export async function openIncident(record: PayrollOutput, evidenceImage?: string, provisional = false, now = new Date()): Promise<Incident | null> {
+  if (!record.record_id || !raisesIncident(record)) return null;
+  if (await findRecordIncident(record.record_id)) return null;
+
+  const incident: Incident = {
+    incident_id: crypto.randomUUID(),
+    record_id: record.record_id,
+    employee_id: record.employee_id,
+    employee_name: record.employee_name,
+    sector: record.sector,
+    risk_level: record.risk_level,
+    violations: describeViolations(record),
+    evidence_image: evidenceImage,
+    opened_at: now.toISOString(),
+    status: IncidentStatus.OPEN,
+    provisional: provisional || undefined,
+    events: [{
+      at: now.toISOString(),
+      by: record.audit?.operator ?? 'system',
+      status: IncidentStatus.OPEN,
+      comment: provisional ? 'Held for manual review; the risk rating is provisional.' : undefined
+    }]
+  };
+  await putIncident(incident);
+  return incident;
+}
+
+const withEvent = (incident: Incident, event: IncidentEvent, changes: Partial<Incident> = {}): Incident =>
+  ({ ...incident, ...changes, events: [...incident.events, event] });
+
+/**
+ * Settles the provisional incident of a verification released from manual
+ * review. It is kept with the reviewed findings while the record still
+ * raises an incident, and withdrawn (closed) otherwise. Returns the updated
+ * incident, or null when there was no provisional one.
+ */
+export async function settleProvisionalIncident(record: PayrollOutput, by: string, now = new Date()): Promise<Incident | null> {
+  const incident = record.record_id ? await findRecordIncident(record.record_id) : undefined;
+  if (!incident?.provisional) return null;
+
+  const at = now.toISOString();
+  const updated = raisesIncident(record)
+    ? withEvent(incident, { at, by, comment: `Manual review upheld ${record.risk_level} risk.` }, {
+      provisional: undefined,
+      risk_level: record.risk_level,
+      violations: describeViolations(record)
+    })
+    : withEvent(incident, { at, by, status: IncidentStatus.CLOSED, comment: `Withdrawn: manual review rated the verification ${record.risk_level} risk.` }, {
+      provisional: undefined,
+      status: IncidentStatus.CLOSED,
+      closed_at: at,
+      withdrawn_at: at,
+      escalated_at: undefined
+    });
+  await putIncident(updated);
+  return updated;
+}
+
+/**
+ * Moves the incident to its next state. Acknowledging takes ownership if
+ * nobody owns it; corrective action needs the action taken, and closing a
+ * note on how it was verified.
+ */
+export async function advanceIncident(incident: Incident, by: string, note: string, now = new Date()): Promise<Incident | string> {
+  const status = nextIncidentStatus(incident);
+  if (!status) return 'This incident is already closed.';
+  if (status !== IncidentStatus.ACKNOWLEDGED && !note.trim()) {
+    return status === IncidentStatus.CORRECTIVE_ACTION ? 'Describe the corrective action taken.' : 'Add a closing note.';
+  }
+
+  const at = now.toISOString();
+  const changes: Partial<Incident> = { status };
+  if (status === IncidentStatus.ACKNOWLEDGED) {
+    changes.acknowledged_at = at;
+    changes.owner = incident.owner ?? by;
+  }
+  if (status === IncidentStatus.CORRECTIVE_ACTION) changes.corrective_action = note.trim();
+  if (status === IncidentStatus.CLOSED) {
+    changes.closed_at = at;
+    changes.escalated_at = undefined;
+  }
+  const updated = withEvent(incident, { at, by, status, comment: note.trim() || undefined }, changes);
+  await putIncident(updated);
+  return updated;
+}
+
+export async function assignIncident(incident: Incident, owner: string, by: string, now = new Date()): Promise<Incident | string> {
+  if (incident.status === IncidentStatus.CLOSED) return 'Closed incidents cannot be reassigned.';
+  if (!owner.trim()) return 'Choose an owner.';
+  const updated = withEvent(incident, { at: now.toISOString(), by, owner: owner.trim() }, { owner: owner.trim() });
+  await putIncident(updated);
+  return updated;
+}
+
+export async function commentOnIncident(incident: Incident, by: string, comment: string, now = new Date()): Promise<Incident | string> {
+  if (!comment.trim()) return 'The comment is empty.';
+  const updated = withEvent(incident, { at: now.toISOString(), by, comment: comment.trim() });
+  await putIncident(updated);
+  return updated;
+}
+
+// Why the incident is overdue now, or null; each deadline escalates once
+export function escalationDue(incident: Incident, now = new Date()): string | null {
+  const limits = ESCALATION_HOURS[incident.risk_level];
+  if (!limits || incident.status === IncidentStatus.CLOSED) return null;
+  const age = now.getTime() - Date.parse(incident.opened_at);
+  const reason =
+    age > limits.close * HOUR_MS ? `Not closed within ${limits.close} h` :
+    incident.status === IncidentStatus.OPEN && age > limits.acknowledge * HOUR_MS ? `Not acknowledged within ${limits.acknowledge} h` :
+    null;
+  return reason && !incident.events.some(e => e.escalation === reason) ? reason : null;
+}
+
+// Escalates every incident past a deadline; returns the ones escalated by this call
+export async function escalateOverdue(now = new Date()): Promise<Incident[]> {
+  const escalated: Incident[] = [];
+  for (const incident of await listIncidents(ACTIVE_INCIDENT_STATUSES)) {
+    const reason = escalationDue(incident, now);
+    if (!reason) continue;
+    const updated = withEvent(incident, { at: now.toISOString(), by: 'system', escalation: reason }, { escalated_at: now.toISOString() });
+    await putIncident(updated);
+    escalated.push(updated);
+  }
+  return escalated;
+}
+
+export interface IncidentStats {
+  active: number;
+  escalated: number;
+  closed: number;
+  mean_hours_to_close: number | null; // null until one has closed
+}
+
+// Withdrawn incidents were never confirmed, so they do not count as closed
+export function summarizeIncidents(incidents: Incident[]): IncidentStats {
+  const closed = incidents.filter(i => i.closed_at && !i.withdrawn_at);
+  const totalHours = closed.reduce((sum, i) => sum + (Date.parse(i.closed_at!) - Date.parse(i.opened_at)) / HOUR_MS, 0);
+  return {
+    active: incidents.filter(i => i.status !== IncidentStatus.CLOSED).length,
+    escalated: incidents.filter(i => i.escalated_at).length,
+    closed: closed.length,
+    mean_hours_to_close: closed.length > 0 ? totalHours / closed.length : null
+  };
+}
+
+// "45 min", "3.5 h" or "2.1 d" for an elapsed time
+export function formatElapsed(ms: number): string {
+  const hours = ms / HOUR_MS;
+  if (hours < 1) return `${Math.max(0, Math.round(hours * 60))} min`;
+  return hours < 48 ? `${hours.toFixed(1)} h` : `${(hours / 24).toFixed(1)} d`;
+}
@@ -0,0 +1,159 @@
+import {
+  ActivityLevel,
+  AnalysisProvider,
+  AnalysisRequest,
+  AnalysisResponse,
+  PpeFindings,
+  PpeItem,
+  RiskLevel,
+  ViolationCode,
+  ViolationFinding,
+  VisionAnalysis,
+  WorkingStatus
+} from "../types";
+import { BASE_EFFICIENCY, PPE_LABELS, getMissingPpe, getSectorPolicy, getTrackedPpeItems } from "./sectorPolicies";
+import { toBox2d } from "./detections";
+import { toWorkingStatus } from "./responseValidation";
+import { deriveRiskLevel } from "./violations";
+import fixtures from "../fixtures/mock-analysis.json";
+
+export const MOCK_MODEL = 'offline-rules-v1';
+export const MOCK_PROMPT_VERSION = 'offline';
+
+const SIMULATED_LATENCY_MS = 400;
+
+const ACTIVITY_SEQUENCE = [
+  ActivityLevel.HIGH,
+  ActivityLevel.HIGH,
+  ActivityLevel.MEDIUM,
+  ActivityLevel.MEDIUM,
+  ActivityLevel.LOW
+];
+
+// FNV-1a, so the same employee on the same shift day always gets the same verdict
+const hash = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// How many people share the frame, by seed: mostly one, sometimes a crowd at the gate
+const CROWD_SIZES = [1, 1, 2, 3];
+
+// Horizontal centres for up to three people; the primary worker stands in the middle
+const SLOT_CENTRES = [0.5, 0.2, 0.8];
+
+interface Verdict {
+  activity_level: ActivityLevel;
+  ppe: PpeFindings;
+  missing: PpeItem[];
+  efficiency_percentage: number;
+  risk_level: RiskLevel;
+  violations: ViolationFinding[];
+}
+
+function judge(sector: string, seed: number, fixture: Partial<VisionAnalysis> = {}): Verdict {
+  const policy = getSectorPolicy(sector);
+  const activity_level = fixture.activity_level ?? ACTIVITY_SEQUENCE[seed % ACTIVITY_SEQUENCE.length];
+
+  // Each tracked item is worn unless its seed bit lands in the 1-in-8 miss window
+  const ppe: PpeFindings = {};
+  getTrackedPpeItems().forEach((item, i) => {
+    ppe[item] = ((seed >>> (i * 3)) & 7) !== 0;
+  });
+  Object.assign(ppe, fixture.ppe);
+
+  const missing = getMissingPpe(sector, ppe);
+  const penalty = missing.length * (policy?.penalties.missing_ppe ?? 0);
+  const efficiency_percentage = Math.max(0, Math.min(100, BASE_EFFICIENCY[activity_level] - penalty));
+
+  // The offline rules never judge posture
+  const violations = missing.map(item => ({
+    code: ViolationCode.MISSING_PPE,
+    item,
+    evidence: `Offline rules: no ${PPE_LABELS[item].toLowerCase()} in the seeded verdict.`
+  }));
+  const risk_level = deriveRiskLevel(sector, activity_level, violations);
+
+  return { activity_level, ppe, missing, efficiency_percentage, risk_level, violations };
+}
+
+function toDetection(verdict: Verdict, slot: number, confidence: number) {
+  // People further from the gate camera appear smaller
+  const width = slot === 0 ? 0.26 : 0.18;
+  const height = slot === 0 ? 0.75 : 0.55;
+  const centre = SLOT_CENTRES[slot];
+  return {
+    box_2d: toBox2d({ x: centre - width / 2, y: 0.9 - height, width, height }),
+    working_status: toWorkingStatus(verdict.activity_level),
+    activity_level: verdict.activity_level,
+    ppe: verdict.ppe,
+    efficiency_percentage: verdict.efficiency_percentage,
+    risk_level: verdict.risk_level,
+    confidence,
+    violations: verdict.violations
+  };
+}
+
+function applyRules(request: AnalysisRequest) {
+  const fixture = (fixtures as Record<string, Partial<VisionAnalysis>>)[request.employee_id] ?? {};
+  const seed = hash(`${request.employee_id}|${request.shift.shift_start.slice(0, 10)}`);
+  const human_detected = fixture.human_detected ?? !!request.worker_image;
+  const confidence = fixture.confidence ?? 0.9;
+
+  if (!human_detected) {
+    return {
+      human_detected,
+      working_status: WorkingStatus.ABSENT,
+      activity_level: ActivityLevel.NOT_PRESENT,
+      ppe: Object.fromEntries(getTrackedPpeItems().map(item => [item, false])),
+      efficiency_percentage: 0,
+      risk_level: RiskLevel.NONE,
+      confidence,
+      explanation: fixture.explanation ?? 'Offline rules: no frame supplied, worker treated as absent.',
+      detections: []
+    };
+  }
+
+  const primary = judge(request.sector, seed, fixture);
+  const crowd = CROWD_SIZES[(seed >>> 24) % CROWD_SIZES.length];
+  const bystanders = Array.from({ length: crowd - 1 }, (_, i) => judge(request.sector, hash(`${seed}|${i + 1}`)));
+
+  return {
+    human_detected,
+    working_status: fixture.working_status ?? toWorkingStatus(primary.activity_level),
+    activity_level: primary.activity_level,
+    ppe: primary.ppe,
+    efficiency_percentage: primary.efficiency_percentage,
+    risk_level: primary.risk_level,
+    confidence,
+    violations: primary.violations,
+    explanation: fixture.explanation ??
+      `Offline rules: ${primary.activity_level} activity${primary.missing.length ? `, missing ${primary.missing.join(', ')}` : ', PPE compliant'}` +
+      (crowd > 1 ? `; ${crowd} people in frame.` : '.'),
+    detections: [
+      toDetection(primary, 0, confidence),
+      ...bystanders.map((verdict, i) => toDetection(verdict, i + 1, 0.8))
+    ]
+  };
+}
+
+async function analyze(request: AnalysisRequest): Promise<AnalysisResponse> {
+  await new Promise(resolve => setTimeout(resolve, SIMULATED_LATENCY_MS));
+  return {
+    text: JSON.stringify(applyRules(request)),
+    model: MOCK_MODEL,
+    prompt_version: MOCK_PROMPT_VERSION
+  };
+}
+
+export const mockAnalysisProvider: AnalysisProvider = {
+  id: 'mock',
+  label: 'Offline Rules (demo)',
+  model: MOCK_MODEL,
+  prompt_version: MOCK_PROMPT_VERSION,
+  analyze
+};
@@ -0,0 +1,125 @@
+import {
+  ActivityLevel,
+  MonitoringSample,
+  RiskLevel,
+  Sector,
+  ShiftAggregate,
+  VisionAnalysis
+} from "../types";
+import { getMissingPpe } from "./sectorPolicies";
+import { toWorkingStatus } from "./responseValidation";
+
+const INTERVAL_KEY = 'monitoring_interval_seconds';
+
+export const DEFAULT_INTERVAL_SECONDS = 300;
+export const MIN_INTERVAL_SECONDS = 15;
+
+// Mean per-pixel difference (0..1) below which a frame is treated as unchanged
+export const DUPLICATE_THRESHOLD = 0.04;
+
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 24;
+
+// Lowest to highest
+export const RISK_ORDER = [RiskLevel.NONE, RiskLevel.LOW, RiskLevel.MEDIUM, RiskLevel.HIGH, RiskLevel.CRITICAL];
+
+export function getMonitoringInterval(): number {
+  const saved = Number(localStorage.getItem(INTERVAL_KEY));
+  return saved >= MIN_INTERVAL_SECONDS ? saved : DEFAULT_INTERVAL_SECONDS;
+}
+
+export function setMonitoringInterval(seconds: number): void {
+  localStorage.setItem(INTERVAL_KEY, String(Math.max(MIN_INTERVAL_SECONDS, Math.round(seconds))));
+}
+
+// Downscaled grayscale fingerprint of the current video frame
+export function frameSignature(video: HTMLVideoElement): Uint8ClampedArray | null {
+  if (!video.videoWidth) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = SIGNATURE_WIDTH;
+  canvas.height = SIGNATURE_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.drawImage(video, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const rgba = context.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT).data;
+  const gray = new Uint8ClampedArray(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return gray;
+}
+
+export function frameDifference(a: Uint8ClampedArray, b: Uint8ClampedArray): number {
+  if (a.length !== b.length) return 1;
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / (a.length * 255);
+}
+
+export function toSample(analysis: VisionAnalysis, sector: Sector, sampledAt: Date): MonitoringSample {
+  return {
+    sampled_at: sampledAt.toISOString(),
+    skipped: false,
+    activity_level: analysis.activity_level,
+    efficiency_percentage: analysis.efficiency_percentage,
+    ppe_compliant: analysis.human_detected && getMissingPpe(sector, analysis.ppe).length === 0,
+    risk_level: analysis.risk_level,
+    confidence: analysis.confidence
+  };
+}
+
+/**
+ * Each analyzed sample holds from its own timestamp until the next analyzed
+ * one (skipped duplicates extend it) and the last until `until`. Returns
+ * null when nothing has been analyzed yet.
+ */
+export function aggregateSamples(samples: MonitoringSample[], until: Date = new Date()): ShiftAggregate | null {
+  const analyzed = samples
+    .filter(s => !s.skipped)
+    .sort((a, b) => a.sampled_at.localeCompare(b.sampled_at));
+  if (analyzed.length === 0) return null;
+
+  const weights = analyzed.map((s, i) => {
+    const start = Date.parse(s.sampled_at);
+    const end = i + 1 < analyzed.length ? Date.parse(analyzed[i + 1].sampled_at) : until.getTime();
+    return Math.max(0, end - start);
+  });
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  // A single sample taken just now still counts
+  const weightOf = (i: number) => (totalWeight > 0 ? weights[i] / totalWeight : 1 / analyzed.length);
+
+  const activityTime = new Map<ActivityLevel, number>();
+  let efficiency = 0;
+  let compliance = 0;
+  let riskScore = 0;
+  analyzed.forEach((s, i) => {
+    const w = weightOf(i);
+    activityTime.set(s.activity_level!, (activityTime.get(s.activity_level!) ?? 0) + w);
+    efficiency += (s.efficiency_percentage ?? 0) * w;
+    compliance += (s.ppe_compliant ? 100 : 0) * w;
+    riskScore += RISK_ORDER.indexOf(s.risk_level ?? RiskLevel.NONE) * w;
+  });
+
+  return {
+    sample_count: analyzed.length,
+    skipped_count: samples.length - analyzed.length,
+    monitored_minutes: Math.round(totalWeight / 60000),
+    activity_level: [...activityTime.entries()].sort((a, b) => b[1] - a[1])[0][0],
+    efficiency_percentage: Math.round(efficiency),
+    ppe_compliance_percentage: Math.round(compliance),
+    risk_level: RISK_ORDER[Math.round(riskScore)],
+    peak_risk_level: RISK_ORDER[Math.max(...analyzed.map(s => RISK_ORDER.indexOf(s.risk_level ?? RiskLevel.NONE)))]
+  };
+}
+
+export function applyAggregate(analysis: VisionAnalysis, aggregate: ShiftAggregate): VisionAnalysis {
+  return {
+    ...analysis,
+    activity_level: aggregate.activity_level,
+    working_status: toWorkingStatus(aggregate.activity_level),
+    efficiency_percentage: aggregate.efficiency_percentage,
+    risk_level: aggregate.risk_level,
+    explanation: `${analysis.explanation} [Pay uses ${aggregate.sample_count} monitoring samples over ${aggregate.monitored_minutes} min: ` +
+      `${aggregate.efficiency_percentage}% efficiency, ${aggregate.ppe_compliance_percentage}% PPE compliance.]`
+  };
+}
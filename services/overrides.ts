@@ -0,0 +1,177 @@
+import {
+  ActivityLevel,
+  AiFindings,
+  Dispute,
+  DisputeStatus,
+  PayrollOutput,
+  PpeFindings,
+  PpeItem,
+  RecordOverride
+} from "../types";
+import { BASE_EFFICIENCY, getMissingPpe, getRecordPpe, getSectorPolicy } from "./sectorPolicies";
+import { applyAdjustment, resolveAdjustment } from "./payrollEngine";
+import { toWorkingStatus } from "./responseValidation";
+import { deriveRiskLevel, deriveViolations } from "./violations";
+import { LockedRecordError, addRecord, listRecordDisputes, putDispute } from "./historyStore";
+
+export interface OverrideRequest {
+  by: string;
+  reason: string;
+  ppe?: PpeFindings;
+  activity_level?: ActivityLevel;
+  efficiency_percentage?: number; // derived from the PPE and activity changes when absent
+  dispute_id?: string;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// What the model reported: kept on the record once overridden, otherwise its current fields
+export const getAiFindings = (record: PayrollOutput): AiFindings =>
+  record.ai_findings ?? {
+    ppe: getRecordPpe(record),
+    activity_level: record.activity_level,
+    working_status: record.working_status,
+    efficiency_percentage: record.efficiency_percentage,
+    adjustment_type: record.adjustment_type,
+    final_salary: record.final_salary,
+    risk_level: record.risk_level
+  };
+
+/**
+ * The record's efficiency moved by the difference the corrected findings make
+ * under the prompt's scoring: the activity base and the sector's missing-PPE
+ * penalty. Posture and other penalties the model applied are left in place.
+ */
+export function rederiveEfficiency(record: PayrollOutput, ppe: PpeFindings, activity: ActivityLevel): number {
+  const penalty = getSectorPolicy(record.sector)?.penalties.missing_ppe ?? 0;
+  const score = (findings: PpeFindings, level: ActivityLevel) =>
+    BASE_EFFICIENCY[level] - getMissingPpe(record.sector, findings).length * penalty;
+  const efficiency = record.efficiency_percentage + score(ppe, activity) - score(getRecordPpe(record), record.activity_level);
+  return clamp(Math.round(efficiency), 0, 100);
+}
+
+/**
+ * Corrects a record's findings and reprices its adjustment. When the PPE or
+ * activity changes, the risk level is re-rated from the sector policy. Hours,
+ * rate and base pay are unchanged: they never came from the model. Returns
+ * the updated record or the reason the override was refused.
+ */
+export function applyOverride(record: PayrollOutput, request: OverrideRequest): PayrollOutput | string {
+  if (!record.authorized) return 'Denied records carry no pay to correct.';
+  if (!request.by.trim()) return 'Enter the supervisor making the override.';
+  if (!request.reason.trim()) return 'A reason is required to override AI findings.';
+  if (request.efficiency_percentage !== undefined && !(request.efficiency_percentage >= 0 && request.efficiency_percentage <= 100)) {
+    return 'Efficiency must be between 0 and 100.';
+  }
+
+  const currentPpe = getRecordPpe(record);
+  const ppeChanges = Object.fromEntries(
+    Object.entries(request.ppe ?? {}).filter(([item, worn]) => !!currentPpe[item as PpeItem] !== worn)
+  ) as PpeFindings;
+  const activityChange = request.activity_level !== record.activity_level ? request.activity_level : undefined;
+  const efficiencyChange = request.efficiency_percentage !== record.efficiency_percentage ? request.efficiency_percentage : undefined;
+  if (Object.keys(ppeChanges).length === 0 && activityChange === undefined && efficiencyChange === undefined) {
+    return 'The override does not change any finding.';
+  }
+
+  const ppe = { ...currentPpe, ...ppeChanges };
+  const activity_level = activityChange ?? record.activity_level;
+  const efficiency_percentage = efficiencyChange ?? rederiveEfficiency(record, ppe, activity_level);
+  const adjustment_type = resolveAdjustment(efficiency_percentage);
+  const violations = deriveViolations(record.sector, ppe, record.violations);
+  const findingsChanged = Object.keys(ppeChanges).length > 0 || activityChange !== undefined;
+  const override: RecordOverride = {
+    at: new Date().toISOString(),
+    by: request.by.trim(),
+    reason: request.reason.trim(),
+    ppe: Object.keys(ppeChanges).length > 0 ? ppeChanges : undefined,
+    activity_level: activityChange,
+    efficiency_percentage,
+    dispute_id: request.dispute_id
+  };
+
+  return {
+    ...record,
+    ai_findings: getAiFindings(record),
+    ppe,
+    helmet: !!ppe[PpeItem.HELMET],
+    vest: !!ppe[PpeItem.VEST],
+    violations,
+    risk_level: findingsChanged ? deriveRiskLevel(record.sector, activity_level, violations) : record.risk_level,
+    activity_level,
+    working_status: toWorkingStatus(activity_level),
+    efficiency_percentage,
+    adjustment_type,
+    final_salary: applyAdjustment(record.base_salary, adjustment_type),
+    overrides: [...(record.overrides ?? []), override]
+  };
+}
+
+// Applies and stores an override; records in an approved pay run are refused
+export async function overrideRecord(record: PayrollOutput, request: OverrideRequest): Promise<PayrollOutput | string> {
+  const updated = applyOverride(record, request);
+  if (typeof updated === 'string') return updated;
+  try {
+    return await addRecord(updated);
+  } catch (err) {
+    if (err instanceof LockedRecordError) return 'This record is in an approved pay run. Reopen the run before overriding it.';
+    throw err;
+  }
+}
+
+export async function raiseDispute(record: PayrollOutput, raisedBy: string, message: string): Promise<Dispute | string> {
+  if (!record.record_id) return 'This result was not saved to history and cannot be disputed.';
+  if (!raisedBy.trim()) return 'Enter who is raising the dispute.';
+  if (!message.trim()) return 'Describe what the findings got wrong.';
+  const disputes = await listRecordDisputes(record.record_id);
+  if (disputes.some(d => d.status === DisputeStatus.OPEN)) return 'This record already has an open dispute.';
+
+  const dispute: Dispute = {
+    dispute_id: crypto.randomUUID(),
+    record_id: record.record_id,
+    employee_id: record.employee_id,
+    raised_at: new Date().toISOString(),
+    raised_by: raisedBy.trim(),
+    message: message.trim(),
+    status: DisputeStatus.OPEN
+  };
+  await putDispute(dispute);
+  return dispute;
+}
+
+/**
+ * Upholds a dispute by overriding the record's findings. The override names
+ * the dispute, and its reason becomes the resolution note.
+ */
+export async function upholdDispute(dispute: Dispute, record: PayrollOutput, request: OverrideRequest): Promise<{ dispute: Dispute; record: PayrollOutput } | string> {
+  if (dispute.status !== DisputeStatus.OPEN) return 'This dispute has already been resolved.';
+  const updated = await overrideRecord(record, { ...request, dispute_id: dispute.dispute_id });
+  if (typeof updated === 'string') return updated;
+
+  const resolved: Dispute = {
+    ...dispute,
+    status: DisputeStatus.UPHELD,
+    resolved_at: new Date().toISOString(),
+    resolved_by: request.by.trim(),
+    resolution_note: request.reason.trim()
+  };
+  await putDispute(resolved);
+  return { dispute: resolved, record: updated };
+}
+
+// Closes a dispute without changing the record; the note is shown to the worker
+export async function rejectDispute(dispute: Dispute, by: string, note: string): Promise<Dispute | string> {
+  if (dispute.status !== DisputeStatus.OPEN) return 'This dispute has already been resolved.';
+  if (!by.trim()) return 'Enter the supervisor rejecting the dispute.';
+  if (!note.trim()) return 'A note is required to reject a dispute.';
+
+  const resolved: Dispute = {
+    ...dispute,
+    status: DisputeStatus.REJECTED,
+    resolved_at: new Date().toISOString(),
+    resolved_by: by.trim(),
+    resolution_note: note.trim()
+  };
+  await putDispute(resolved);
+  return resolved;
+}
@@ -0,0 +1,164 @@
+import { Holiday, PayBreakdown, PayRules } from "../types";
+import { ResolvedShift, formatZonedDateTime } from "./shiftTime";
+import { roundCurrency, roundHours } from "./payrollEngine";
+
+const STORAGE_KEY = 'pay_rules_v1';
+const MINUTE_MS = 60 * 1000;
+// Zone offsets only change on the quarter hour, so they are looked up once per quarter
+const OFFSET_STEP_MINUTES = 15;
+
+const CLOCK_TIME = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const DEFAULT_PAY_RULES: PayRules = {
+  daily_overtime_hours: 8,
+  weekly_overtime_hours: 48,
+  overtime_multiplier: 1.5,
+  night_start: '22:00',
+  night_end: '06:00',
+  night_differential: 0.2,
+  holiday_multiplier: 2,
+  holidays: []
+};
+
+// Hours × rate with no premiums: what the model's reference calculation describes
+export const FLAT_PAY_RULES: PayRules = {
+  daily_overtime_hours: Infinity,
+  weekly_overtime_hours: Infinity,
+  overtime_multiplier: 1,
+  night_start: '00:00',
+  night_end: '00:00',
+  night_differential: 0,
+  holiday_multiplier: 1,
+  holidays: []
+};
+
+export function loadPayRules(): PayRules {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return saved ? { ...DEFAULT_PAY_RULES, ...JSON.parse(saved) } : DEFAULT_PAY_RULES;
+}
+
+export function savePayRules(rules: PayRules): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+}
+
+export function validatePayRules(rules: PayRules): string | null {
+  if (!(rules.daily_overtime_hours > 0 && rules.daily_overtime_hours <= 24)) return 'Daily overtime threshold must be between 0 and 24 hours.';
+  if (!(rules.weekly_overtime_hours > 0 && rules.weekly_overtime_hours <= 168)) return 'Weekly overtime threshold must be between 0 and 168 hours.';
+  if (!(rules.overtime_multiplier >= 1)) return 'Overtime multiplier must be at least 1.';
+  if (!(rules.holiday_multiplier >= 1)) return 'Holiday multiplier must be at least 1.';
+  if (!(rules.night_differential >= 0 && rules.night_differential <= 1)) return 'Night differential must be between 0% and 100%.';
+  if (!CLOCK_TIME.test(rules.night_start) || !CLOCK_TIME.test(rules.night_end)) return 'Night window times must be HH:MM.';
+  return null;
+}
+
+/**
+ * Parses a holiday calendar with one "YYYY-MM-DD Name" per line. Blank lines
+ * and lines starting with # are ignored.
+ */
+export function parseHolidays(text: string): { holidays: Holiday[]; errors: string[] } {
+  const holidays: Holiday[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+    const [date, ...name] = trimmed.split(/[\s,]+/);
+    if (!DATE.test(date) || Number.isNaN(Date.parse(date))) {
+      errors.push(`Line ${i + 1}: "${date}" is not a YYYY-MM-DD date`);
+      return;
+    }
+    if (holidays.some(h => h.date === date)) {
+      errors.push(`Line ${i + 1}: ${date} is listed twice`);
+      return;
+    }
+    holidays.push({ date, name: name.join(' ') || 'Public holiday' });
+  });
+  return { holidays: holidays.sort((a, b) => a.date.localeCompare(b.date)), errors };
+}
+
+export const formatHolidays = (holidays: Holiday[]): string =>
+  holidays.map(h => `${h.date} ${h.name}`).join('\n');
+
+const toMinuteOfDay = (clock: string): number => {
+  const [h, m] = clock.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const inNightWindow = (minute: number, start: number, end: number): boolean =>
+  start === end ? false : start < end ? minute >= start && minute < end : minute >= start || minute < end;
+
+// Monday of the week holding this YYYY-MM-DD date
+export function weekStart(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  const sinceMonday = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - sinceMonday * 24 * 60 * MINUTE_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Splits a shift into pay components. Each minute on shift is placed by its
+ * local wall-clock time: minutes on a listed holiday are holiday hours, the
+ * rest count towards the daily and then the weekly overtime thresholds, and
+ * night minutes earn the differential on top of whichever of those they are.
+ * Unpaid break time is taken from every component in proportion.
+ */
+export function computePayBreakdown(
+  shift: ResolvedShift,
+  hourlyRate: number,
+  rules: PayRules,
+  priorWeekRegularHours = 0
+): PayBreakdown {
+  const holidays = new Set(rules.holidays.map(h => h.date));
+  const nightStart = toMinuteOfDay(rules.night_start);
+  const nightEnd = toMinuteOfDay(rules.night_end);
+
+  let holidayMinutes = 0;
+  let nightMinutes = 0;
+  let offset = 0;
+  for (let minute = 0; minute < shift.gross_minutes; minute++) {
+    const instant = shift.start.getTime() + minute * MINUTE_MS;
+    if (minute === 0 || (instant / MINUTE_MS) % OFFSET_STEP_MINUTES === 0) {
+      offset = Date.parse(`${formatZonedDateTime(new Date(instant), shift.time_zone)}:00Z`) - Math.floor(instant / MINUTE_MS) * MINUTE_MS;
+    }
+    const local = new Date(instant + offset);
+    if (holidays.has(local.toISOString().slice(0, 10))) holidayMinutes++;
+    if (inNightWindow(local.getUTCHours() * 60 + local.getUTCMinutes(), nightStart, nightEnd)) nightMinutes++;
+  }
+
+  const paidShare = shift.gross_minutes > 0 ? shift.paid_minutes / shift.gross_minutes : 0;
+  const paidHours = roundHours(shift.paid_minutes / 60);
+  const holiday_hours = roundHours((holidayMinutes * paidShare) / 60);
+  const night_hours = roundHours((nightMinutes * paidShare) / 60);
+  const workdayHours = Math.max(0, roundHours(paidHours - holiday_hours));
+
+  const dailyOvertime = Math.max(0, workdayHours - rules.daily_overtime_hours);
+  const straight = workdayHours - dailyOvertime;
+  const weeklyOvertime = Math.max(0, Math.min(straight, priorWeekRegularHours + straight - rules.weekly_overtime_hours));
+  const regular_hours = roundHours(straight - weeklyOvertime);
+  const overtime_hours = roundHours(dailyOvertime + weeklyOvertime);
+
+  return {
+    regular_hours,
+    overtime_hours,
+    holiday_hours,
+    night_hours,
+    regular_pay: roundCurrency(regular_hours * hourlyRate),
+    overtime_pay: roundCurrency(overtime_hours * hourlyRate * rules.overtime_multiplier),
+    holiday_pay: roundCurrency(holiday_hours * hourlyRate * rules.holiday_multiplier),
+    night_pay: roundCurrency(night_hours * hourlyRate * rules.night_differential)
+  };
+}
+
+export const breakdownTotal = (breakdown: PayBreakdown): number =>
+  roundCurrency(breakdown.regular_pay + breakdown.overtime_pay + breakdown.holiday_pay + breakdown.night_pay);
+
+// True when anything beyond straight-time hours was paid
+export const hasPremiums = (breakdown?: PayBreakdown): boolean =>
+  !!breakdown && (breakdown.overtime_hours > 0 || breakdown.holiday_hours > 0 || breakdown.night_pay > 0);
+
+export const describeBreakdown = (breakdown: PayBreakdown): string =>
+  [
+    `${breakdown.regular_hours}H regular`,
+    breakdown.overtime_hours > 0 ? `${breakdown.overtime_hours}H overtime` : '',
+    breakdown.holiday_hours > 0 ? `${breakdown.holiday_hours}H holiday` : '',
+    breakdown.night_hours > 0 && breakdown.night_pay > 0 ? `${breakdown.night_hours}H night` : ''
+  ].filter(Boolean).join(' · ');
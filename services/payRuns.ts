@@ -0,0 +1,210 @@
+import {
+  PayPeriodFrequency,
+  PayRun,
+  PayRunAction,
+  PayRunLine,
+  PayRunStatus,
+  PayRunTotals,
+  PayrollOutput
+} from "../types";
+import { queryRecords, savePayRun } from "./historyStore";
+import { isPayable } from "./shiftSessions";
+import { roundCurrency, roundHours } from "./payrollEngine";
+
+const SETTINGS_KEY = 'pay_period_settings';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A Monday; weekly and biweekly periods start on this date or a multiple of their length from it
+export const DEFAULT_PAY_PERIOD_ANCHOR = '2026-01-05';
+
+export const PAY_PERIOD_LABELS: Record<PayPeriodFrequency, string> = {
+  [PayPeriodFrequency.WEEKLY]: 'Weekly',
+  [PayPeriodFrequency.BIWEEKLY]: 'Biweekly',
+  [PayPeriodFrequency.MONTHLY]: 'Monthly'
+};
+
+export interface PayPeriodSettings {
+  frequency: PayPeriodFrequency;
+  anchor: string; // YYYY-MM-DD
+}
+
+export interface PayPeriod {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+export function loadPayPeriodSettings(): PayPeriodSettings {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  const settings: Partial<PayPeriodSettings> = saved ? JSON.parse(saved) : {};
+  return {
+    frequency: Object.values(PayPeriodFrequency).includes(settings.frequency!) ? settings.frequency! : PayPeriodFrequency.BIWEEKLY,
+    anchor: /^\d{4}-\d{2}-\d{2}$/.test(settings.anchor ?? '') ? settings.anchor! : DEFAULT_PAY_PERIOD_ANCHOR
+  };
+}
+
+export function savePayPeriodSettings(settings: PayPeriodSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+const toDay = (date: string): number => Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+const fromDay = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+// The pay period containing this YYYY-MM-DD date
+export function payPeriodFor(date: string, settings: PayPeriodSettings): PayPeriod {
+  if (settings.frequency === PayPeriodFrequency.MONTHLY) {
+    const [year, month] = date.split('-').map(Number);
+    return { start: `${date.slice(0, 7)}-01`, end: fromDay(Date.UTC(year, month, 0) / DAY_MS) };
+  }
+  const length = settings.frequency === PayPeriodFrequency.WEEKLY ? 7 : 14;
+  const anchor = toDay(settings.anchor);
+  const start = anchor + Math.floor((toDay(date) - anchor) / length) * length;
+  return { start: fromDay(start), end: fromDay(start + length - 1) };
+}
+
+export const findOverlappingRun = (runs: PayRun[], period: PayPeriod): PayRun | undefined =>
+  runs.find(run => run.period_start <= period.end && period.start <= run.period_end);
+
+/**
+ * One line per employee from their verified shifts: completed, authorized
+ * records only. Lines and record IDs are sorted so two calculations over
+ * the same records compare equal.
+ */
+export function buildPayRunLines(records: PayrollOutput[]): PayRunLine[] {
+  const byEmployee = new Map<string, PayrollOutput[]>();
+  records
+    .filter(r => r.authorized && isPayable(r) && r.record_id)
+    .forEach(r => byEmployee.set(r.employee_id, [...(byEmployee.get(r.employee_id) ?? []), r]));
+
+  return [...byEmployee.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([employee_id, shifts]) => {
+      const latest = shifts.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+      const base = shifts.reduce((sum, r) => sum + r.base_salary, 0);
+      const gross = shifts.reduce((sum, r) => sum + r.final_salary, 0);
+      return {
+        employee_id,
+        employee_name: latest.employee_name,
+        sector: latest.sector,
+        shift_count: shifts.length,
+        hours_worked: roundHours(shifts.reduce((sum, r) => sum + r.hours_worked, 0)),
+        base_salary: roundCurrency(base),
+        adjustment_total: roundCurrency(gross - base),
+        gross_pay: roundCurrency(gross),
+        flagged_count: shifts.filter(r => r.flagged).length,
+        record_ids: shifts.map(r => r.record_id!).sort()
+      };
+    });
+}
+
+export function totalPayRun(lines: PayRunLine[]): PayRunTotals {
+  const sum = (pick: (line: PayRunLine) => number) => lines.reduce((total, line) => total + pick(line), 0);
+  return {
+    employee_count: lines.length,
+    shift_count: sum(l => l.shift_count),
+    hours_worked: roundHours(sum(l => l.hours_worked)),
+    base_salary: roundCurrency(sum(l => l.base_salary)),
+    adjustment_total: roundCurrency(sum(l => l.adjustment_total)),
+    gross_pay: roundCurrency(sum(l => l.gross_pay)),
+    flagged_count: sum(l => l.flagged_count)
+  };
+}
+
+// Verified shifts in the period that are free or already belong to this run
+async function periodRecords(run: Pick<PayRun, 'run_id' | 'period_start' | 'period_end'>): Promise<PayrollOutput[]> {
+  const records = await queryRecords({ from: run.period_start, to: run.period_end });
+  return records.filter(r => !r.pay_run_id || r.pay_run_id === run.run_id);
+}
+
+const calculate = async (run: PayRun): Promise<PayRun> => {
+  const lines = buildPayRunLines(await periodRecords(run));
+  return { ...run, lines, totals: totalPayRun(lines), calculated_at: new Date().toISOString() };
+};
+
+/**
+ * Creates and stores a draft run for the period. Returns an operator-facing
+ * reason instead when another run already covers part of it.
+ */
+export async function createPayRun(runs: PayRun[], period: PayPeriod, frequency: PayPeriodFrequency, by?: string): Promise<PayRun | string> {
+  const overlapping = findOverlappingRun(runs, period);
+  if (overlapping) return `The ${overlapping.period_start} to ${overlapping.period_end} run already covers part of this period.`;
+
+  const now = new Date().toISOString();
+  const run = await calculate({
+    run_id: crypto.randomUUID(),
+    frequency,
+    period_start: period.start,
+    period_end: period.end,
+    status: PayRunStatus.DRAFT,
+    created_at: now,
+    calculated_at: now,
+    lines: [],
+    totals: totalPayRun([]),
+    history: [{ action: PayRunAction.CREATED, at: now, by: by || undefined }]
+  });
+  await savePayRun(run);
+  return run;
+}
+
+export async function recalculatePayRun(run: PayRun, by?: string): Promise<PayRun | string> {
+  if (run.status !== PayRunStatus.DRAFT) return 'Locked runs cannot be recalculated. Reopen the run first.';
+  const next = await calculate(run);
+  next.history = [...run.history, { action: PayRunAction.RECALCULATED, at: next.calculated_at, by: by || undefined }];
+  await savePayRun(next);
+  return next;
+}
+
+/**
+ * Approves a draft as reviewed and locks its records. If the period's records
+ * changed since the run was calculated, the draft is recalculated instead and
+ * a reason returned so the supervisor reviews the new figures first.
+ */
+export async function approvePayRun(run: PayRun, approver: string): Promise<PayRun | string> {
+  if (run.status !== PayRunStatus.DRAFT) return 'This run is already approved.';
+  if (!approver.trim()) return 'Enter the approving supervisor.';
+
+  const current = await calculate(run);
+  if (JSON.stringify(current.lines) !== JSON.stringify(run.lines)) {
+    await savePayRun({
+      ...current,
+      history: [...run.history, { action: PayRunAction.RECALCULATED, at: current.calculated_at, by: approver.trim() }]
+    });
+    return 'Records in this period changed since the run was calculated. Review the updated figures and approve again.';
+  }
+  if (current.lines.length === 0) return 'There are no verified shifts in this period to approve.';
+
+  const at = new Date().toISOString();
+  const approved: PayRun = {
+    ...run,
+    status: PayRunStatus.LOCKED,
+    approved_by: approver.trim(),
+    approved_at: at,
+    history: [...run.history, { action: PayRunAction.APPROVED, at, by: approver.trim() }]
+  };
+  await savePayRun(approved);
+  return approved;
+}
+
+// Unlocks an approved run and its records; the reason is kept in the run's history
+export async function reopenPayRun(run: PayRun, by: string, reason: string): Promise<PayRun | string> {
+  if (run.status !== PayRunStatus.LOCKED) return 'Only approved runs can be reopened.';
+  if (!by.trim()) return 'Enter who is reopening the run.';
+  if (!reason.trim()) return 'A reason is required to reopen an approved run.';
+
+  const reopened: PayRun = {
+    ...run,
+    status: PayRunStatus.DRAFT,
+    approved_by: undefined,
+    approved_at: undefined,
+    history: [...run.history, { action: PayRunAction.REOPENED, at: new Date().toISOString(), by: by.trim(), reason: reason.trim() }]
+  };
+  await savePayRun(reopened);
+  return reopened;
+}
+
+// Verified shifts in a locked run's period that arrived after it was approved
+export async function countLateRecords(run: PayRun): Promise<number> {
+  if (run.status !== PayRunStatus.LOCKED) return 0;
+  const lines = buildPayRunLines(await periodRecords(run));
+  const included = new Set(run.lines.flatMap(line => line.record_ids));
+  return lines.flatMap(line => line.record_ids).filter(id => !included.has(id)).length;
+}
@@ -0,0 +1,176 @@
+import {
+  ActivityLevel,
+  AdjustmentType,
+  PayRules,
+  PayrollDiscrepancy,
+  PayrollFigures,
+  PayrollInput,
+  PayrollOutput,
+  RiskLevel,
+  Sector,
+  ShiftWindow,
+  VisionAnalysis,
+  WorkingStatus,
+  WorkStatus
+} from "../types";
+import { ResolvedShift, formatZonedDateTime, resolveShift } from "./shiftTime";
+import { RateResolution, loadRateCard, resolveRate } from "./rateCards";
+import { loadRoster } from "./rosterStore";
+import { breakdownTotal, computePayBreakdown, loadPayRules } from "./payRules";
+
+const FULL_DAY_HOURS = 6;
+const BONUS_THRESHOLD = 90;
+const PENALTY_THRESHOLD = 50;
+const ADJUSTMENT_RATE = 0.1;
+
+// The figures the model reports and the reconciliation audits
+const FIGURE_FIELDS: (keyof PayrollFigures)[] = ['hours_worked', 'hourly_rate', 'base_salary', 'final_salary', 'work_status', 'adjustment_type'];
+
+// Model figures within this distance of ours are treated as agreeing
+const MONEY_TOLERANCE = 0.01;
+const HOURS_TOLERANCE = 0.01;
+
+export const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+export const roundHours = (value: number): number => Math.round(value * 100) / 100;
+
+export function calculateHoursWorked(shift: ResolvedShift): number {
+  return roundHours(shift.paid_minutes / 60);
+}
+
+export function toShiftWindow(shift: ResolvedShift): ShiftWindow {
+  return {
+    shift_start: shift.start.toISOString(),
+    shift_end: shift.end.toISOString(),
+    time_zone: shift.time_zone,
+    break_minutes: shift.break_minutes
+  };
+}
+
+// The rate card entry for the employee's roster grade on the local day the shift started
+export function resolveHourlyRate(employeeId: string, sector: Sector, shiftDate: string): RateResolution {
+  const payGrade = loadRoster().find(e => e.employee_id === employeeId)?.pay_grade;
+  return resolveRate(loadRateCard(), sector, payGrade, shiftDate);
+}
+
+export const shiftStartDate = (shift: ResolvedShift): string =>
+  formatZonedDateTime(shift.start, shift.time_zone).slice(0, 10);
+
+export function resolveAdjustment(efficiency: number): AdjustmentType {
+  if (efficiency >= BONUS_THRESHOLD) return AdjustmentType.BONUS;
+  if (efficiency >= PENALTY_THRESHOLD) return AdjustmentType.NORMAL;
+  return AdjustmentType.PENALTY;
+}
+
+export function applyAdjustment(baseSalary: number, adjustment: AdjustmentType): number {
+  switch (adjustment) {
+    case AdjustmentType.BONUS:
+      return roundCurrency(baseSalary * (1 + ADJUSTMENT_RATE));
+    case AdjustmentType.PENALTY:
+      return roundCurrency(baseSalary * (1 - ADJUSTMENT_RATE));
+    case AdjustmentType.DENIED:
+      return 0;
+    default:
+      return roundCurrency(baseSalary);
+  }
+}
+
+export interface PayContext {
+  rules?: PayRules; // the saved pay rules when absent
+  prior_week_regular_hours?: number; // straight-time hours already paid this week
+}
+
+// The engine's figures plus how it arrived at them
+export type ComputedPayroll = PayrollFigures & Pick<PayrollOutput, 'pay_breakdown' | 'pay_grade' | 'rate_effective_from'>;
+
+export function computePayroll(
+  analysis: VisionAnalysis,
+  input: PayrollInput,
+  authorized = true,
+  context: PayContext = {}
+): ComputedPayroll {
+  const shift = resolveShift(input);
+  const hours_worked = calculateHoursWorked(shift);
+  const rate = resolveHourlyRate(input.employee_id, input.sector, shiftStartDate(shift));
+  const hourly_rate = rate.hourly_rate;
+  const rateSource = { pay_grade: rate.pay_grade, rate_effective_from: rate.effective_from };
+
+  if (!authorized) {
+    return {
+      hours_worked,
+      hourly_rate,
+      base_salary: 0,
+      final_salary: 0,
+      work_status: WorkStatus.DENIED,
+      adjustment_type: AdjustmentType.DENIED,
+      ...rateSource
+    };
+  }
+
+  const pay_breakdown = computePayBreakdown(shift, hourly_rate, context.rules ?? loadPayRules(), context.prior_week_regular_hours);
+  const base_salary = breakdownTotal(pay_breakdown);
+  const adjustment_type = resolveAdjustment(analysis.efficiency_percentage);
+
+  return {
+    hours_worked,
+    hourly_rate,
+    base_salary,
+    final_salary: applyAdjustment(base_salary, adjustment_type),
+    work_status: hours_worked >= FULL_DAY_HOURS ? WorkStatus.FULL_DAY : WorkStatus.HALF_DAY,
+    adjustment_type,
+    pay_breakdown,
+    ...rateSource
+  };
+}
+
+// A denial decided locally (roster, policy) without consulting the model.
+export function buildDeniedRecord(input: PayrollInput, reason: string): PayrollOutput {
+  const analysis: VisionAnalysis = {
+    human_detected: false,
+    working_status: WorkingStatus.ABSENT,
+    activity_level: ActivityLevel.NOT_PRESENT,
+    ppe: {},
+    efficiency_percentage: 0,
+    risk_level: RiskLevel.NONE,
+    confidence: 1,
+    explanation: reason
+  };
+  return {
+    employee_id: input.employee_id,
+    sector: input.sector,
+    authorized: false,
+    ...toShiftWindow(resolveShift(input)),
+    ...analysis,
+    helmet: false,
+    vest: false,
+    violations: [],
+    ...computePayroll(analysis, input, false),
+    timestamp: new Date().toISOString()
+  };
+}
+
+// Compares whatever figures the model volunteered against the engine's own.
+export function reconcilePayroll(
+  modelFigures: Partial<Record<keyof PayrollFigures, unknown>>,
+  computed: PayrollFigures
+): PayrollDiscrepancy[] {
+  const discrepancies: PayrollDiscrepancy[] = [];
+  FIGURE_FIELDS.forEach(field => {
+    const modelValue = modelFigures[field];
+    if (modelValue === undefined || modelValue === null) return;
+
+    const computedValue = computed[field];
+    if (typeof computedValue === 'number') {
+      const tolerance = field === 'hours_worked' ? HOURS_TOLERANCE : MONEY_TOLERANCE;
+      const numeric = Number(modelValue);
+      if (Number.isFinite(numeric) && Math.abs(numeric - computedValue) <= tolerance) return;
+      discrepancies.push({
+        field,
+        model_value: Number.isFinite(numeric) ? numeric : String(modelValue),
+        computed_value: computedValue
+      });
+    } else if (String(modelValue).toLowerCase() !== computedValue) {
+      discrepancies.push({ field, model_value: String(modelValue), computed_value: computedValue });
+    }
+  });
+  return discrepancies;
+}
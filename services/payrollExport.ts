@@ -0,0 +1,77 @@
+import * as XLSX from "xlsx";
+import { PayBreakdown, PayrollOutput, PpeItem } from "../types";
+import { formatCsv } from "./csv";
+import { downloadBlob, downloadText } from "./download";
+
+type Cell = string | number | boolean | undefined;
+
+// Every PayrollOutput field, in export column order
+const EXPORT_FIELDS = [
+  'record_id', 'timestamp', 'shift_date', 'employee_id', 'employee_name', 'sector', 'roster_sector',
+  'authorized', 'shift_id', 'shift_event', 'pay_final', 'shift_start', 'shift_end', 'time_zone', 'break_minutes',
+  'hours_worked', 'hourly_rate', 'pay_grade', 'rate_effective_from', 'base_salary', 'adjustment_type', 'final_salary', 'work_status',
+  'human_detected', 'working_status', 'activity_level', 'efficiency_percentage', 'risk_level',
+  'helmet', 'vest', 'ppe', 'confidence', 'explanation', 'flagged', 'discrepancies', 'monitoring',
+  'detections', 'selected_detection', 'analysis_provider', 'model', 'prompt_version', 'recording_key', 'replayed', 'uploaded_by',
+  'pay_run_id', 'pay_breakdown', 'ai_findings', 'overrides', 'violations', 'manual_review', 'audit'
+] as const satisfies readonly (keyof PayrollOutput)[];
+
+// Fails to compile when a field is added to PayrollOutput but not to the export
+type UnexportedField = Exclude<keyof PayrollOutput, typeof EXPORT_FIELDS[number]>;
+const allFieldsExported: [UnexportedField] extends [never] ? true : UnexportedField = true;
+void allFieldsExported;
+
+const PPE_COLUMNS = Object.values(PpeItem).map(item => `ppe_${item}`);
+
+const BREAKDOWN_FIELDS: (keyof PayBreakdown)[] = [
+  'regular_hours', 'overtime_hours', 'holiday_hours', 'night_hours',
+  'regular_pay', 'overtime_pay', 'holiday_pay', 'night_pay'
+];
+
+// PPE findings and the pay breakdown get a column per item rather than a JSON cell
+export const EXPORT_COLUMNS: string[] = EXPORT_FIELDS.flatMap(field =>
+  field === 'ppe' ? PPE_COLUMNS : field === 'pay_breakdown' ? [...BREAKDOWN_FIELDS] : [field]);
+
+// Spreadsheet apps execute text that starts like a formula; model explanations are untrusted
+const neutralizeFormula = (value: string): string => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+
+function toCell(value: unknown): Cell {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') return neutralizeFormula(value);
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  return neutralizeFormula(JSON.stringify(value));
+}
+
+export function toExportRow(record: PayrollOutput): Record<string, Cell> {
+  const row: Record<string, Cell> = {};
+  EXPORT_FIELDS.forEach(field => {
+    if (field === 'ppe') {
+      Object.values(PpeItem).forEach(item => { row[`ppe_${item}`] = record.ppe?.[item]; });
+    } else if (field === 'pay_breakdown') {
+      BREAKDOWN_FIELDS.forEach(key => { row[key] = record.pay_breakdown?.[key]; });
+    } else {
+      row[field] = toCell(record[field]);
+    }
+  });
+  return row;
+}
+
+// Also served by the API server's export endpoint, so both files have the same columns
+export function formatExportCsv(records: PayrollOutput[]): string {
+  const rows = records.map(toExportRow);
+  const csv = formatCsv([EXPORT_COLUMNS, ...rows.map(row => EXPORT_COLUMNS.map(column => row[column]))]);
+  // BOM so Excel opens the file as UTF-8
+  return `\uFEFF${csv}`;
+}
+
+export function exportCsv(records: PayrollOutput[], filename: string): void {
+  downloadText(filename, formatExportCsv(records), 'text/csv;charset=utf-8');
+}
+
+export function exportXlsx(records: PayrollOutput[], filename: string): void {
+  const sheet = XLSX.utils.json_to_sheet(records.map(toExportRow), { header: EXPORT_COLUMNS });
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, sheet, 'Payroll');
+  const data = XLSX.write(book, { type: 'array', bookType: 'xlsx' });
+  downloadBlob(filename, new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }));
+}
@@ -0,0 +1,172 @@
+import {
+  AnalysisProvider,
+  AnalysisRequest,
+  AnalysisResponse,
+  Detection,
+  Employee,
+  PayrollInput,
+  PayrollOutput,
+  PpeItem,
+  RecordingMode,
+  ShiftAggregate,
+  ShiftWindow
+} from "../types";
+import { computePayroll, reconcilePayroll, resolveHourlyRate, shiftStartDate, toShiftWindow } from "./payrollEngine";
+import { formatZonedDateTime, resolveShift } from "./shiftTime";
+import { FLAT_PAY_RULES, weekStart } from "./payRules";
+import { queryRecords } from "./historyStore";
+import { isPayable } from "./shiftSessions";
+import { getActiveProvider } from "./analysisProviders";
+import { AnalysisError, AnalysisErrorKind, classifyError } from "./analysisErrors";
+import { findRecording, getRecordingMode, recordingKey, saveRecording } from "./recordingStore";
+import { ParsedAnalysis, parseVisionAnalysis } from "./responseValidation";
+import { applyAggregate } from "./monitoring";
+import { applyDetection } from "./detections";
+import { deriveViolations } from "./violations";
+import { withRetry } from "./retry";
+import { buildAuditEnvelope } from "./audit";
+import { currentOperator } from "./accessControl";
+
+export interface CalculateOptions {
+  provider?: AnalysisProvider;
+  recordingMode?: RecordingMode;
+  monitoring?: ShiftAggregate;
+  operator?: string; // the signed-in user when absent
+  // Verified but not yet in history, e.g. earlier rows of a batch; they count toward weekly overtime
+  pending_records?: PayrollOutput[];
+  // Asked to match the employee to a person when several share the frame; null cancels
+  selectDetection?: (detections: Detection[]) => Promise<number | null>;
+}
+
+async function fetchAnalysis(provider: AnalysisProvider, request: AnalysisRequest) {
+  // Malformed answers are retried alongside network and quota failures
+  return withRetry(async () => {
+    const response = await provider.analyze(request).catch(error => { throw classifyError(error); });
+    return { response, ...parseVisionAnalysis(response.text) };
+  }, {
+    shouldRetry: error => error instanceof AnalysisError && error.retryable,
+    onRetry: (error, attempt) => console.warn(`Analysis attempt ${attempt} failed, retrying:`, error)
+  });
+}
+
+// Straight-time hours from the employee's completed shifts earlier in the same Monday-Sunday week.
+// Pending records count too, unless the same shift has reached history since.
+async function priorWeekRegularHours(input: PayrollInput, shift: ShiftWindow, pending: PayrollOutput[] = []): Promise<number> {
+  const localDate = (window: Partial<ShiftWindow>) => formatZonedDateTime(new Date(window.shift_start!), window.time_zone!).slice(0, 10);
+  const shiftDate = localDate(shift);
+  const from = weekStart(shiftDate);
+  const stored = await queryRecords({ employee_id: input.employee_id, from, to: shiftDate });
+  const unstored = pending.filter(p =>
+    p.employee_id === input.employee_id && p.shift_start && p.time_zone &&
+    localDate(p) >= from && localDate(p) <= shiftDate &&
+    !stored.some(r => r.shift_start === p.shift_start)
+  );
+  return [...stored, ...unstored]
+    .filter(r => r.authorized && isPayable(r) && r.shift_start && r.shift_start < shift.shift_start)
+    .reduce((sum, r) => sum + (r.pay_breakdown?.regular_hours ?? r.hours_worked), 0);
+}
+
+export interface AnalyzedFrame extends ParsedAnalysis {
+  response: AnalysisResponse;
+  shift: ShiftWindow;
+  recording_key?: string;
+}
+
+/**
+ * Runs one frame through the provider without computing pay. In RECORD mode
+ * the exact request and raw response are stored; in REPLAY mode the provider
+ * is never called and a matching recording answers instead.
+ */
+export async function analyzeFrame(input: PayrollInput, options: CalculateOptions = {}): Promise<AnalyzedFrame> {
+  const provider = options.provider ?? getActiveProvider();
+  const recordingMode = options.recordingMode ?? getRecordingMode();
+  const resolved = resolveShift(input);
+  const shift = toShiftWindow(resolved);
+  const request: AnalysisRequest = {
+    employee_id: input.employee_id,
+    sector: input.sector,
+    shift,
+    hourly_rate: resolveHourlyRate(input.employee_id, input.sector, shiftStartDate(resolved)).hourly_rate,
+    worker_image: input.worker_image
+  };
+
+  try {
+    const key = recordingMode === RecordingMode.OFF ? undefined : await recordingKey(provider, request);
+
+    if (recordingMode === RecordingMode.REPLAY) {
+      const recording = await findRecording(key!);
+      if (!recording) {
+        throw new AnalysisError(AnalysisErrorKind.REPLAY_MISS, `No recording ${key!.slice(0, 12)} for ${provider.id}/${provider.prompt_version}`);
+      }
+      return { response: recording.response, shift, recording_key: key, ...parseVisionAnalysis(recording.response.text) };
+    }
+
+    const result = await fetchAnalysis(provider, request);
+    if (recordingMode === RecordingMode.RECORD) await saveRecording(key!, provider, input, request, result.response);
+    return { ...result, shift, recording_key: key };
+  } catch (error) {
+    console.error("Phoenix AI Verification failed:", error);
+    throw classifyError(error);
+  }
+}
+
+/**
+ * When several people are in frame the operator picks the employee among
+ * them first. When the shift was monitored, the time-weighted aggregate then
+ * replaces the spot frame's activity, efficiency and risk before pay is computed.
+ */
+export async function calculatePayroll(
+  input: PayrollInput,
+  employee?: Employee,
+  options: CalculateOptions = {}
+): Promise<PayrollOutput> {
+  const provider = options.provider ?? getActiveProvider();
+  const recordingMode = options.recordingMode ?? getRecordingMode();
+  const { response, raw, shift, recording_key, analysis: frameAnalysis } = await analyzeFrame(input, { ...options, provider, recordingMode });
+
+  const detections = frameAnalysis.detections ?? [];
+  let selected: number | undefined = detections.length === 1 ? 0 : undefined;
+  if (detections.length > 1 && options.selectDetection) {
+    const choice = await options.selectDetection(detections);
+    if (choice === null) throw new Error('Verification cancelled: no person was matched to the employee.');
+    selected = choice;
+  }
+  const personAnalysis = selected !== undefined ? applyDetection(frameAnalysis, detections[selected]) : frameAnalysis;
+
+  const monitoring = options.monitoring;
+  const analysis = monitoring ? applyAggregate(personAnalysis, monitoring) : personAnalysis;
+
+  // The model's arithmetic is advisory only; the engine's figures are paid out.
+  // Reconciled against flat hours × rate on the model's own top-level reading,
+  // since that is what its reference calculation describes.
+  const figures = computePayroll(analysis, input, true, { prior_week_regular_hours: await priorWeekRegularHours(input, shift, options.pending_records) });
+  const discrepancies = reconcilePayroll(raw, computePayroll(frameAnalysis, input, true, { rules: FLAT_PAY_RULES }));
+  const sectorMismatch = !!employee && employee.sector !== input.sector;
+  // Several people and nobody matched: the prominent one was assumed
+  const unmatched = detections.length > 1 && selected === undefined;
+
+  return {
+    employee_id: input.employee_id,
+    sector: input.sector,
+    authorized: true,
+    ...shift,
+    ...analysis,
+    helmet: !!analysis.ppe[PpeItem.HELMET],
+    vest: !!analysis.ppe[PpeItem.VEST],
+    violations: analysis.human_detected ? deriveViolations(input.sector, analysis.ppe, analysis.violations) : [],
+    ...figures,
+    discrepancies,
+    flagged: discrepancies.length > 0 || sectorMismatch || unmatched,
+    employee_name: employee?.name,
+    roster_sector: sectorMismatch ? employee?.sector : undefined,
+    analysis_provider: provider.id,
+    model: response.model,
+    prompt_version: response.prompt_version,
+    recording_key,
+    replayed: recordingMode === RecordingMode.REPLAY || undefined,
+    monitoring,
+    selected_detection: selected,
+    audit: await buildAuditEnvelope(options.operator ?? currentOperator(), input.worker_image, response),
+    timestamp: new Date().toISOString()
+  };
+}
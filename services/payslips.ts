@@ -0,0 +1,155 @@
+import { jsPDF } from "jspdf";
+import { AdjustmentType, Employee, PayrollOutput } from "../types";
+import { PPE_LABELS, getMissingPpe, getRecordPpe, getSectorPolicy } from "./sectorPolicies";
+import { isPayable } from "./shiftSessions";
+import { roundCurrency, roundHours } from "./payrollEngine";
+import { describeBreakdown, hasPremiums } from "./payRules";
+
+const PAGE_TOP = 20;
+const PAGE_BOTTOM = 275;
+const LEFT = 15;
+const RIGHT = 195;
+
+// Left edges of the shift table columns, in mm
+const COLUMNS = { date: LEFT, hours: 45, rate: 65, base: 88, adjustment: 113, final: 170 };
+
+const ADJUSTMENT_LABELS: Record<AdjustmentType, string> = {
+  [AdjustmentType.BONUS]: 'Bonus',
+  [AdjustmentType.NORMAL]: 'Normal',
+  [AdjustmentType.PENALTY]: 'Penalty',
+  [AdjustmentType.DENIED]: 'Denied'
+};
+
+export interface PayslipPeriod {
+  from?: string;
+  to?: string;
+}
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+
+const distinct = (values: string[]): string => [...new Set(values)].join(', ');
+
+// Checked-out, authorized shifts; check-ins, mid-shift checks and denials carry no pay
+export const payslipRecords = (records: PayrollOutput[]): PayrollOutput[] =>
+  records.filter(r => r.authorized && isPayable(r));
+
+function describeFindings(record: PayrollOutput): string {
+  const ppe = getRecordPpe(record);
+  const required = getSectorPolicy(record.sector)?.required_ppe ?? [];
+  const missing = getMissingPpe(record.sector, ppe);
+  const ppeText = required.length === 0
+    ? 'no PPE required'
+    : missing.length === 0 ? `PPE complete (${required.map(item => PPE_LABELS[item]).join(', ')})` : `missing ${missing.map(item => PPE_LABELS[item]).join(', ')}`;
+  return `Efficiency ${record.efficiency_percentage}% · ${record.activity_level.replace('_', ' ')} activity · ${ppeText} · risk ${record.risk_level}` +
+    (hasPremiums(record.pay_breakdown) ? ` · ${describeBreakdown(record.pay_breakdown!)}` : '') +
+    (record.monitoring ? ` · ${record.monitoring.sample_count} monitoring samples` : '') +
+    (record.overrides?.length ? ` · findings corrected by ${record.overrides[record.overrides.length - 1].by}` : '') +
+    (record.flagged ? ' · FLAGGED for review' : '');
+}
+
+function drawPayslip(doc: jsPDF, employeeId: string, records: PayrollOutput[], period: PayslipPeriod, employee?: Employee): void {
+  const dates = records.map(r => r.shift_date ?? r.timestamp.slice(0, 10)).sort();
+  const from = period.from ?? dates[0];
+  const to = period.to ?? dates[dates.length - 1];
+  // As paid on each shift, so a later regrade or transfer does not rewrite the payslip
+  const grades = distinct(records.map(r => r.pay_grade).filter(Boolean));
+  let y = PAGE_TOP;
+
+  doc.setFont('helvetica', 'bold').setFontSize(16).text('MineGuard AI · Payslip', LEFT, y);
+  doc.setFont('helvetica', 'normal').setFontSize(9).text(`Generated ${new Date().toISOString().slice(0, 16).replace('T', ' ')} UTC`, RIGHT, y, { align: 'right' });
+  y += 10;
+
+  doc.setFontSize(11).setFont('helvetica', 'bold').text(`${employeeId}${employee?.name || records[0].employee_name ? ` · ${employee?.name ?? records[0].employee_name}` : ''}`, LEFT, y);
+  y += 6;
+  doc.setFont('helvetica', 'normal').setFontSize(9);
+  doc.text(`Sector: ${distinct(records.map(r => r.sector))}${grades ? ` · Pay grade ${grades}` : ''}`, LEFT, y);
+  doc.text(`Pay period: ${from} to ${to}`, RIGHT, y, { align: 'right' });
+  y += 8;
+
+  const header = () => {
+    doc.setFont('helvetica', 'bold').setFontSize(8);
+    doc.text('Shift date', COLUMNS.date, y);
+    doc.text('Hours', COLUMNS.hours, y);
+    doc.text('Rate', COLUMNS.rate, y);
+    doc.text('Base', COLUMNS.base, y);
+    doc.text('Efficiency adjustment', COLUMNS.adjustment, y);
+    doc.text('Final', RIGHT, y, { align: 'right' });
+    y += 2;
+    doc.line(LEFT, y, RIGHT, y);
+    y += 5;
+    doc.setFont('helvetica', 'normal');
+  };
+  header();
+
+  let hours = 0;
+  let base = 0;
+  let final = 0;
+  [...records].sort((a, b) => (a.shift_start ?? a.timestamp).localeCompare(b.shift_start ?? b.timestamp)).forEach(r => {
+    if (y > PAGE_BOTTOM - 12) {
+      doc.addPage();
+      y = PAGE_TOP;
+      header();
+    }
+    const adjustment = roundCurrency(r.final_salary - r.base_salary);
+    doc.setFontSize(9);
+    doc.text(r.shift_date ?? r.timestamp.slice(0, 10), COLUMNS.date, y);
+    doc.text(r.hours_worked.toFixed(2), COLUMNS.hours, y);
+    doc.text(money(r.hourly_rate), COLUMNS.rate, y);
+    doc.text(money(r.base_salary), COLUMNS.base, y);
+    doc.text(`${ADJUSTMENT_LABELS[r.adjustment_type] ?? r.adjustment_type} ${adjustment >= 0 ? '+' : '-'}${money(Math.abs(adjustment))}`, COLUMNS.adjustment, y);
+    doc.text(money(r.final_salary), RIGHT, y, { align: 'right' });
+    y += 4;
+    doc.setFontSize(7).setTextColor(110);
+    const findings = doc.splitTextToSize(describeFindings(r), RIGHT - COLUMNS.hours);
+    doc.text(findings, COLUMNS.hours, y);
+    doc.setTextColor(0);
+    y += findings.length * 3 + 3;
+
+    hours += r.hours_worked;
+    base += r.base_salary;
+    final += r.final_salary;
+  });
+
+  if (y > PAGE_BOTTOM - 30) {
+    doc.addPage();
+    y = PAGE_TOP;
+  }
+  doc.line(LEFT, y, RIGHT, y);
+  y += 6;
+  const total = (label: string, value: string, bold = false) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal').setFontSize(bold ? 11 : 9);
+    doc.text(label, COLUMNS.adjustment, y);
+    doc.text(value, RIGHT, y, { align: 'right' });
+    y += bold ? 7 : 5;
+  };
+  total('Shifts', String(records.length));
+  total('Hours worked', roundHours(hours).toFixed(2));
+  total('Base salary', money(roundCurrency(base)));
+  total('Efficiency adjustments', `${final - base >= 0 ? '+' : '-'}${money(Math.abs(roundCurrency(final - base)))}`);
+  total('Final salary', money(roundCurrency(final)), true);
+
+  doc.setFont('helvetica', 'normal').setFontSize(7).setTextColor(110);
+  doc.text('Figures computed by the local payroll engine. Adjustments: efficiency >= 90% bonus, 50-89% normal, below 50% penalty.', LEFT, PAGE_BOTTOM + 10);
+  doc.setTextColor(0);
+}
+
+/**
+ * One payslip per employee, each starting on its own page, from the
+ * payable records given. Returns the number of payslips written.
+ */
+export function downloadPayslips(records: PayrollOutput[], period: PayslipPeriod, roster: Employee[] = []): number {
+  const byEmployee = new Map<string, PayrollOutput[]>();
+  payslipRecords(records).forEach(r => byEmployee.set(r.employee_id, [...(byEmployee.get(r.employee_id) ?? []), r]));
+  if (byEmployee.size === 0) return 0;
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  [...byEmployee.keys()].sort().forEach((employeeId, i) => {
+    if (i > 0) doc.addPage();
+    drawPayslip(doc, employeeId, byEmployee.get(employeeId)!, period, roster.find(e => e.employee_id === employeeId));
+  });
+
+  const ids = [...byEmployee.keys()];
+  const scope = ids.length === 1 ? ids[0] : 'all';
+  doc.save(`payslips_${scope}_${period.from ?? 'start'}_${period.to ?? 'today'}.pdf`);
+  return byEmployee.size;
+}
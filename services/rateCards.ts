@@ -0,0 +1,115 @@
+import { RateCardEntry, Sector } from "../types";
+import { SECTOR_POLICIES, getSectorPolicy } from "./sectorPolicies";
+import { parseCsvRecords } from "./csv";
+import { formatZonedDateTime, getLocalTimeZone } from "./shiftTime";
+
+const STORAGE_KEY = 'rate_card_v1';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Seeded on first run: each grade earns $5/h more than the one below, from the sector base rate
+const DEMO_GRADES = ['G1', 'G2', 'G3'];
+const DEMO_RATE_CARD: RateCardEntry[] = SECTOR_POLICIES.flatMap(policy =>
+  DEMO_GRADES.map((pay_grade, i) => ({
+    sector: policy.id,
+    pay_grade,
+    hourly_rate: policy.base_rate + i * 5,
+    effective_from: '2020-01-01'
+  })));
+
+export interface RateResolution {
+  hourly_rate: number;
+  pay_grade?: string;
+  effective_from?: string; // absent when no entry matched and the sector base rate applied
+}
+
+export function loadRateCard(): RateCardEntry[] {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return saved ? JSON.parse(saved) : DEMO_RATE_CARD;
+}
+
+export function saveRateCard(card: RateCardEntry[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(card));
+}
+
+export const rateCardToday = (): string => formatZonedDateTime(new Date(), getLocalTimeZone()).slice(0, 10);
+
+const sameSlot = (a: RateCardEntry, b: Pick<RateCardEntry, 'sector' | 'pay_grade'>) =>
+  a.sector === b.sector && a.pay_grade === b.pay_grade;
+
+/**
+ * The rate for a shift worked on `shiftDate`: the latest entry for the sector
+ * and grade that took effect on or before that day. Falls back to the
+ * sector's base rate when the card has no such entry.
+ */
+export function resolveRate(card: RateCardEntry[], sector: Sector, payGrade: string | undefined, shiftDate: string): RateResolution {
+  const entry = payGrade
+    ? card
+      .filter(e => sameSlot(e, { sector, pay_grade: payGrade }) && e.effective_from <= shiftDate)
+      .reduce<RateCardEntry | undefined>((latest, e) => (!latest || e.effective_from > latest.effective_from ? e : latest), undefined)
+    : undefined;
+  return entry
+    ? { hourly_rate: entry.hourly_rate, pay_grade: payGrade, effective_from: entry.effective_from }
+    : { hourly_rate: getSectorPolicy(sector)?.base_rate ?? 0, pay_grade: payGrade };
+}
+
+export function validateRateEntry(entry: RateCardEntry): string | null {
+  if (!getSectorPolicy(entry.sector)) return `Unknown sector "${entry.sector}"`;
+  if (!entry.pay_grade.trim()) return 'Pay grade is required';
+  if (!(entry.hourly_rate > 0)) return `${entry.sector} ${entry.pay_grade}: hourly rate must be above zero`;
+  if (!DATE.test(entry.effective_from) || isNaN(Date.parse(entry.effective_from))) {
+    return `${entry.sector} ${entry.pay_grade}: effective date must be YYYY-MM-DD`;
+  }
+  return null;
+}
+
+/**
+ * Schedules a rate. Entries that have taken effect are part of the pay record
+ * and never change, so a new rate must start after today, unless it is the
+ * first rate for its sector and grade. An entry scheduled for the same day is
+ * replaced. Returns the new card or the reason the entry was refused.
+ */
+export function addRateEntry(card: RateCardEntry[], entry: RateCardEntry, today = rateCardToday()): RateCardEntry[] | string {
+  const error = validateRateEntry(entry);
+  if (error) return error;
+  const existing = card.filter(e => sameSlot(e, entry));
+  if (existing.length > 0 && entry.effective_from <= today) {
+    return `${entry.sector} ${entry.pay_grade}: new rates must take effect after ${today}; shifts already worked keep their rate.`;
+  }
+  return [...card.filter(e => !(sameSlot(e, entry) && e.effective_from === entry.effective_from)), entry]
+    .sort((a, b) => a.sector.localeCompare(b.sector) || a.pay_grade.localeCompare(b.pay_grade) || a.effective_from.localeCompare(b.effective_from));
+}
+
+// Only rates that have not taken effect yet can be withdrawn
+export function removeRateEntry(card: RateCardEntry[], entry: RateCardEntry, today = rateCardToday()): RateCardEntry[] | string {
+  if (entry.effective_from <= today) return `The ${entry.sector} ${entry.pay_grade} rate from ${entry.effective_from} is already in effect and cannot be removed.`;
+  return card.filter(e => e !== entry);
+}
+
+/**
+ * Parses a rate card with the header
+ * sector,pay_grade,hourly_rate,effective_from
+ * Invalid rows are reported and skipped.
+ */
+export function parseRateCardCsv(text: string): { entries: RateCardEntry[]; errors: string[] } {
+  const entries: RateCardEntry[] = [];
+  const errors: string[] = [];
+
+  parseCsvRecords(text).forEach((row, i) => {
+    const sectorMatch = SECTOR_POLICIES.find(p => p.id.toLowerCase() === (row.sector ?? '').toLowerCase());
+    const entry: RateCardEntry = {
+      sector: sectorMatch?.id ?? row.sector ?? '',
+      pay_grade: (row.pay_grade ?? '').trim().toUpperCase(),
+      hourly_rate: Number(row.hourly_rate),
+      effective_from: row.effective_from ?? ''
+    };
+    const error = validateRateEntry(entry);
+    if (error) {
+      errors.push(`Row ${i + 2}: ${error}`);
+    } else {
+      entries.push(entry);
+    }
+  });
+
+  return { entries, errors };
+}
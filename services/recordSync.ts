@@ -0,0 +1,39 @@
+import { countUnsynced, listUnsynced, markSynced } from "./historyStore";
+import { uploadRecords } from "./apiClient";
+
+// Records per upload; verifications carry their raw model response, so batches stay modest
+const SYNC_BATCH_SIZE = 25;
+
+export interface SyncResult {
+  uploaded: number;
+  pending: number;
+  error?: string;
+}
+
+let inFlight: Promise<SyncResult> | null = null;
+
+/**
+ * Uploads queued record writes to the API server until the queue is empty or
+ * an upload fails. A failed batch stays queued for the next attempt, so a
+ * terminal that is offline for a shift catches up once the uplink returns.
+ */
+export function syncRecords(): Promise<SyncResult> {
+  if (!inFlight) inFlight = drain().finally(() => { inFlight = null; });
+  return inFlight;
+}
+
+async function drain(): Promise<SyncResult> {
+  let uploaded = 0;
+  try {
+    for (;;) {
+      const batch = await listUnsynced(SYNC_BATCH_SIZE);
+      if (batch.length === 0) break;
+      await uploadRecords(batch.map(b => b.record));
+      await markSynced(batch.map(b => b.entry));
+      uploaded += batch.length;
+    }
+    return { uploaded, pending: 0 };
+  } catch (err) {
+    return { uploaded, pending: await countUnsynced(), error: (err as Error).message };
+  }
+}
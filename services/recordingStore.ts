@@ -0,0 +1,121 @@
+import { AnalysisProvider, AnalysisRecording, AnalysisRequest, AnalysisResponse, PayrollInput, RecordingMode } from "../types";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import { canonicalJson, sha256Hex } from "./hash";
+
+const DB_NAME = 'phoenix_recordings';
+const DB_VERSION = 1;
+const STORE = 'recordings';
+const MODE_KEY = 'recording_mode';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+      const store = db.createObjectStore(STORE, { keyPath: 'key' });
+      store.createIndex('recorded_at', 'recorded_at');
+    });
+  }
+  return dbPromise;
+};
+
+export function getRecordingMode(): RecordingMode {
+  const saved = localStorage.getItem(MODE_KEY) as RecordingMode | null;
+  return saved && Object.values(RecordingMode).includes(saved) ? saved : RecordingMode.OFF;
+}
+
+export function setRecordingMode(mode: RecordingMode): void {
+  localStorage.setItem(MODE_KEY, mode);
+}
+
+/**
+ * Identical provider, model, prompt and request (image included) replay the
+ * same answer. The hourly rate is left out: it only feeds the model's
+ * reference calculation, and it is re-resolved from the local rate card at
+ * replay, so a regrade or another terminal's rates must not miss.
+ */
+export function recordingKey(provider: AnalysisProvider, request: AnalysisRequest): Promise<string> {
+  const { hourly_rate, ...keyed } = request;
+  return sha256Hex(canonicalJson({
+    provider: provider.id,
+    model: provider.model,
+    prompt_version: provider.prompt_version,
+    request: keyed
+  }));
+}
+
+export async function saveRecording(
+  key: string,
+  provider: AnalysisProvider,
+  input: PayrollInput,
+  request: AnalysisRequest,
+  response: AnalysisResponse
+): Promise<AnalysisRecording> {
+  const { worker_image, ...inputFields } = input;
+  const { worker_image: _, ...requestFields } = request;
+  const recording: AnalysisRecording = {
+    key,
+    recorded_at: new Date().toISOString(),
+    provider: provider.id,
+    model: response.model,
+    prompt_version: response.prompt_version,
+    input: inputFields,
+    request: requestFields,
+    worker_image,
+    response
+  };
+  await putRecordings([recording]);
+  return recording;
+}
+
+export async function putRecordings(recordings: AnalysisRecording[]): Promise<void> {
+  const tx = (await getDb()).transaction(STORE, 'readwrite');
+  recordings.forEach(r => tx.objectStore(STORE).put(r));
+  await transactionDone(tx);
+}
+
+export async function findRecording(key: string): Promise<AnalysisRecording | undefined> {
+  const tx = (await getDb()).transaction(STORE, 'readonly');
+  return requestToPromise(tx.objectStore(STORE).get(key));
+}
+
+// Newest first
+export async function listRecordings(): Promise<AnalysisRecording[]> {
+  const tx = (await getDb()).transaction(STORE, 'readonly');
+  const all = await requestToPromise(tx.objectStore(STORE).index('recorded_at').getAll());
+  return (all as AnalysisRecording[]).reverse();
+}
+
+export async function deleteRecording(key: string): Promise<void> {
+  const tx = (await getDb()).transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(key);
+  await transactionDone(tx);
+}
+
+export async function clearRecordings(): Promise<void> {
+  const tx = (await getDb()).transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).clear();
+  await transactionDone(tx);
+}
+
+// Puts the stored frame back so the recording can be fed through calculatePayroll again
+export function toReplayInput(recording: AnalysisRecording): PayrollInput {
+  return { ...recording.input, worker_image: recording.worker_image };
+}
+
+/**
+ * Parses a regression suite exported by the Admin Panel. Entries are
+ * validated for the fields replay needs; anything else is skipped.
+ */
+export function parseRecordingSuite(text: string): AnalysisRecording[] {
+  const parsed = JSON.parse(text);
+  const entries: unknown[] = Array.isArray(parsed) ? parsed : parsed?.recordings ?? [];
+  return entries.filter((r): r is AnalysisRecording => {
+    const rec = r as AnalysisRecording;
+    return !!rec && typeof rec.key === 'string' && !!rec.input && !!rec.request && typeof rec.response?.text === 'string';
+  });
+}
+
+export function buildRecordingSuite(recordings: AnalysisRecording[]): string {
+  return JSON.stringify({ format: 'phoenix-recordings', version: 1, recordings }, null, 2);
+}
@@ -0,0 +1,165 @@
+import { ActivityLevel, Detection, PpeFindings, PpeItem, RiskLevel, ViolationCode, ViolationFinding, VisionAnalysis, WorkingStatus } from "../types";
+import { AnalysisError, AnalysisErrorKind } from "./analysisErrors";
+import { toBoundingBox } from "./detections";
+
+export interface ParsedAnalysis {
+  analysis: VisionAnalysis;
+  // Everything else the model returned, kept for reconciliation against the engine
+  raw: Record<string, unknown>;
+}
+
+// Spellings the model has been seen to use for enum values; only tried when the value is not already one
+const ALIASES: Record<string, string> = {
+  absent: 'not_present',
+  none_present: 'not_present',
+  no_worker: 'not_present',
+  moderate: 'medium',
+  med: 'medium',
+  severe: 'critical',
+  active: 'working',
+  inactive: 'idle'
+};
+
+const toToken = (value: unknown): string => String(value ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+const schemaError = (message: string) => new AnalysisError(AnalysisErrorKind.SCHEMA, message);
+
+function readEnum<T extends string>(raw: Record<string, unknown>, field: string, values: Record<string, T>): T | undefined {
+  if (raw[field] === undefined || raw[field] === null) return undefined;
+  const token = toToken(raw[field]);
+  // "absent" is a working status but an alias of not_present for activity, so exact values win
+  const match = Object.values(values).find(v => v === token) ?? Object.values(values).find(v => v === ALIASES[token]);
+  if (!match) throw schemaError(`Field "${field}" has unsupported value "${String(raw[field])}"`);
+  return match;
+}
+
+function readBoolean(value: unknown, field: string): boolean {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 'yes' || value === 1) return true;
+  if (value === 'false' || value === 'no' || value === 0) return false;
+  throw schemaError(`Field "${field}" must be a boolean`);
+}
+
+function readNumber(value: unknown, field: string): number {
+  const numeric = typeof value === 'string' ? parseFloat(value.replace('%', '')) : value;
+  if (typeof numeric !== 'number' || !Number.isFinite(numeric)) throw schemaError(`Field "${field}" must be a number`);
+  return numeric;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const toWorkingStatus = (activity: ActivityLevel): WorkingStatus => {
+  if (activity === ActivityLevel.NOT_PRESENT) return WorkingStatus.ABSENT;
+  return activity === ActivityLevel.LOW ? WorkingStatus.IDLE : WorkingStatus.WORKING;
+};
+
+function readPpe(value: unknown, field: string): PpeFindings {
+  const ppe: PpeFindings = {};
+  if (value === undefined) return ppe;
+  if (typeof value !== 'object' || value === null) throw schemaError(`Field "${field}" must be an object`);
+  Object.entries(value as Record<string, unknown>).forEach(([key, worn]) => {
+    const item = Object.values(PpeItem).find(i => i === toToken(key));
+    if (item) ppe[item] = readBoolean(worn, `${field}.${key}`);
+  });
+  return ppe;
+}
+
+// Entries with a code or item this version does not know are skipped, like unknown PPE keys
+function readViolations(value: unknown, field: string): ViolationFinding[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw schemaError(`Field "${field}" must be an array`);
+  return value.flatMap((entry, i) => {
+    if (!entry || typeof entry !== 'object') throw schemaError(`Field "${field}[${i}]" must be an object`);
+    const raw = entry as Record<string, unknown>;
+    const code = Object.values(ViolationCode).find(c => c === toToken(raw.code));
+    const item = Object.values(PpeItem).find(p => p === toToken(raw.item));
+    if (!code || (code === ViolationCode.MISSING_PPE && !item)) return [];
+    const evidence = typeof raw.evidence === 'string' ? raw.evidence : '';
+    return [code === ViolationCode.MISSING_PPE ? { code, item, evidence } : { code, evidence }];
+  });
+}
+
+// Confidence sometimes arrives as a percentage
+function readConfidence(value: unknown, field: string): number {
+  let confidence = value === undefined ? 0 : readNumber(value, field);
+  if (confidence > 1 && confidence <= 100) confidence /= 100;
+  return clamp(confidence, 0, 1);
+}
+
+function readDetection(value: unknown, field: string): Detection {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw schemaError(`Field "${field}" must be an object`);
+  const entry = value as Record<string, unknown>;
+  const box2d = entry.box_2d;
+  if (!Array.isArray(box2d) || box2d.length !== 4) throw schemaError(`Field "${field}.box_2d" must be four numbers`);
+  for (const key of ['activity_level', 'efficiency_percentage', 'risk_level']) {
+    if (entry[key] === undefined || entry[key] === null) throw schemaError(`Missing required field "${field}.${key}"`);
+  }
+
+  const activity_level = readEnum(entry, 'activity_level', ActivityLevel)!;
+  return {
+    box: toBoundingBox(box2d.map((v, i) => readNumber(v, `${field}.box_2d[${i}]`))),
+    working_status: readEnum(entry, 'working_status', WorkingStatus) ?? toWorkingStatus(activity_level),
+    activity_level,
+    ppe: readPpe(entry.ppe, `${field}.ppe`),
+    efficiency_percentage: Math.round(clamp(readNumber(entry.efficiency_percentage, `${field}.efficiency_percentage`), 0, 100)),
+    risk_level: readEnum(entry, 'risk_level', RiskLevel)!,
+    confidence: readConfidence(entry.confidence, `${field}.confidence`),
+    violations: readViolations(entry.violations, `${field}.violations`)
+  };
+}
+
+/**
+ * Parses a provider's JSON text into a VisionAnalysis, enforcing the enums in
+ * types.ts and clamping numbers into range. Anything that cannot be repaired
+ * raises a schema AnalysisError so the caller can retry.
+ */
+export function parseVisionAnalysis(text: string): ParsedAnalysis {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw schemaError('Response is not valid JSON');
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw schemaError('Response is not a JSON object');
+
+  for (const field of ['human_detected', 'activity_level', 'efficiency_percentage', 'risk_level']) {
+    if (raw[field] === undefined || raw[field] === null) throw schemaError(`Missing required field "${field}"`);
+  }
+
+  const human_detected = readBoolean(raw.human_detected, 'human_detected');
+  const activity_level = human_detected
+    ? readEnum(raw, 'activity_level', ActivityLevel)!
+    : ActivityLevel.NOT_PRESENT;
+
+  const ppe = readPpe(raw.ppe, 'ppe');
+  // Pre-registry answers reported helmet and vest at the top level
+  if (raw.helmet !== undefined && ppe[PpeItem.HELMET] === undefined) ppe[PpeItem.HELMET] = readBoolean(raw.helmet, 'helmet');
+  if (raw.vest !== undefined && ppe[PpeItem.VEST] === undefined) ppe[PpeItem.VEST] = readBoolean(raw.vest, 'vest');
+
+  const confidence = readConfidence(raw.confidence, 'confidence');
+
+  let detections: Detection[] | undefined;
+  if (raw.detections !== undefined && raw.detections !== null) {
+    if (!Array.isArray(raw.detections)) throw schemaError('Field "detections" must be an array');
+    detections = raw.detections.map((entry, i) => readDetection(entry, `detections[${i}]`));
+  }
+
+  const analysis: VisionAnalysis = {
+    human_detected,
+    working_status: human_detected
+      ? (readEnum(raw, 'working_status', WorkingStatus) ?? toWorkingStatus(activity_level))
+      : WorkingStatus.ABSENT,
+    activity_level,
+    ppe,
+    efficiency_percentage: human_detected
+      ? Math.round(clamp(readNumber(raw.efficiency_percentage, 'efficiency_percentage'), 0, 100))
+      : 0,
+    risk_level: readEnum(raw, 'risk_level', RiskLevel)!,
+    confidence,
+    explanation: typeof raw.explanation === 'string' ? raw.explanation : '',
+    violations: human_detected ? readViolations(raw.violations, 'violations') : [],
+    detections
+  };
+
+  return { analysis, raw };
+}
@@ -0,0 +1,35 @@
+export interface RetryOptions {
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: unknown, attempt: number) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+export const DEFAULT_RETRY: RetryOptions = {
+  attempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  shouldRetry: () => true
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with full jitter: 0..base*2^n, capped at maxDelayMs.
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, options: Partial<RetryOptions> = {}): Promise<T> {
+  const opts = { ...DEFAULT_RETRY, ...options };
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= opts.attempts; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      lastError = error;
+      if (attempt === opts.attempts || !opts.shouldRetry(error, attempt)) break;
+      const delay = Math.random() * Math.min(opts.maxDelayMs, opts.baseDelayMs * 2 ** (attempt - 1));
+      opts.onRetry?.(error, attempt, delay);
+      await sleep(delay);
+    }
+  }
+  throw lastError;
+}
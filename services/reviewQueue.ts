@@ -0,0 +1,174 @@
+import {
+  AdjustmentType,
+  AlertSettings,
+  ConfidenceThresholds,
+  PayrollOutput,
+  ReviewDecision,
+  ReviewItem,
+  ReviewStatus,
+  RiskLevel
+} from "../types";
+import { RISK_ORDER } from "./monitoring";
+import { getMissingPpe, getRecordPpe } from "./sectorPolicies";
+import { OverrideRequest, applyOverride } from "./overrides";
+import { countRecords, countReviews, putReview } from "./historyStore";
+import { openIncident, settleProvisionalIncident } from "./incidents";
+import { RaisedAlert, loadAlertSettings, raiseAlerts } from "./alerts";
+
+const STORAGE_KEY = 'confidence_thresholds_v1';
+
+export const DEFAULT_CONFIDENCE_THRESHOLDS: ConfidenceThresholds = {
+  [ReviewDecision.ANY]: 0.5,
+  [ReviewDecision.PPE_VIOLATION]: 0.8,
+  [ReviewDecision.HIGH_RISK]: 0.75,
+  [ReviewDecision.PAY_ADJUSTMENT]: 0.7
+};
+
+export const REVIEW_DECISION_LABELS: Record<ReviewDecision, string> = {
+  [ReviewDecision.ANY]: 'Any verification',
+  [ReviewDecision.PPE_VIOLATION]: 'PPE violation',
+  [ReviewDecision.HIGH_RISK]: 'High or critical risk',
+  [ReviewDecision.PAY_ADJUSTMENT]: 'Bonus or penalty'
+};
+
+export function loadConfidenceThresholds(): ConfidenceThresholds {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return saved ? { ...DEFAULT_CONFIDENCE_THRESHOLDS, ...JSON.parse(saved) } : DEFAULT_CONFIDENCE_THRESHOLDS;
+}
+
+export function saveConfidenceThresholds(thresholds: ConfidenceThresholds): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(thresholds));
+}
+
+export function validateConfidenceThresholds(thresholds: ConfidenceThresholds): string | null {
+  for (const decision of Object.values(ReviewDecision)) {
+    const value = thresholds[decision];
+    if (!(value >= 0 && value <= 1)) return `${REVIEW_DECISION_LABELS[decision]} threshold must be between 0% and 100%.`;
+  }
+  return null;
+}
+
+// Whether the record makes the decision the threshold gates
+function makesDecision(record: PayrollOutput, decision: ReviewDecision): boolean {
+  switch (decision) {
+    case ReviewDecision.ANY:
+      return true;
+    case ReviewDecision.PPE_VIOLATION:
+      return getMissingPpe(record.sector, getRecordPpe(record)).length > 0;
+    case ReviewDecision.HIGH_RISK:
+      return RISK_ORDER.indexOf(record.risk_level) >= RISK_ORDER.indexOf(RiskLevel.HIGH);
+    case ReviewDecision.PAY_ADJUSTMENT:
+      return record.adjustment_type === AdjustmentType.BONUS || record.adjustment_type === AdjustmentType.PENALTY;
+  }
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Why the record should wait for a supervisor: one reason per decision it
+ * makes with less confidence than that decision requires. Empty when it can
+ * go straight to history. Denials are decided locally and never held.
+ */
+export function reviewReasons(record: PayrollOutput, thresholds = loadConfidenceThresholds()): string[] {
+  if (!record.authorized) return [];
+  return Object.values(ReviewDecision)
+    .filter(decision => makesDecision(record, decision) && record.confidence < thresholds[decision])
+    .map(decision => `${REVIEW_DECISION_LABELS[decision]}: confidence ${percent(record.confidence)} is below ${percent(thresholds[decision])}`);
+}
+
+/**
+ * Queues the record with the frame it was verified on instead of storing it.
+ * Its risk is not left waiting for the queue: the incident and alerts it
+ * would raise are raised now, marked provisional, under the review_id. The
+ * rules that fired are kept on the item; notifying is left to the caller.
+ */
+export async function holdForReview(
+  record: PayrollOutput,
+  reasons: string[],
+  evidenceImage?: string,
+  now = new Date()
+): Promise<{ item: ReviewItem; raised: RaisedAlert[] }> {
+  const item: ReviewItem = {
+    review_id: crypto.randomUUID(),
+    record,
+    evidence_image: evidenceImage,
+    queued_at: now.toISOString(),
+    reasons,
+    status: ReviewStatus.PENDING
+  };
+  await putReview(item);
+
+  const provisional = { ...record, record_id: item.review_id };
+  await openIncident(provisional, evidenceImage, true, now);
+  // The item is already queued, so a failing rule check must not fail the hold
+  const raised = await raiseAlerts(provisional, loadAlertSettings(), true, now).catch(err => {
+    console.error("Alert rules could not be checked", err);
+    return [] as RaisedAlert[];
+  });
+  if (raised.length === 0) return { item, raised };
+  const alerted = { ...item, alerted_rules: raised.map(({ rule }) => rule.rule_id) };
+  await putReview(alerted);
+  return { item: alerted, raised };
+}
+
+// Alert settings for storing a released record; rules raised while it was held do not fire twice
+export const releaseAlertSettings = (item: ReviewItem, settings = loadAlertSettings()): AlertSettings =>
+  ({ ...settings, rules: settings.rules.filter(rule => !item.alerted_rules?.includes(rule.rule_id)) });
+
+/**
+ * The record a review releases to history, confirmed as the model saw it or
+ * corrected through a supervisor override, and the item marked reviewed. The
+ * record is stored under the review_id, so storing it twice is harmless.
+ * Save the item with `completeReview` once the record is stored.
+ */
+export function resolveReview(
+  item: ReviewItem,
+  by: string,
+  correction?: Omit<OverrideRequest, 'by'>,
+  now = new Date()
+): { item: ReviewItem; record: PayrollOutput } | string {
+  if (item.status !== ReviewStatus.PENDING) return 'This verification has already been reviewed.';
+  if (!by.trim()) return 'Enter the supervisor reviewing the verification.';
+  const record = correction ? applyOverride(item.record, { ...correction, by }) : item.record;
+  if (typeof record === 'string') return record;
+
+  const reviewed_at = now.toISOString();
+  return {
+    item: {
+      ...item,
+      status: correction ? ReviewStatus.CORRECTED : ReviewStatus.CONFIRMED,
+      reviewed_at,
+      reviewed_by: by.trim()
+    },
+    record: {
+      ...record,
+      record_id: item.review_id,
+      manual_review: { reviewed_by: by.trim(), reviewed_at, corrected: !!correction, reasons: item.reasons }
+    }
+  };
+}
+
+// Saves the reviewed item and settles the provisional incident against the stored record
+export async function completeReview(item: ReviewItem, record: PayrollOutput, now = new Date()): Promise<void> {
+  await putReview(item);
+  await settleProvisionalIncident(record, item.reviewed_by ?? 'system', now);
+}
+
+export interface ReviewStats {
+  pending: number;
+  confirmed: number;
+  corrected: number;
+  held_share: number; // of every verification made, the fraction that was held; 0 with none
+}
+
+export async function summarizeReviews(): Promise<ReviewStats> {
+  const [pending, confirmed, corrected, stored] = await Promise.all([
+    countReviews(ReviewStatus.PENDING),
+    countReviews(ReviewStatus.CONFIRMED),
+    countReviews(ReviewStatus.CORRECTED),
+    countRecords()
+  ]);
+  // Reviewed verifications are already among the stored records
+  const total = stored + pending;
+  return { pending, confirmed, corrected, held_share: total > 0 ? Math.min(1, (pending + confirmed + corrected) / total) : 0 };
+}
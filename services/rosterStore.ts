@@ -0,0 +1,93 @@
+import { Employee, EmployeeStatus, Sector } from "../types";
+import { SECTOR_POLICIES, getSectorPolicy } from "./sectorPolicies";
+import { parseCsvRecords } from "./csv";
+
+const STORAGE_KEY = 'employee_roster_v1';
+
+// Seeded on first run so a fresh terminal can verify someone before HR imports the real roster
+const DEMO_ROSTER: Employee[] = [
+  { employee_id: 'EM001', name: 'Thabo Mokoena', sector: 'Mining', pay_grade: 'G1', status: EmployeeStatus.ACTIVE, hire_date: '2023-02-01' },
+  { employee_id: 'EM002', name: 'Priya Nair', sector: 'Hardware', pay_grade: 'G2', status: EmployeeStatus.ACTIVE, hire_date: '2022-08-15' },
+  { employee_id: 'EM003', name: 'Daniel Okafor', sector: 'Software', pay_grade: 'G3', status: EmployeeStatus.ACTIVE, hire_date: '2021-11-03' },
+  { employee_id: 'EM004', name: 'Maria Santos', sector: 'Construction', pay_grade: 'G1', status: EmployeeStatus.ACTIVE, hire_date: '2024-04-22' },
+  { employee_id: 'EM005', name: 'Jonas Lindqvist', sector: 'Chemical', pay_grade: 'G2', status: EmployeeStatus.ACTIVE, hire_date: '2020-06-09' },
+  { employee_id: 'EM006', name: 'Aisha Bello', sector: 'Warehouse', pay_grade: 'G1', status: EmployeeStatus.TERMINATED, hire_date: '2019-01-14' }
+];
+
+// Either `employee` (verification may proceed) or `reason` (denied) is set
+export interface RosterCheck {
+  employee?: Employee;
+  sectorMismatch?: boolean;
+  reason?: string;
+}
+
+export function loadRoster(): Employee[] {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return saved ? JSON.parse(saved) : DEMO_ROSTER;
+}
+
+export function saveRoster(roster: Employee[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(roster));
+}
+
+export const normalizeEmployeeId = (id: string): string => id.trim().toUpperCase();
+
+export function validateEmployee(employee: Employee): string | null {
+  if (!/^[A-Z0-9-]+$/.test(employee.employee_id)) return `Invalid employee ID "${employee.employee_id}"`;
+  if (!employee.name.trim()) return `${employee.employee_id}: name is required`;
+  if (!getSectorPolicy(employee.sector)) return `${employee.employee_id}: unknown sector "${employee.sector}"`;
+  if (!employee.pay_grade.trim()) return `${employee.employee_id}: pay grade is required`;
+  if (!Object.values(EmployeeStatus).includes(employee.status)) return `${employee.employee_id}: unknown status "${employee.status}"`;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(employee.hire_date) || isNaN(Date.parse(employee.hire_date))) {
+    return `${employee.employee_id}: hire date must be YYYY-MM-DD`;
+  }
+  return null;
+}
+
+// Inserts or replaces by employee ID, keeping the roster sorted.
+export function upsertEmployees(roster: Employee[], employees: Employee[]): Employee[] {
+  const byId = new Map(roster.map(e => [e.employee_id, e]));
+  employees.forEach(e => byId.set(e.employee_id, e));
+  return [...byId.values()].sort((a, b) => a.employee_id.localeCompare(b.employee_id));
+}
+
+/**
+ * Parses a roster export with the header
+ * employee_id,name,sector,pay_grade,status,hire_date
+ * Status defaults to active; invalid rows are reported and skipped.
+ */
+export function parseRosterCsv(text: string): { employees: Employee[]; errors: string[] } {
+  const employees: Employee[] = [];
+  const errors: string[] = [];
+
+  parseCsvRecords(text).forEach((row, i) => {
+    const sectorMatch = SECTOR_POLICIES.find(p => p.id.toLowerCase() === (row.sector ?? '').toLowerCase());
+    const employee: Employee = {
+      employee_id: normalizeEmployeeId(row.employee_id ?? ''),
+      name: row.name ?? '',
+      sector: sectorMatch?.id ?? row.sector ?? '',
+      pay_grade: (row.pay_grade ?? '').toUpperCase(),
+      status: ((row.status || EmployeeStatus.ACTIVE).toLowerCase()) as EmployeeStatus,
+      hire_date: row.hire_date ?? ''
+    };
+    const error = validateEmployee(employee);
+    if (error) {
+      errors.push(`Row ${i + 2}: ${error}`);
+    } else {
+      employees.push(employee);
+    }
+  });
+
+  return { employees, errors };
+}
+
+export function checkRoster(roster: Employee[], employeeId: string, sector: Sector): RosterCheck {
+  const employee = roster.find(e => e.employee_id === normalizeEmployeeId(employeeId));
+  if (!employee) {
+    return { reason: `Employee ${employeeId} is not on the workforce roster.` };
+  }
+  if (employee.status !== EmployeeStatus.ACTIVE) {
+    return { reason: `Employee ${employeeId} (${employee.name}) is ${employee.status} and may not be verified.` };
+  }
+  return { employee, sectorMismatch: employee.sector !== sector };
+}
@@ -0,0 +1,121 @@
+import { ActivityLevel, PayrollOutput, PpeFindings, PpeItem, RiskLevel, Sector, SectorPolicy } from "../types";
+
+export const PPE_LABELS: Record<PpeItem, string> = {
+  [PpeItem.HELMET]: 'Helmet',
+  [PpeItem.VEST]: 'Safety Vest',
+  [PpeItem.GOGGLES]: 'Goggles',
+  [PpeItem.GLOVES]: 'Gloves',
+  [PpeItem.EAR_PROTECTION]: 'Ear Protection',
+  [PpeItem.HARNESS]: 'Harness'
+};
+
+// Efficiency before PPE and posture penalties (prompt STEP 4)
+export const BASE_EFFICIENCY: Record<ActivityLevel, number> = {
+  [ActivityLevel.HIGH]: 95,
+  [ActivityLevel.MEDIUM]: 70,
+  [ActivityLevel.LOW]: 30,
+  [ActivityLevel.NOT_PRESENT]: 0
+};
+
+const STANDARD_RISK: SectorPolicy['risk'] = {
+  safe_working: RiskLevel.LOW,
+  idle: RiskLevel.MEDIUM,
+  missing_ppe: RiskLevel.HIGH,
+  unsafe_posture: RiskLevel.HIGH,
+  multiple_violations: RiskLevel.CRITICAL
+};
+
+export const SECTOR_POLICIES: SectorPolicy[] = [
+  {
+    id: 'Mining',
+    label: 'Mining',
+    base_rate: 50,
+    required_ppe: [PpeItem.HELMET],
+    penalties: { missing_ppe: 30, unsafe_posture: 20 },
+    risk: STANDARD_RISK
+  },
+  {
+    id: 'Hardware',
+    label: 'Hardware',
+    base_rate: 45,
+    required_ppe: [PpeItem.HELMET, PpeItem.VEST],
+    penalties: { missing_ppe: 30, unsafe_posture: 20 },
+    risk: STANDARD_RISK
+  },
+  {
+    id: 'Software',
+    label: 'Software',
+    base_rate: 60,
+    required_ppe: [],
+    penalties: { missing_ppe: 0, unsafe_posture: 20 },
+    risk: { ...STANDARD_RISK, missing_ppe: RiskLevel.LOW, idle: RiskLevel.LOW, unsafe_posture: RiskLevel.MEDIUM }
+  },
+  {
+    id: 'Construction',
+    label: 'Construction',
+    base_rate: 52,
+    required_ppe: [PpeItem.HELMET, PpeItem.VEST, PpeItem.HARNESS],
+    penalties: { missing_ppe: 30, unsafe_posture: 25 },
+    risk: STANDARD_RISK
+  },
+  {
+    id: 'Chemical',
+    label: 'Chemical',
+    base_rate: 55,
+    required_ppe: [PpeItem.GOGGLES, PpeItem.GLOVES],
+    penalties: { missing_ppe: 40, unsafe_posture: 20 },
+    risk: { ...STANDARD_RISK, missing_ppe: RiskLevel.CRITICAL }
+  },
+  {
+    id: 'Warehouse',
+    label: 'Warehouse',
+    base_rate: 42,
+    required_ppe: [PpeItem.VEST, PpeItem.GLOVES, PpeItem.EAR_PROTECTION],
+    penalties: { missing_ppe: 20, unsafe_posture: 20 },
+    risk: STANDARD_RISK
+  }
+];
+
+export const DEFAULT_SECTOR: Sector = SECTOR_POLICIES[0].id;
+
+export function getSectorPolicy(sector: Sector): SectorPolicy | undefined {
+  return SECTOR_POLICIES.find(p => p.id === sector);
+}
+
+// Every PPE item any sector requires, in registry order
+export function getTrackedPpeItems(): PpeItem[] {
+  const items = new Set<PpeItem>();
+  SECTOR_POLICIES.forEach(p => p.required_ppe.forEach(item => items.add(item)));
+  return Object.values(PpeItem).filter(item => items.has(item));
+}
+
+export function getMissingPpe(sector: Sector, ppe: PpeFindings): PpeItem[] {
+  return (getSectorPolicy(sector)?.required_ppe ?? []).filter(item => !ppe[item]);
+}
+
+// Records made before the registry only carried helmet and vest
+export function getRecordPpe(record: PayrollOutput): PpeFindings {
+  return record.ppe ?? { [PpeItem.HELMET]: record.helmet, [PpeItem.VEST]: record.vest };
+}
+
+export function buildSectorRulesPrompt(): string {
+  const lines = SECTOR_POLICIES.map(p => {
+    const ppe = p.required_ppe.length > 0
+      ? `${p.required_ppe.map(item => PPE_LABELS[item]).join(' + ')} REQUIRED`
+      : 'No PPE required';
+    return `- ${p.id}: ${ppe}. Missing required PPE: subtract ${p.penalties.missing_ppe} per item. Unsafe posture: subtract ${p.penalties.unsafe_posture}.`;
+  });
+  return [
+    ...lines,
+    '- Report every PPE item under "ppe", whether or not the sector requires it.',
+    '- List each rule broken under "violations": {"code": "missing_ppe", "item": <ppe key>} per missing REQUIRED item,',
+    '  and {"code": "unsafe_posture"} for unsafe posture. Give each an "evidence" sentence on what in the frame shows it.',
+    '- Final efficiency MUST be between 0–100.'
+  ].join('\n');
+}
+
+export function buildRiskPrompt(): string {
+  return SECTOR_POLICIES.map(p =>
+    `- ${p.id}: safe + working → ${p.risk.safe_working}; idle → ${p.risk.idle}; missing PPE → ${p.risk.missing_ppe}; unsafe posture → ${p.risk.unsafe_posture}; multiple violations → ${p.risk.multiple_violations}; absent → none`
+  ).join('\n');
+}
@@ -0,0 +1,12 @@
+import { AnalysisProvider } from "../types";
+import { verifyFrame } from "./apiClient";
+import { GEMINI_MODEL, PROMPT_VERSION } from "./geminiVersion";
+
+// Gemini through the API server, which holds the key; the id predates the server so saved choices and recordings still match
+export const serverAnalysisProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Gemini Vision',
+  model: GEMINI_MODEL,
+  prompt_version: PROMPT_VERSION,
+  analyze: verifyFrame
+};
@@ -0,0 +1,183 @@
+import {
+  MonitoringSample,
+  PayrollInput,
+  PayrollOutput,
+  ShiftEvent,
+  ShiftSession,
+  ShiftSessionStatus,
+  ShiftUniquenessRule
+} from "../types";
+import { findVerifiedShift } from "./historyStore";
+
+const STORAGE_KEY = 'shift_sessions_v1';
+const RULE_KEY = 'shift_uniqueness_rule';
+
+export const SHIFT_EVENT_LABELS: Record<ShiftEvent, string> = {
+  [ShiftEvent.CHECK_IN]: 'Check-in',
+  [ShiftEvent.MID_SHIFT]: 'Mid-shift Check',
+  [ShiftEvent.CHECK_OUT]: 'Check-out'
+};
+
+export interface ShiftPlan {
+  event: ShiftEvent;
+  session?: ShiftSession; // the open session for mid-shift checks and check-out
+  payrollInput: PayrollInput;
+}
+
+export function loadSessions(): ShiftSession[] {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return saved ? JSON.parse(saved) : [];
+}
+
+export function saveSessions(sessions: ShiftSession[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+}
+
+export function getUniquenessRule(): ShiftUniquenessRule {
+  const saved = localStorage.getItem(RULE_KEY) as ShiftUniquenessRule | null;
+  return saved && Object.values(ShiftUniquenessRule).includes(saved) ? saved : ShiftUniquenessRule.PER_DAY;
+}
+
+export function setUniquenessRule(rule: ShiftUniquenessRule): void {
+  localStorage.setItem(RULE_KEY, rule);
+}
+
+export function findOpenSession(sessions: ShiftSession[], employeeId: string): ShiftSession | undefined {
+  return sessions.find(s => s.employee_id === employeeId && s.status === ShiftSessionStatus.OPEN);
+}
+
+// Events the operator may record next for this employee
+export function allowedEvents(sessions: ShiftSession[], employeeId: string): ShiftEvent[] {
+  return findOpenSession(sessions, employeeId)
+    ? [ShiftEvent.MID_SHIFT, ShiftEvent.CHECK_OUT]
+    : [ShiftEvent.CHECK_IN];
+}
+
+/**
+ * Validates the requested event against the employee's sessions and builds
+ * the payroll input for it. Mid-shift checks and check-out always measure
+ * from the session's check-in, not from whatever the form currently shows.
+ * Returns an operator-facing reason when the event is not allowed.
+ */
+export function planShiftEvent(
+  sessions: ShiftSession[],
+  input: PayrollInput,
+  event: ShiftEvent,
+  rule: ShiftUniquenessRule = getUniquenessRule()
+): ShiftPlan | string {
+  const open = findOpenSession(sessions, input.employee_id);
+
+  if (event === ShiftEvent.CHECK_IN) {
+    if (open) {
+      return `Employee ${input.employee_id} already has an open shift since ${open.check_in_time.replace('T', ' ')}. Check out first.`;
+    }
+    const shiftDate = input.check_in_time.slice(0, 10);
+    if (rule === ShiftUniquenessRule.PER_DAY &&
+        sessions.some(s => s.employee_id === input.employee_id && s.shift_date === shiftDate)) {
+      return `Employee ${input.employee_id} has already worked a shift on ${shiftDate}. One shift per calendar day is allowed.`;
+    }
+    return { event, payrollInput: input };
+  }
+
+  if (!open) {
+    return `Employee ${input.employee_id} has no open shift. Record a check-in first.`;
+  }
+  return {
+    event,
+    session: open,
+    payrollInput: { ...input, sector: open.sector, time_zone: open.time_zone, check_in_time: open.check_in_time }
+  };
+}
+
+/**
+ * planShiftEvent, plus the archive: under the per-day rule a check-in is also
+ * refused when the history store already holds a verified record for that
+ * day, which covers records made before shift sessions existed.
+ */
+export async function planShiftEventWithArchive(
+  sessions: ShiftSession[],
+  input: PayrollInput,
+  event: ShiftEvent,
+  rule: ShiftUniquenessRule = getUniquenessRule()
+): Promise<ShiftPlan | string> {
+  const plan = planShiftEvent(sessions, input, event, rule);
+  if (typeof plan === 'string' || event !== ShiftEvent.CHECK_IN || rule !== ShiftUniquenessRule.PER_DAY) return plan;
+  const shiftDate = input.check_in_time.slice(0, 10);
+  const existing = await findVerifiedShift(input.employee_id, shiftDate);
+  return existing
+    ? `Employee ${input.employee_id} already has a verified record for ${shiftDate} in the archive. One shift per calendar day is allowed.`
+    : plan;
+}
+
+/**
+ * Applies a completed verification to the session list, returning the
+ * updated sessions and the record annotated with its shift.
+ */
+export function applyShiftEvent(
+  sessions: ShiftSession[],
+  plan: ShiftPlan,
+  record: PayrollOutput
+): { sessions: ShiftSession[]; record: PayrollOutput } {
+  const entry = { event: plan.event, at: plan.payrollInput.current_time, record_timestamp: record.timestamp };
+
+  let session: ShiftSession;
+  if (plan.event === ShiftEvent.CHECK_IN) {
+    session = {
+      shift_id: crypto.randomUUID(),
+      employee_id: record.employee_id,
+      sector: plan.payrollInput.sector,
+      time_zone: plan.payrollInput.time_zone,
+      shift_date: plan.payrollInput.check_in_time.slice(0, 10),
+      check_in_time: plan.payrollInput.check_in_time,
+      status: ShiftSessionStatus.OPEN,
+      events: [entry]
+    };
+  } else {
+    const closing = plan.event === ShiftEvent.CHECK_OUT;
+    session = {
+      ...plan.session!,
+      check_out_time: closing ? plan.payrollInput.current_time : undefined,
+      status: closing ? ShiftSessionStatus.CLOSED : ShiftSessionStatus.OPEN,
+      events: [...plan.session!.events, entry]
+    };
+  }
+
+  return {
+    sessions: [session, ...sessions.filter(s => s.shift_id !== session.shift_id)],
+    record: {
+      ...record,
+      shift_id: session.shift_id,
+      shift_event: plan.event,
+      pay_final: plan.event === ShiftEvent.CHECK_OUT
+    }
+  };
+}
+
+/**
+ * Records a shift verified after the fact (batch shift sheets): the session is
+ * opened and closed by the one record. Check uniqueness with planShiftEvent first.
+ */
+export function applyCompletedShift(
+  sessions: ShiftSession[],
+  input: PayrollInput,
+  record: PayrollOutput
+): { sessions: ShiftSession[]; record: PayrollOutput } {
+  const session: ShiftSession = {
+    shift_id: crypto.randomUUID(),
+    employee_id: record.employee_id,
+    sector: input.sector,
+    time_zone: input.time_zone,
+    shift_date: input.check_in_time.slice(0, 10),
+    check_in_time: input.check_in_time,
+    status: ShiftSessionStatus.OPEN,
+    events: [{ event: ShiftEvent.CHECK_IN, at: input.check_in_time, record_timestamp: record.timestamp }]
+  };
+  return applyShiftEvent(sessions, { event: ShiftEvent.CHECK_OUT, session, payrollInput: input }, record);
+}
+
+export function appendSample(sessions: ShiftSession[], shiftId: string, sample: MonitoringSample): ShiftSession[] {
+  return sessions.map(s => s.shift_id === shiftId ? { ...s, samples: [...(s.samples ?? []), sample] } : s);
+}
+
+// Records that count towards payroll: check-outs, plus anything made before sessions existed
+export const isPayable = (record: PayrollOutput): boolean => record.pay_final !== false;
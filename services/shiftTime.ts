@@ -0,0 +1,129 @@
+import { PayrollInput, PayrollOutput } from "../types";
+
+export interface BreakRule {
+  minShiftHours: number;
+  unpaidMinutes: number;
+}
+
+export interface ResolvedShift {
+  start: Date;
+  end: Date;
+  time_zone: string;
+  gross_minutes: number;
+  break_minutes: number;
+  paid_minutes: number;
+}
+
+// Statutory default: 30 unpaid minutes past 6h on shift, 60 past 10h.
+export const DEFAULT_BREAK_RULES: BreakRule[] = [
+  { minShiftHours: 6, unpaidMinutes: 30 },
+  { minShiftHours: 10, unpaidMinutes: 60 }
+];
+
+// Rotations longer than this are treated as data entry mistakes
+export const MAX_SHIFT_HOURS = 72;
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/;
+const CLOCK_TIME = /^(\d{2}):(\d{2})$/;
+
+export const getLocalTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const zonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+const offsetMillis = (date: Date, timeZone: string): number => {
+  const p = zonedParts(date, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Converts a wall-clock "YYYY-MM-DDTHH:MM" reading in an IANA zone to an instant.
+export function zonedDateTimeToUtc(local: string, timeZone: string): Date {
+  const match = local.match(LOCAL_DATE_TIME);
+  if (!match) throw new Error(`Invalid shift timestamp "${local}"`);
+  const [, y, mo, d, h, mi] = match.map(Number);
+  const wall = Date.UTC(y, mo - 1, d, h, mi);
+  // Second pass settles readings that fall on a DST transition
+  const firstGuess = wall - offsetMillis(new Date(wall), timeZone);
+  return new Date(wall - offsetMillis(new Date(firstGuess), timeZone));
+}
+
+// Formats an instant as the "YYYY-MM-DDTHH:MM" value a datetime-local input expects.
+export function formatZonedDateTime(date: Date, timeZone: string): string {
+  const p = zonedParts(date, timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+export function resolveBreakMinutes(grossMinutes: number, rules: BreakRule[] = DEFAULT_BREAK_RULES): number {
+  return rules
+    .filter(rule => grossMinutes >= rule.minShiftHours * 60)
+    .reduce((max, rule) => Math.max(max, rule.unpaidMinutes), 0);
+}
+
+/**
+ * Resolves check-in and verification readings into a concrete shift.
+ * Bare "HH:MM" readings (older records, shift sheets) are anchored to the
+ * verification day and a check-out at or before check-in rolls over midnight.
+ */
+export function resolveShift(
+  input: Pick<PayrollInput, 'check_in_time' | 'current_time' | 'time_zone' | 'break_minutes'>,
+  rules: BreakRule[] = DEFAULT_BREAK_RULES
+): ResolvedShift {
+  const timeZone = input.time_zone || getLocalTimeZone();
+  let start: Date;
+  let end: Date;
+
+  const inClock = input.check_in_time.match(CLOCK_TIME);
+  const outClock = input.current_time.match(CLOCK_TIME);
+  if (inClock && outClock) {
+    const today = formatZonedDateTime(new Date(), timeZone).slice(0, 10);
+    end = zonedDateTimeToUtc(`${today}T${input.current_time}`, timeZone);
+    start = zonedDateTimeToUtc(`${today}T${input.check_in_time}`, timeZone);
+    if (start.getTime() >= end.getTime()) start = new Date(start.getTime() - 24 * 60 * 60 * 1000);
+  } else {
+    start = zonedDateTimeToUtc(input.check_in_time, timeZone);
+    end = zonedDateTimeToUtc(input.current_time, timeZone);
+  }
+
+  const gross_minutes = Math.round((end.getTime() - start.getTime()) / 60000);
+  if (gross_minutes < 0) {
+    throw new Error('Verification time must not be before shift check-in.');
+  }
+  if (gross_minutes > MAX_SHIFT_HOURS * 60) {
+    throw new Error(`Shift exceeds the ${MAX_SHIFT_HOURS}h maximum. Check the entered dates.`);
+  }
+
+  const requestedBreak = input.break_minutes ?? resolveBreakMinutes(gross_minutes, rules);
+  const break_minutes = Math.min(Math.max(0, requestedBreak), gross_minutes);
+
+  return {
+    start,
+    end,
+    time_zone: timeZone,
+    gross_minutes,
+    break_minutes,
+    paid_minutes: gross_minutes - break_minutes
+  };
+}
+
+// "2026-10-18 22:00 → 06:00" in the record's own zone; null for records without a stored shift
+export function formatShiftWindow(record: PayrollOutput): string | null {
+  if (!record.shift_start || !record.shift_end || !record.time_zone) return null;
+  const start = formatZonedDateTime(new Date(record.shift_start), record.time_zone).replace('T', ' ');
+  const end = formatZonedDateTime(new Date(record.shift_end), record.time_zone);
+  const sameDay = start.slice(0, 10) === end.slice(0, 10);
+  return `${start} → ${sameDay ? end.slice(11) : end.replace('T', ' ')}`;
+}
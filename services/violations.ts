@@ -0,0 +1,66 @@
+import { ActivityLevel, PayrollOutput, PpeFindings, RiskLevel, Sector, Violation, ViolationCode, ViolationFinding } from "../types";
+import { PPE_LABELS, getMissingPpe, getRecordPpe, getSectorPolicy } from "./sectorPolicies";
+
+export const VIOLATION_CODE_LABELS: Record<ViolationCode, string> = {
+  [ViolationCode.MISSING_PPE]: 'Missing PPE',
+  [ViolationCode.UNSAFE_POSTURE]: 'Unsafe posture'
+};
+
+// Groups violations for counting: missing PPE per item, anything else per code
+export const violationKey = (v: ViolationFinding): string => (v.item ? `${v.code}:${v.item}` : v.code);
+
+export function describeViolationKey(key: string): string {
+  const [code, item] = key.split(':');
+  if (item) return `${PPE_LABELS[item as keyof typeof PPE_LABELS] ?? item} not worn`;
+  return VIOLATION_CODE_LABELS[code as ViolationCode] ?? code;
+}
+
+/**
+ * Prices the model's findings against the sector policy. Missing PPE comes
+ * from the PPE findings, which overrides may have corrected, so an item the
+ * model flagged but the record shows worn is dropped and an item missing
+ * without a finding still counts. Other codes are taken as reported.
+ */
+export function deriveViolations(sector: Sector, ppe: PpeFindings, findings: ViolationFinding[] = []): Violation[] {
+  const policy = getSectorPolicy(sector);
+  const label = policy?.label ?? sector;
+  const missing = getMissingPpe(sector, ppe).map(item => ({
+    code: ViolationCode.MISSING_PPE,
+    item,
+    evidence: findings.find(f => f.code === ViolationCode.MISSING_PPE && f.item === item)?.evidence ?? '',
+    rule: `${label}: ${PPE_LABELS[item]} required`,
+    severity: policy?.risk.missing_ppe ?? RiskLevel.NONE,
+    efficiency_impact: -(policy?.penalties.missing_ppe ?? 0)
+  }));
+  const posture = findings.filter(f => f.code === ViolationCode.UNSAFE_POSTURE).slice(0, 1).map(f => ({
+    code: ViolationCode.UNSAFE_POSTURE,
+    evidence: f.evidence,
+    rule: `${label}: safe working posture`,
+    severity: policy?.risk.unsafe_posture ?? RiskLevel.NONE,
+    efficiency_impact: -(policy?.penalties.unsafe_posture ?? 0)
+  }));
+  return [...missing, ...posture];
+}
+
+/**
+ * Rates a verdict under the sector's risk table (prompt STEP 6): absent is no
+ * risk, two or more of idle, missing PPE and unsafe posture rate as multiple
+ * violations, and a single one takes its own level.
+ */
+export function deriveRiskLevel(sector: Sector, activity: ActivityLevel, findings: ViolationFinding[]): RiskLevel {
+  const policy = getSectorPolicy(sector);
+  if (!policy || activity === ActivityLevel.NOT_PRESENT) return RiskLevel.NONE;
+  const idle = activity === ActivityLevel.LOW;
+  if (findings.length + (idle ? 1 : 0) > 1) return policy.risk.multiple_violations;
+  if (findings.some(f => f.code === ViolationCode.MISSING_PPE)) return policy.risk.missing_ppe;
+  if (findings.length > 0) return policy.risk.unsafe_posture;
+  return idle ? policy.risk.idle : policy.risk.safe_working;
+}
+
+// Records made before violation codes only carry PPE findings, so posture is unknown for them
+export const getRecordViolations = (record: PayrollOutput): Violation[] =>
+  record.violations ?? (record.authorized && record.human_detected ? deriveViolations(record.sector, getRecordPpe(record)) : []);
+
+// "Harness not worn (Construction: Harness required, high, -30 pts)"
+export const formatViolation = (v: Violation): string =>
+  `${describeViolationKey(violationKey(v))} (${v.rule}, ${v.severity}, ${v.efficiency_impact} pts)`;
@@ -0,0 +1,95 @@
+import { Alert, DeliveryStatus, RiskLevel, WebhookDelivery, WebhookEndpoint } from "../types";
+import { hmacSha256Hex } from "./hash";
+import { addAlert, listDueDeliveries, putDelivery } from "./historyStore";
+import { buildWebhookBody, loadAlertSettings, queueDelivery } from "./alerts";
+
+export const SIGNATURE_HEADER = 'X-Phoenix-Signature';
+
+const MAX_ATTEMPTS = 6;
+// Delay before attempt n+1, doubling from the first retry and capped
+const BASE_RETRY_MS = 15 * 1000;
+const MAX_RETRY_MS = 30 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export const retryDelayMs = (attempt: number): number => Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** (attempt - 1));
+
+// Sends one attempt; resolves with the HTTP status, rejects when no answer came back
+async function post(url: string, body: string, secret?: string): Promise<number> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (secret) headers[SIGNATURE_HEADER] = `sha256=${await hmacSha256Hex(secret, body)}`;
+  const response = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  return response.status;
+}
+
+/**
+ * Makes one attempt at a delivery and records it. 2xx delivers; anything
+ * else is retried with backoff until the attempts run out, unless `retry` is
+ * off. A webhook removed from the settings since the alert fired is not
+ * contacted again.
+ */
+async function attemptDelivery(delivery: WebhookDelivery, webhooks: WebhookEndpoint[], now = new Date(), retry = true): Promise<WebhookDelivery> {
+  const webhook = webhooks.find(w => w.webhook_id === delivery.webhook_id);
+  let status: number | undefined;
+  let error: string | undefined;
+  if (!webhook) {
+    error = 'Webhook was removed from the alert settings.';
+  } else {
+    try {
+      status = await post(delivery.url, delivery.body, webhook.secret);
+      if (status < 200 || status >= 300) error = `Receiver answered ${status}.`;
+    } catch (err) {
+      // Browsers report CORS refusals and unreachable hosts alike as a TypeError
+      error = (err as Error).name === 'TimeoutError' ? `No answer within ${REQUEST_TIMEOUT_MS / 1000}s.` : (err as Error).message;
+    }
+  }
+
+  const attempts = [...delivery.attempts, { at: now.toISOString(), status, error }];
+  const delivered = !error;
+  const exhausted = !retry || !webhook || attempts.length >= MAX_ATTEMPTS;
+  const updated: WebhookDelivery = {
+    ...delivery,
+    attempts,
+    status: delivered ? DeliveryStatus.DELIVERED : exhausted ? DeliveryStatus.FAILED : DeliveryStatus.PENDING,
+    next_attempt_at: delivered || exhausted ? delivery.next_attempt_at : new Date(now.getTime() + retryDelayMs(attempts.length)).toISOString()
+  };
+  await putDelivery(updated);
+  return updated;
+}
+
+let running: Promise<number> | null = null;
+
+// Attempts every due delivery once; returns how many were attempted
+export function processDeliveries(now = new Date()): Promise<number> {
+  if (!running) {
+    running = (async () => {
+      const { webhooks } = loadAlertSettings();
+      const due = await listDueDeliveries(now);
+      for (const delivery of due) await attemptDelivery(delivery, webhooks);
+      return due.length;
+    })().finally(() => { running = null; });
+  }
+  return running;
+}
+
+// One more attempt at a failed delivery, made now and added to its log
+export const retryDelivery = (delivery: WebhookDelivery, now = new Date()): Promise<WebhookDelivery> =>
+  attemptDelivery(delivery, loadAlertSettings().webhooks, now, false);
+
+// Sends a labelled test alert to one webhook through the normal delivery log
+export async function sendTestAlert(webhook: WebhookEndpoint, sentBy: string, now = new Date()): Promise<WebhookDelivery> {
+  const alert: Alert = {
+    alert_id: crypto.randomUUID(),
+    rule_id: 'test',
+    rule_name: 'Test alert',
+    triggered_at: now.toISOString(),
+    message: `Test alert sent by ${sentBy}`,
+    record_id: '',
+    employee_id: '',
+    sector: '',
+    risk_level: RiskLevel.NONE,
+    record_ids: []
+  };
+  const delivery = queueDelivery(webhook.url, webhook.webhook_id, alert, buildWebhookBody(alert), now);
+  await addAlert(alert, [delivery]);
+  return attemptDelivery(delivery, [webhook], now);
+}
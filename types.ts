@@ -1,10 +1,18 @@
 
-export enum Sector {
-  MINING = 'Mining',
-  HARDWARE = 'Hardware',
-  SOFTWARE = 'Software'
+// Sector ids are the keys of the sector policy registry (services/sectorPolicies.ts)
+export type Sector = string;
+
+export enum PpeItem {
+  HELMET = 'helmet',
+  VEST = 'vest',
+  GOGGLES = 'goggles',
+  GLOVES = 'gloves',
+  EAR_PROTECTION = 'ear_protection',
+  HARNESS = 'harness'
 }
 
+export type PpeFindings = Partial<Record<PpeItem, boolean>>;
+
 export enum WorkPermission {
   ALLOW = 'allow',
   DENY = 'deny'
@@ -44,15 +52,76 @@ export enum WorkingStatus {
   ABSENT = 'absent'
 }
 
+export interface SectorPolicy {
+  id: Sector;
+  label: string;
+  base_rate: number; // hourly, used when the rate card has no entry for the employee's grade
+  required_ppe: PpeItem[];
+  penalties: {
+    missing_ppe: number; // efficiency points per missing item
+    unsafe_posture: number;
+  };
+  risk: {
+    safe_working: RiskLevel;
+    idle: RiskLevel;
+    missing_ppe: RiskLevel;
+    unsafe_posture: RiskLevel;
+    multiple_violations: RiskLevel;
+  };
+}
+
+export enum ViolationCode {
+  MISSING_PPE = 'missing_ppe',
+  UNSAFE_POSTURE = 'unsafe_posture'
+}
+
+// A rule break as the model reported it
+export interface ViolationFinding {
+  code: ViolationCode;
+  item?: PpeItem; // the item not worn, for missing_ppe
+  evidence: string; // what the model saw in the frame
+}
+
+// A rule break as recorded, priced against the sector policy
+export interface Violation extends ViolationFinding {
+  rule: string; // the sector rule broken, e.g. "Construction: Harness required"
+  severity: RiskLevel;
+  efficiency_impact: number; // efficiency points the rule deducts, as a negative number
+}
+
+export enum EmployeeStatus {
+  ACTIVE = 'active',
+  TERMINATED = 'terminated'
+}
+
+export interface Employee {
+  employee_id: string;
+  name: string;
+  sector: Sector;
+  pay_grade: string;
+  status: EmployeeStatus;
+  hire_date: string; // YYYY-MM-DD
+}
+
 export interface PayrollInput {
   employee_id: string;
   sector: Sector;
-  check_in_time: string;
+  check_in_time: string; // "YYYY-MM-DDTHH:MM" wall clock in time_zone
   current_time: string;
+  time_zone: string; // IANA zone of the site, e.g. "Africa/Johannesburg"
+  break_minutes?: number; // unpaid; break rules apply when omitted
   worker_image?: string; // base64
 }
 
-export interface PayrollOutput {
+// Shift window as stored with a record; absent on records made before shifts carried dates
+export interface ShiftWindow {
+  shift_start: string; // UTC ISO
+  shift_end: string; // UTC ISO
+  time_zone: string;
+  break_minutes: number;
+}
+
+export interface PayrollOutput extends Partial<ShiftWindow> {
   employee_id: string;
   sector: string;
   authorized: boolean;
@@ -61,6 +130,7 @@ export interface PayrollOutput {
   activity_level: ActivityLevel;
   helmet: boolean;
   vest: boolean;
+  ppe?: PpeFindings; // absent on records made before the sector registry
   efficiency_percentage: number;
   risk_level: RiskLevel;
   hours_worked: number;
@@ -68,9 +138,548 @@ export interface PayrollOutput {
   base_salary: number; // Added for internal calculation context
   final_salary: number;
   work_status: WorkStatus;
+  adjustment_type: AdjustmentType;
   confidence: number;
   explanation: string;
   timestamp: string;
+  discrepancies?: PayrollDiscrepancy[];
+  flagged?: boolean;
+  employee_name?: string;
+  roster_sector?: Sector; // set when the operator's sector differs from the roster
+  analysis_provider?: string;
+  model?: string;
+  prompt_version?: string;
+  recording_key?: string;
+  replayed?: boolean;
+  uploaded_by?: string; // terminal the API server received the record from; set by the server
+  shift_id?: string;
+  shift_event?: ShiftEvent;
+  pay_final?: boolean; // false for check-in and mid-shift records; absent on pre-session records
+  monitoring?: ShiftAggregate; // set when pay used time-weighted monitoring figures
+  detections?: Detection[];
+  selected_detection?: number; // index into detections the operator matched to the employee
+  record_id?: string; // assigned by the history store
+  shift_date?: string; // local YYYY-MM-DD the shift started on, indexed by the history store
+  pay_run_id?: string; // set while the record is locked in an approved pay run
+  pay_breakdown?: PayBreakdown; // components of base_salary; absent on denials and older records
+  pay_grade?: string; // roster grade the rate was looked up with
+  rate_effective_from?: string; // rate card entry used; absent when the sector base rate applied
+  ai_findings?: AiFindings; // what the model reported, kept from the first supervisor override
+  overrides?: RecordOverride[]; // oldest first; the record's fields reflect the last one
+  violations?: Violation[]; // absent on records made before violation codes
+  audit?: AuditEnvelope;
+  manual_review?: ManualReview; // set when low confidence held the verification for review
+}
+
+// Fractions of the captured frame, origin top-left
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One person found in the frame, judged on their own
+export interface Detection {
+  box: BoundingBox;
+  working_status: WorkingStatus;
+  activity_level: ActivityLevel;
+  ppe: PpeFindings;
+  efficiency_percentage: number;
+  risk_level: RiskLevel;
+  confidence: number;
+  violations?: ViolationFinding[];
+}
+
+// Fields the vision model is trusted to judge from the captured frame
+export interface VisionAnalysis {
+  human_detected: boolean;
+  working_status: WorkingStatus;
+  activity_level: ActivityLevel;
+  ppe: PpeFindings;
+  efficiency_percentage: number;
+  risk_level: RiskLevel;
+  confidence: number;
+  explanation: string;
+  violations?: ViolationFinding[]; // rule breaks the top-level fields describe
+  detections?: Detection[]; // everyone in frame, most prominent first; top-level fields describe the first
+}
+
+// The model's findings and the pay they produced, before any supervisor override
+export interface AiFindings {
+  ppe: PpeFindings;
+  activity_level: ActivityLevel;
+  working_status: WorkingStatus;
+  efficiency_percentage: number;
+  adjustment_type: AdjustmentType;
+  final_salary: number;
+  risk_level?: RiskLevel; // absent on records overridden before risk was re-derived
+}
+
+export interface RecordOverride {
+  at: string; // UTC ISO
+  by: string;
+  reason: string;
+  ppe?: PpeFindings; // only the items changed
+  activity_level?: ActivityLevel;
+  efficiency_percentage?: number;
+  dispute_id?: string; // the dispute this override upheld
+}
+
+export enum DisputeStatus {
+  OPEN = 'open',
+  UPHELD = 'upheld',
+  REJECTED = 'rejected'
+}
+
+// A worker's challenge to a record's findings, queued for supervisor review
+export interface Dispute {
+  dispute_id: string;
+  record_id: string;
+  employee_id: string;
+  raised_at: string;
+  raised_by: string;
+  message: string;
+  status: DisputeStatus;
+  resolved_at?: string;
+  resolved_by?: string;
+  resolution_note?: string;
+}
+
+// In workflow order; an incident only moves forward
+export enum IncidentStatus {
+  OPEN = 'open',
+  ACKNOWLEDGED = 'acknowledged',
+  CORRECTIVE_ACTION = 'corrective_action',
+  CLOSED = 'closed'
+}
+
+export interface IncidentEvent {
+  at: string;
+  by: string;
+  status?: IncidentStatus; // set on transitions
+  owner?: string; // set on assignments
+  comment?: string;
+  escalation?: string; // why the incident was escalated, e.g. "Not acknowledged within 1 h"
+}
+
+// Raised automatically for a high or critical risk verification
+export interface Incident {
+  incident_id: string;
+  record_id: string;
+  employee_id: string;
+  employee_name?: string;
+  sector: Sector;
+  risk_level: RiskLevel;
+  violations: string[]; // the sector rules the verification broke
+  evidence_image?: string; // base64 JPEG of the verified frame
+  opened_at: string;
+  status: IncidentStatus;
+  owner?: string;
+  corrective_action?: string;
+  acknowledged_at?: string;
+  closed_at?: string;
+  escalated_at?: string; // the last escalation; cleared when the incident closes
+  // Opened for a verification held for manual review; cleared when the review upholds the risk
+  provisional?: boolean;
+  withdrawn_at?: string; // closed because the review rated the verification below incident level
+  events: IncidentEvent[]; // oldest first
+}
+
+// Decisions a verification can make, each gated by its own confidence threshold
+export enum ReviewDecision {
+  ANY = 'any', // every model verification
+  PPE_VIOLATION = 'ppe_violation', // required PPE judged missing
+  HIGH_RISK = 'high_risk', // risk rated high or critical
+  PAY_ADJUSTMENT = 'pay_adjustment' // a bonus or penalty applied
+}
+
+// 0 to 1; below the threshold a decision is held for review, 0 turns the gate off
+export type ConfidenceThresholds = Record<ReviewDecision, number>;
+
+export enum ReviewStatus {
+  PENDING = 'pending',
+  CONFIRMED = 'confirmed',
+  CORRECTED = 'corrected'
+}
+
+// A low-confidence verification held back from history until a supervisor checks it
+export interface ReviewItem {
+  review_id: string; // also the record_id the reviewed record is stored under
+  record: PayrollOutput;
+  evidence_image?: string; // base64 JPEG of the verified frame
+  queued_at: string;
+  reasons: string[];
+  status: ReviewStatus;
+  reviewed_at?: string;
+  reviewed_by?: string;
+  alerted_rules?: string[]; // alert rules already raised for the held verification
+}
+
+// Stamped on records that were released from the review queue
+export interface ManualReview {
+  reviewed_by: string;
+  reviewed_at: string;
+  corrected: boolean;
+  reasons: string[]; // why the verification was held
+}
+
+export enum AlertRuleKind {
+  RISK = 'risk', // one verification at or above min_risk
+  DENIALS = 'denials' // count denials within window_minutes
+}
+
+export interface AlertRule {
+  rule_id: string;
+  name: string;
+  enabled: boolean;
+  kind: AlertRuleKind;
+  sectors: Sector[]; // empty matches every sector
+  min_risk?: RiskLevel; // RISK rules
+  count?: number; // DENIALS rules
+  window_minutes?: number; // DENIALS rules; also how long the rule stays quiet after firing
+  notify: boolean; // desktop notification
+  alarm: boolean; // audible alarm on the terminal
+  webhook: boolean; // POST to every enabled webhook
+}
+
+export interface WebhookEndpoint {
+  webhook_id: string;
+  url: string;
+  secret?: string; // signs each body with HMAC-SHA256 when set
+  enabled: boolean;
+}
+
+export interface AlertSettings {
+  rules: AlertRule[];
+  webhooks: WebhookEndpoint[];
+}
+
+export interface Alert {
+  alert_id: string;
+  rule_id: string;
+  rule_name: string;
+  triggered_at: string;
+  message: string;
+  record_id: string; // the verification that fired the rule
+  employee_id: string;
+  sector: Sector;
+  risk_level: RiskLevel;
+  record_ids: string[]; // every verification counted, e.g. the denials in the window
+  provisional?: boolean; // the verification was held for manual review when the rule fired
+}
+
+export enum DeliveryStatus {
+  PENDING = 'pending',
+  DELIVERED = 'delivered',
+  FAILED = 'failed' // gave up after the last retry
+}
+
+export interface DeliveryAttempt {
+  at: string;
+  status?: number; // HTTP status, absent when the request never got an answer
+  error?: string;
 }
 
-export type AppTab = 'calculator' | 'admin';
+// One alert to one webhook, kept as the delivery log
+export interface WebhookDelivery {
+  delivery_id: string;
+  webhook_id: string;
+  url: string;
+  alert_id: string;
+  rule_name: string;
+  body: string; // the exact JSON sent on every attempt
+  created_at: string;
+  status: DeliveryStatus;
+  next_attempt_at: string; // when a pending delivery is due
+  attempts: DeliveryAttempt[];
+}
+
+// How a verification was produced, stored with the record it produced
+export interface AuditEnvelope {
+  operator: string; // who ran the verification on this device
+  image_sha256?: string; // of the captured JPEG; absent when no frame was sent
+  model?: string;
+  prompt_version?: string;
+  raw_response?: string; // the provider's text exactly as received
+}
+
+export enum AuditAction {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  PURGED = 'purged'
+}
+
+// One link of the append-only hash chain over every history write
+export interface AuditEntry {
+  seq: number; // from 1, without gaps
+  record_id: string;
+  action: AuditAction;
+  at: string; // UTC ISO
+  record_hash: string; // SHA-256 of the record as written; empty for purges
+  prev_hash: string; // the previous entry's hash; empty for the first
+  hash: string; // SHA-256 over every other field of this entry
+}
+
+export interface IntegrityIssue {
+  seq?: number;
+  record_id?: string;
+  problem: string;
+}
+
+export interface IntegrityReport {
+  checked_at: string;
+  entry_count: number;
+  record_count: number;
+  issues: IntegrityIssue[];
+}
+
+// One dated rate for a sector and pay grade; it applies until a later entry takes over
+export interface RateCardEntry {
+  sector: Sector;
+  pay_grade: string;
+  hourly_rate: number;
+  effective_from: string; // YYYY-MM-DD shift date
+}
+
+// Figures owned by the local payroll engine, never by the model
+export interface PayrollFigures {
+  hours_worked: number;
+  hourly_rate: number;
+  base_salary: number;
+  final_salary: number;
+  work_status: WorkStatus;
+  adjustment_type: AdjustmentType;
+}
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD, local to the shift's time zone
+  name: string;
+}
+
+// Labour agreement terms applied on top of the hourly rate
+export interface PayRules {
+  daily_overtime_hours: number; // paid hours per shift before overtime
+  weekly_overtime_hours: number; // regular hours per Monday-Sunday week before overtime
+  overtime_multiplier: number;
+  night_start: string; // local "HH:MM"
+  night_end: string; // local "HH:MM"; before night_start when the window crosses midnight
+  night_differential: number; // fraction of the hourly rate added for each night hour
+  holiday_multiplier: number;
+  holidays: Holiday[];
+}
+
+// base_salary = regular_pay + overtime_pay + holiday_pay + night_pay
+export interface PayBreakdown {
+  regular_hours: number;
+  overtime_hours: number;
+  holiday_hours: number; // paid at the holiday multiplier instead of regular or overtime
+  night_hours: number; // any of the above falling in the night window
+  regular_pay: number;
+  overtime_pay: number;
+  holiday_pay: number;
+  night_pay: number; // the differential only
+}
+
+export interface PayrollDiscrepancy {
+  field: keyof PayrollFigures;
+  model_value: number | string;
+  computed_value: number | string;
+}
+
+export enum ShiftEvent {
+  CHECK_IN = 'check_in',
+  MID_SHIFT = 'mid_shift',
+  CHECK_OUT = 'check_out'
+}
+
+export enum ShiftSessionStatus {
+  OPEN = 'open',
+  CLOSED = 'closed'
+}
+
+// How often an employee may open a shift
+export enum ShiftUniquenessRule {
+  PER_SHIFT = 'per_shift', // a new shift may open once the previous one is closed
+  PER_DAY = 'per_day' // at most one shift per local calendar day
+}
+
+// One analyzed (or skipped) camera sample taken while a shift was open
+export interface MonitoringSample {
+  sampled_at: string; // UTC ISO
+  skipped: boolean; // near-duplicate of the previous frame, not analyzed
+  activity_level?: ActivityLevel;
+  efficiency_percentage?: number;
+  ppe_compliant?: boolean;
+  risk_level?: RiskLevel;
+  confidence?: number;
+}
+
+// Time-weighted view of a monitored shift; each analyzed sample holds until the next one
+export interface ShiftAggregate {
+  sample_count: number;
+  skipped_count: number;
+  monitored_minutes: number;
+  activity_level: ActivityLevel; // dominant by time
+  efficiency_percentage: number;
+  ppe_compliance_percentage: number;
+  risk_level: RiskLevel;
+  peak_risk_level: RiskLevel;
+}
+
+export interface ShiftSession {
+  shift_id: string;
+  employee_id: string;
+  sector: Sector;
+  time_zone: string;
+  shift_date: string; // local YYYY-MM-DD of check-in
+  check_in_time: string; // "YYYY-MM-DDTHH:MM" wall clock
+  check_out_time?: string;
+  status: ShiftSessionStatus;
+  events: { event: ShiftEvent; at: string; record_timestamp: string }[];
+  samples?: MonitoringSample[];
+}
+
+// What an analysis provider is asked to judge for one verification
+export interface AnalysisRequest {
+  employee_id: string;
+  sector: Sector;
+  shift: ShiftWindow;
+  hourly_rate?: number; // from the rate card, for the model's reference calculation
+  worker_image?: string; // base64 JPEG
+}
+
+// Raw provider answer; parsed and audited by the payroll service
+export interface AnalysisResponse {
+  text: string;
+  model: string;
+  prompt_version: string;
+}
+
+export interface AnalysisProvider {
+  id: string;
+  label: string;
+  model: string;
+  prompt_version: string;
+  analyze(request: AnalysisRequest): Promise<AnalysisResponse>;
+}
+
+export enum RecordingMode {
+  OFF = 'off',
+  RECORD = 'record',
+  REPLAY = 'replay'
+}
+
+// One captured provider exchange, replayable offline
+export interface AnalysisRecording {
+  key: string; // hash of provider, model, prompt version and request
+  recorded_at: string;
+  provider: string;
+  model: string;
+  prompt_version: string;
+  input: PayrollInput; // worker_image stripped, see below
+  request: AnalysisRequest; // worker_image stripped
+  worker_image?: string;
+  response: AnalysisResponse;
+}
+
+export enum BatchItemStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  DONE = 'done',
+  DENIED = 'denied', // refused before analysis: roster, shift rules or no matching photo
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+export enum PayPeriodFrequency {
+  WEEKLY = 'weekly',
+  BIWEEKLY = 'biweekly',
+  MONTHLY = 'monthly'
+}
+
+export enum PayRunStatus {
+  DRAFT = 'draft',
+  LOCKED = 'locked' // approved; its records can no longer change
+}
+
+export enum PayRunAction {
+  CREATED = 'created',
+  RECALCULATED = 'recalculated',
+  APPROVED = 'approved',
+  REOPENED = 'reopened'
+}
+
+// One employee's verified shifts in a pay run
+export interface PayRunLine {
+  employee_id: string;
+  employee_name?: string;
+  sector: Sector;
+  shift_count: number;
+  hours_worked: number;
+  base_salary: number;
+  adjustment_total: number; // efficiency bonuses less penalties
+  gross_pay: number;
+  flagged_count: number;
+  record_ids: string[];
+}
+
+export interface PayRunTotals {
+  employee_count: number;
+  shift_count: number;
+  hours_worked: number;
+  base_salary: number;
+  adjustment_total: number;
+  gross_pay: number;
+  flagged_count: number;
+}
+
+export interface PayRunEvent {
+  action: PayRunAction;
+  at: string; // UTC ISO
+  by?: string;
+  reason?: string; // required when reopening
+}
+
+export interface PayRun {
+  run_id: string;
+  frequency: PayPeriodFrequency;
+  period_start: string; // YYYY-MM-DD, inclusive
+  period_end: string; // YYYY-MM-DD, inclusive
+  status: PayRunStatus;
+  created_at: string;
+  calculated_at: string;
+  lines: PayRunLine[];
+  totals: PayRunTotals;
+  approved_by?: string;
+  approved_at?: string;
+  history: PayRunEvent[];
+}
+
+export type AppTab = 'calculator' | 'batch' | 'admin';
+
+export enum UserRole {
+  OPERATOR = 'operator', // gate terminal: runs verifications
+  SUPERVISOR = 'supervisor', // reviews and overrides records, approves pay runs
+  ADMIN = 'admin' // also roster, rates, pay rules, purges and accounts
+}
+
+export interface UserAccount {
+  user_id: string;
+  name: string; // sign-in name, unique regardless of case
+  role: UserRole;
+  pin_salt: string; // hex
+  pin_hash: string; // hex PBKDF2-SHA-256 of the PIN or password
+  active: boolean;
+  created_at: string;
+  failed_attempts?: number; // consecutive, reset on a successful sign-in
+  locked_until?: string; // UTC ISO; set after too many failed attempts
+}
+
+export interface UserSession {
+  user_id: string;
+  name: string;
+  role: UserRole;
+  signed_in_at: string;
+  last_active_at: string;
+}
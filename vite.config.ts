@@ -8,11 +8,14 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The API server holds the Gemini key; the browser bundle never sees it
+        proxy: {
+          '/api': env.API_SERVER_URL || 'http://localhost:8787',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER)
       },
       resolve: {
         alias: {